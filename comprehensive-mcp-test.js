@@ -50,7 +50,7 @@ function assert(condition, testName, message = '') {
 async function startServer() {
   console.log(`${colors.cyan}Starting MCP server...${colors.reset}`);
   
-  const serverProcess = spawn('npx', ['tsx', 'src/server.ts'], {
+  const serverProcess = spawn('npx', ['tsx', 'src/main.ts'], {
     cwd: __dirname,
     stdio: ['pipe', 'pipe', 'pipe'] // Pipe stdin/stdout/stderr
   });
@@ -0,0 +1,475 @@
+/**
+ * Server Configuration - Typed Settings Loaded Once from the Environment
+ *
+ * Handles:
+ * - Reading every setting the server uses (see .env.example), with its default
+ * - Type-checking values and failing startup with every problem listed,
+ *   instead of running with a NaN timeout or a silently ignored flag
+ * - Handing each service the section it needs, so nothing else reads process.env
+ *
+ * Settings for surrounding infrastructure (Cloud Run, Docker) are read by that
+ * tooling, and GOOGLE_APPLICATION_CREDENTIALS by the Google client library.
+ */
+
+import { QueryCostLimits } from './types/actions-report.js';
+
+export type TransportMode = 'stdio' | 'http' | 'both';
+
+export const TRANSPORT_MODES: TransportMode[] = ['stdio', 'http', 'both'];
+
+export type LogLevel = 'error' | 'warn' | 'info' | 'debug';
+
+export const LOG_LEVELS: LogLevel[] = ['error', 'warn', 'info', 'debug'];
+
+// Encodings loadFromCSV can decode
+export type CsvEncoding = 'utf8' | 'utf16le' | 'latin1' | 'ascii';
+
+export interface RetrySettings {
+  // Total tries, including the first
+  maxAttempts: number;
+  // Backoff ceiling before the first retry; doubles each retry up to maxDelayMs
+  initialDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface BigQuerySettings {
+  // Default BigQuery source, used until configure_data_source switches it
+  projectId?: string;
+  datasetId?: string;
+  tableId?: string;
+  // Dataset location every job runs in
+  location: string;
+  // Service account key for the default source (GOOGLE_CREDENTIALS_JSON)
+  credentials?: ServiceAccountCredentials;
+  // Server-side limit on each BigQuery job
+  jobTimeoutMs: number;
+  // Rows requested per page of query results
+  maxResults: number;
+  // Backoff for rate limits and backend errors
+  retry: RetrySettings;
+}
+
+export interface ServiceAccountCredentials {
+  client_email: string;
+  private_key: string;
+  [field: string]: unknown;
+}
+
+export interface DataSourceSettings {
+  // Source used when no data source has been configured for the session
+  defaultType: 'bigquery' | 'csv';
+  csvPath?: string;
+  csvEncoding: CsvEncoding;
+}
+
+export interface QueryCacheSettings {
+  type: 'memory' | 'file';
+  // Where the file cache keeps its entries
+  directory: string;
+  // Expiry for results of a run that may still be written
+  ttlMs: number;
+  // Expiry for results of a run the data shows complete, which never change
+  runTtlMs: number;
+  maxSize: number;
+  // Most rows held across all entries
+  maxRows: number;
+}
+
+export interface QueryAuditSettings {
+  enabled: boolean;
+  // JSON Lines file every query is appended to
+  path: string;
+}
+
+export interface QuerySettings {
+  // Most rows a single query may return
+  maxRows: number;
+  // Client-side deadline for a query: dry run, job and every page of results
+  timeoutMs: number;
+  // Log each query's SQL and parameters before it runs
+  logQueries: boolean;
+  // Queries taking at least this long are logged as slow; 0 turns this off
+  slowQueryThresholdMs: number;
+}
+
+export interface ReportLimitSettings {
+  // Most rows each report reads; MAX_QUERY_ROWS still applies when lower
+  lots: number;
+  rollforwardAssets: number;
+  // Per date, so an inventory variance reads up to twice this
+  inventoryRecords: number;
+}
+
+export interface ColumnMappingSettings {
+  // A valid mapping passed to validate_column_mapping is applied unless apply is false
+  autoConfirm: boolean;
+}
+
+export interface PrecisionSettings {
+  // Decimal places for USD amounts, asset quantities and percentages in report output
+  currency: number;
+  crypto: number;
+  percentage: number;
+}
+
+export interface LoggingSettings {
+  // Console output below this level is dropped
+  level: LogLevel;
+}
+
+export interface ReportJobSettings {
+  maxJobs: number;
+  ttlMs: number;
+  // Records held across all finished job results
+  maxRecords: number;
+}
+
+export interface ReportPageSettings {
+  // How long a directly run report stays pageable after its first page
+  ttlMs: number;
+  // Records held for paging across all sessions
+  maxRecords: number;
+}
+
+export interface RateLimitSettings {
+  windowMs: number;
+  // MCP requests one client may send per window; 0 turns rate limiting off
+  maxRequests: number;
+}
+
+export interface HttpSettings {
+  transport: TransportMode;
+  port: number;
+  host?: string;
+  // Extra health check path served alongside /
+  healthCheckEndpoint: string;
+  shutdownGracePeriodMs: number;
+  // Streamable HTTP sessions with nothing open for this long are closed
+  sessionIdleTimeoutMs: number;
+  rateLimit: RateLimitSettings;
+}
+
+export interface ServerInfoSettings {
+  // Reported to clients when they initialize
+  name: string;
+  version: string;
+}
+
+export interface FeatureFlags {
+  lotsReport: boolean;
+  rollforwardReport: boolean;
+  // Inventory balance and inventory variance
+  inventoryReport: boolean;
+  // analyze_actions_data
+  naturalLanguage: boolean;
+  sqlPassthrough: boolean;
+}
+
+export interface ServerConfig {
+  server: ServerInfoSettings;
+  bigquery: BigQuerySettings;
+  dataSource: DataSourceSettings;
+  queryCache: QueryCacheSettings;
+  query: QuerySettings;
+  reportLimits: ReportLimitSettings;
+  columnMapping: ColumnMappingSettings;
+  queryAudit: QueryAuditSettings;
+  cost: QueryCostLimits;
+  precision: PrecisionSettings;
+  reportJobs: ReportJobSettings;
+  reportPages: ReportPageSettings;
+  http: HttpSettings;
+  logging: LoggingSettings;
+  features: FeatureFlags;
+}
+
+export class ConfigurationError extends Error {
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid configuration:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+    this.name = 'ConfigurationError';
+    this.problems = problems;
+  }
+}
+
+/**
+ * Load and validate the configuration, throwing ConfigurationError listing
+ * every invalid setting
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): ServerConfig {
+  const read = new EnvReader(env);
+
+  const projectId = read.optionalString('GOOGLE_CLOUD_PROJECT_ID');
+  const datasetId = read.optionalString('BIGQUERY_DATASET_ID');
+  const tableId = read.optionalString('BIGQUERY_TABLE_ID');
+  const csvPath = read.optionalString('CSV_DATA_PATH');
+  const maximumBytesBilled = read.optionalInt('MAX_BYTES_BILLED', { min: 1 });
+  const orgMaximumBytesBilled = read.byteLimits('MAX_BYTES_BILLED_BY_ORG');
+  const host = read.optionalString('MCP_SERVER_HOST');
+  const credentials = read.serviceAccount('GOOGLE_CREDENTIALS_JSON');
+
+  const config: ServerConfig = {
+    server: {
+      name: read.string('MCP_SERVER_NAME', 'reporting-mcp-server'),
+      version: read.string('MCP_SERVER_VERSION', '1.0.0')
+    },
+    bigquery: {
+      ...(projectId ? { projectId } : {}),
+      ...(datasetId ? { datasetId } : {}),
+      ...(tableId ? { tableId } : {}),
+      ...(credentials ? { credentials } : {}),
+      location: read.string('BIGQUERY_LOCATION', 'US'),
+      jobTimeoutMs: read.int('BIGQUERY_JOB_TIMEOUT_MS', 60000, { min: 1 }),
+      maxResults: read.int('BIGQUERY_MAX_RESULTS', 10000, { min: 1 }),
+      retry: {
+        maxAttempts: read.int('BIGQUERY_RETRY_MAX_ATTEMPTS', 4, { min: 1 }),
+        initialDelayMs: read.int('BIGQUERY_RETRY_INITIAL_DELAY_MS', 500, { min: 0 }),
+        maxDelayMs: read.int('BIGQUERY_RETRY_MAX_DELAY_MS', 16000, { min: 0 })
+      }
+    },
+    dataSource: {
+      defaultType: read.oneOf('DEFAULT_DATA_SOURCE_TYPE', ['bigquery', 'csv'] as const, 'bigquery'),
+      ...(csvPath ? { csvPath } : {}),
+      csvEncoding: read.oneOf('CSV_ENCODING', ['utf8', 'utf16le', 'latin1', 'ascii'] as const, 'utf8',
+        value => value.toLowerCase().replace(/^utf-(8|16le)$/, 'utf$1'))
+    },
+    queryCache: {
+      type: read.oneOf('QUERY_CACHE_TYPE', ['memory', 'file'] as const, 'memory'),
+      directory: read.string('QUERY_CACHE_DIR', '.cache/queries'),
+      ttlMs: read.int('QUERY_CACHE_TTL_MS', 300000, { min: 0 }),
+      runTtlMs: read.int('QUERY_CACHE_RUN_TTL_MS', 604800000, { min: 0 }),
+      maxSize: read.int('QUERY_CACHE_MAX_SIZE', 100, { min: 0 }),
+      maxRows: read.int('QUERY_CACHE_MAX_ROWS', 1000000, { min: 0 })
+    },
+    query: {
+      maxRows: read.int('MAX_QUERY_ROWS', 1000000, { min: 1 }),
+      timeoutMs: read.int('QUERY_TIMEOUT_MS', 120000, { min: 1 }),
+      logQueries: read.boolean('ENABLE_QUERY_LOGGING', false),
+      slowQueryThresholdMs: read.int('SLOW_QUERY_THRESHOLD_MS', 5000, { min: 0 })
+    },
+    reportLimits: {
+      lots: read.int('MAX_LOTS_REPORT_SIZE', 50000, { min: 1 }),
+      rollforwardAssets: read.int('MAX_ROLLFORWARD_ASSETS', 1000, { min: 1 }),
+      inventoryRecords: read.int('MAX_INVENTORY_RECORDS', 10000, { min: 1 })
+    },
+    columnMapping: {
+      autoConfirm: read.boolean('AUTO_CONFIRM_MAPPINGS', false)
+    },
+    queryAudit: {
+      enabled: read.boolean('QUERY_AUDIT_ENABLED', true),
+      path: read.string('QUERY_AUDIT_LOG_PATH', 'logs/query-audit.jsonl')
+    },
+    cost: {
+      ...(maximumBytesBilled !== undefined ? { maximumBytesBilled } : {}),
+      ...(orgMaximumBytesBilled ? { orgMaximumBytesBilled } : {}),
+      pricePerTiBUSD: read.number('BIGQUERY_PRICE_PER_TIB_USD', 6.25, { min: 0 })
+    },
+    precision: {
+      currency: read.int('CURRENCY_DECIMAL_PLACES', 2, { min: 0, max: 20 }),
+      crypto: read.int('CRYPTO_DECIMAL_PLACES', 8, { min: 0, max: 20 }),
+      percentage: read.int('PERCENTAGE_DECIMAL_PLACES', 2, { min: 0, max: 20 })
+    },
+    reportJobs: {
+      maxJobs: read.int('REPORT_JOB_MAX_JOBS', 100, { min: 1 }),
+      ttlMs: read.int('REPORT_JOB_TTL_MS', 3600000, { min: 0 }),
+      maxRecords: read.int('REPORT_JOB_MAX_RECORDS', 2000000, { min: 0 })
+    },
+    reportPages: {
+      ttlMs: read.int('REPORT_PAGE_TTL_MS', 900000, { min: 0 }),
+      maxRecords: read.int('REPORT_PAGE_MAX_RECORDS', 2000000, { min: 0 })
+    },
+    http: {
+      transport: read.oneOf('MCP_SERVER_TRANSPORT', TRANSPORT_MODES, 'stdio', value => value.toLowerCase()),
+      // PORT is set by Cloud Run and wins over MCP_SERVER_PORT
+      port: read.int(env.PORT ? 'PORT' : 'MCP_SERVER_PORT', 8080, { min: 1, max: 65535 }),
+      ...(host ? { host } : {}),
+      healthCheckEndpoint: read.path('HEALTH_CHECK_ENDPOINT', '/health'),
+      shutdownGracePeriodMs: read.int('SHUTDOWN_GRACE_PERIOD_MS', 10000, { min: 0 }),
+      sessionIdleTimeoutMs: read.int('MCP_SESSION_IDLE_TIMEOUT_MS', 1800000, { min: 1000 }),
+      rateLimit: {
+        windowMs: read.int('RATE_LIMIT_WINDOW_MS', 60000, { min: 1 }),
+        maxRequests: read.int('RATE_LIMIT_MAX_REQUESTS', 100, { min: 0 })
+      }
+    },
+    logging: {
+      level: read.oneOf('LOG_LEVEL', LOG_LEVELS, 'info', value => value.toLowerCase())
+    },
+    features: {
+      lotsReport: read.boolean('ENABLE_LOTS_REPORT', true),
+      rollforwardReport: read.boolean('ENABLE_ROLLFORWARD_REPORT', true),
+      inventoryReport: read.boolean('ENABLE_INVENTORY_REPORT', true),
+      naturalLanguage: read.boolean('ENABLE_NATURAL_LANGUAGE', true),
+      sqlPassthrough: read.boolean('ENABLE_SQL_PASSTHROUGH', false)
+    }
+  };
+
+  // Otherwise the first report would fail instead of startup
+  if (config.dataSource.defaultType === 'csv' && !csvPath) {
+    read.problems.push('CSV_DATA_PATH must be set when DEFAULT_DATA_SOURCE_TYPE is csv');
+  }
+
+  if (read.problems.length > 0) {
+    throw new ConfigurationError(read.problems);
+  }
+
+  return config;
+}
+
+// ============================================================================
+// ENVIRONMENT PARSING
+// ============================================================================
+
+interface NumberRange {
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Typed accessors over the environment that record problems instead of
+ * throwing, so one startup failure reports every invalid setting
+ */
+class EnvReader {
+  readonly problems: string[] = [];
+  private env: NodeJS.ProcessEnv;
+
+  constructor(env: NodeJS.ProcessEnv) {
+    this.env = env;
+  }
+
+  optionalString(name: string): string | undefined {
+    const value = this.env[name]?.trim();
+    return value ? value : undefined;
+  }
+
+  string(name: string, fallback: string): string {
+    return this.optionalString(name) ?? fallback;
+  }
+
+  optionalNumber(name: string, range: NumberRange = {}, integer = false): number | undefined {
+    const raw = this.optionalString(name);
+    if (raw === undefined) {
+      return undefined;
+    }
+
+    const value = Number(raw);
+    const kind = integer ? 'an integer' : 'a number';
+    if (!Number.isFinite(value) || (integer && !Number.isSafeInteger(value))) {
+      this.problems.push(`${name} must be ${kind} (got "${raw}")`);
+      return undefined;
+    }
+    if (range.min !== undefined && value < range.min) {
+      this.problems.push(`${name} must be at least ${range.min} (got ${value})`);
+      return undefined;
+    }
+    if (range.max !== undefined && value > range.max) {
+      this.problems.push(`${name} must be at most ${range.max} (got ${value})`);
+      return undefined;
+    }
+
+    return value;
+  }
+
+  optionalInt(name: string, range: NumberRange = {}): number | undefined {
+    return this.optionalNumber(name, range, true);
+  }
+
+  number(name: string, fallback: number, range: NumberRange = {}): number {
+    return this.optionalNumber(name, range) ?? fallback;
+  }
+
+  int(name: string, fallback: number, range: NumberRange = {}): number {
+    return this.optionalInt(name, range) ?? fallback;
+  }
+
+  boolean(name: string, fallback: boolean): boolean {
+    const raw = this.optionalString(name)?.toLowerCase();
+    if (raw === undefined) {
+      return fallback;
+    }
+    if (['true', '1', 'yes', 'on'].includes(raw)) {
+      return true;
+    }
+    if (['false', '0', 'no', 'off'].includes(raw)) {
+      return false;
+    }
+
+    this.problems.push(`${name} must be true or false (got "${raw}")`);
+    return fallback;
+  }
+
+  oneOf<T extends string>(name: string, values: readonly T[], fallback: T, normalize: (value: string) => string = value => value): T {
+    const raw = this.optionalString(name);
+    if (raw === undefined) {
+      return fallback;
+    }
+
+    const value = normalize(raw);
+    if (!values.includes(value as T)) {
+      this.problems.push(`${name} must be one of ${values.join(', ')} (got "${raw}")`);
+      return fallback;
+    }
+
+    return value as T;
+  }
+
+  path(name: string, fallback: string): string {
+    const value = this.string(name, fallback);
+    if (!value.startsWith('/')) {
+      this.problems.push(`${name} must be a path starting with / (got "${value}")`);
+      return fallback;
+    }
+
+    return value;
+  }
+
+  /**
+   * JSON object of orgId -> positive integer byte count
+   */
+  byteLimits(name: string): Record<string, number> | undefined {
+    const raw = this.optionalString(name);
+    if (raw === undefined) {
+      return undefined;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      parsed = null;
+    }
+
+    const valid = parsed !== null && typeof parsed === 'object' && !Array.isArray(parsed) &&
+      Object.values(parsed).every(limit => Number.isSafeInteger(limit) && (limit as number) > 0);
+    if (!valid) {
+      this.problems.push(`${name} must be a JSON object of orgId to a positive byte count (e.g. {"org_123": 10737418240})`);
+      return undefined;
+    }
+
+    return parsed as Record<string, number>;
+  }
+
+  /**
+   * Base64-encoded service account key JSON
+   */
+  serviceAccount(name: string): ServiceAccountCredentials | undefined {
+    const raw = this.optionalString(name);
+    if (raw === undefined) {
+      return undefined;
+    }
+
+    let parsed: any;
+    try {
+      parsed = JSON.parse(Buffer.from(raw, 'base64').toString('utf8'));
+    } catch {
+      parsed = null;
+    }
+
+    if (typeof parsed?.client_email !== 'string' || typeof parsed?.private_key !== 'string') {
+      this.problems.push(`${name} must be a base64-encoded service account key with client_email and private_key`);
+      return undefined;
+    }
+
+    return parsed as ServiceAccountCredentials;
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * Reporting Errors - Typed Failures with JSON-RPC Error Codes
+ *
+ * Every failure surfaced to MCP clients carries one of the documented codes
+ * (see docs/api-documentation.md) so integrations can tell a bad argument
+ * from a BigQuery outage.
+ */
+
+export const ErrorCodes = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+  REQUEST_CANCELLED: -32800,
+  QUERY_PARSING: -32000,
+  BIGQUERY_EXECUTION: -32001,
+  DATA_SOURCE_CONFIGURATION: -32002,
+  REPORT_GENERATION: -32003,
+  COLUMN_MAPPING: -32004,
+  QUERY_COST_LIMIT: -32005,
+  RATE_LIMITED: -32006
+} as const;
+
+export interface JsonRpcError {
+  code: number;
+  message: string;
+  data?: Record<string, any>;
+}
+
+export class ReportingError extends Error {
+  readonly code: number;
+  readonly data: Record<string, any> | undefined;
+
+  constructor(code: number, message: string, data?: Record<string, any>) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    this.data = data;
+  }
+
+  toJsonRpcError(): JsonRpcError {
+    return {
+      code: this.code,
+      message: this.message,
+      ...(this.data ? { data: this.data } : {})
+    };
+  }
+}
+
+export class InvalidParamsError extends ReportingError {
+  constructor(message: string, data?: Record<string, any>) {
+    super(ErrorCodes.INVALID_PARAMS, message, data);
+  }
+}
+
+export class QueryParsingError extends ReportingError {
+  constructor(message: string, data?: Record<string, any>) {
+    super(ErrorCodes.QUERY_PARSING, message, data);
+  }
+}
+
+export class BigQueryExecutionError extends ReportingError {
+  constructor(message: string, data?: Record<string, any>) {
+    super(ErrorCodes.BIGQUERY_EXECUTION, message, data);
+  }
+}
+
+export class DataSourceConfigurationError extends ReportingError {
+  constructor(message: string, data?: Record<string, any>) {
+    super(ErrorCodes.DATA_SOURCE_CONFIGURATION, message, data);
+  }
+}
+
+export class ReportGenerationError extends ReportingError {
+  constructor(message: string, data?: Record<string, any>) {
+    super(ErrorCodes.REPORT_GENERATION, message, data);
+  }
+}
+
+export class ColumnMappingError extends ReportingError {
+  constructor(message: string, data?: Record<string, any>) {
+    super(ErrorCodes.COLUMN_MAPPING, message, data);
+  }
+}
+
+export class QueryCostLimitError extends ReportingError {
+  constructor(message: string, data?: Record<string, any>) {
+    super(ErrorCodes.QUERY_COST_LIMIT, message, data);
+  }
+}
+
+// ============================================================================
+// CLASSIFIED BIGQUERY FAILURES
+// ============================================================================
+
+/**
+ * Stable reasons carried in data.reason, so clients can branch on the cause
+ * without parsing BigQuery's messages
+ */
+export const BigQueryErrorReasons = {
+  PERMISSION_DENIED: 'PERMISSION_DENIED',
+  TABLE_NOT_FOUND: 'TABLE_NOT_FOUND',
+  INVALID_QUERY: 'INVALID_QUERY',
+  QUERY_TIMEOUT: 'QUERY_TIMEOUT',
+  QUOTA_EXCEEDED: 'QUOTA_EXCEEDED',
+  BACKEND_UNAVAILABLE: 'BACKEND_UNAVAILABLE'
+} as const;
+
+export type BigQueryErrorReason = typeof BigQueryErrorReasons[keyof typeof BigQueryErrorReasons];
+
+// Missing IAM access to the project, dataset or table
+export class BigQueryPermissionError extends DataSourceConfigurationError {
+  constructor(message: string, data?: Record<string, any>) {
+    super(message, { reason: BigQueryErrorReasons.PERMISSION_DENIED, ...data });
+  }
+}
+
+export class BigQueryTableNotFoundError extends DataSourceConfigurationError {
+  constructor(message: string, data?: Record<string, any>) {
+    super(message, { reason: BigQueryErrorReasons.TABLE_NOT_FOUND, ...data });
+  }
+}
+
+// BigQuery rejected the SQL (usually a column mapping that does not match the table)
+export class BigQueryInvalidQueryError extends BigQueryExecutionError {
+  constructor(message: string, data?: Record<string, any>) {
+    super(message, { reason: BigQueryErrorReasons.INVALID_QUERY, ...data });
+  }
+}
+
+export class BigQueryTimeoutError extends BigQueryExecutionError {
+  constructor(message: string, data?: Record<string, any>) {
+    super(message, { reason: BigQueryErrorReasons.QUERY_TIMEOUT, ...data });
+  }
+}
+
+export class BigQueryQuotaError extends BigQueryExecutionError {
+  constructor(message: string, data?: Record<string, any>) {
+    super(message, { reason: BigQueryErrorReasons.QUOTA_EXCEEDED, ...data });
+  }
+}
+
+// Rate limits or backend errors that outlasted every retry
+export class BigQueryUnavailableError extends BigQueryExecutionError {
+  constructor(message: string, data?: Record<string, any>) {
+    super(message, { reason: BigQueryErrorReasons.BACKEND_UNAVAILABLE, ...data });
+  }
+}
+
+export class RequestCancelledError extends ReportingError {
+  constructor(message: string = 'Request cancelled', data?: Record<string, any>) {
+    super(ErrorCodes.REQUEST_CANCELLED, message, data);
+  }
+}
+
+/**
+ * Throw RequestCancelledError if the caller has aborted the request
+ */
+export function throwIfCancelled(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw new RequestCancelledError();
+  }
+}
+
+/**
+ * The error with its data written into the message. The MCP SDK forwards only
+ * an error's code and message, so without this stdio and MCP HTTP clients
+ * would never see suggestions, reasons or validation results.
+ */
+export function withDataInMessage(error: unknown): unknown {
+  if (!(error instanceof ReportingError) || !error.data) {
+    return error;
+  }
+
+  // Validation issues are already listed in the message
+  const { suggestions, issues, ...details } = error.data;
+  let message = error.message;
+  if (Array.isArray(suggestions) && suggestions.length > 0) {
+    message += `\nSuggestions:\n${suggestions.map(suggestion => `- ${suggestion}`).join('\n')}`;
+  }
+  if (Object.keys(details).length > 0) {
+    message += `\nDetails: ${JSON.stringify(details)}`;
+  }
+
+  return new ReportingError(error.code, message, error.data);
+}
+
+/**
+ * Convert any thrown value to a JSON-RPC error, keeping typed codes and
+ * falling back to the given code for untyped failures
+ */
+export function toJsonRpcError(error: unknown, fallbackCode: number = ErrorCodes.INTERNAL_ERROR): JsonRpcError {
+  if (error instanceof ReportingError) {
+    return error.toJsonRpcError();
+  }
+
+  return {
+    code: fallbackCode,
+    message: error instanceof Error ? error.message : String(error)
+  };
+}
@@ -1,45 +1,313 @@
 import express from 'express';
+import { randomUUID } from 'crypto';
+import { Server as HttpServer } from 'http';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
 import { ReportingMCPServer } from './server.js';
+import { SESSION_HEADER, StreamableHTTPServerTransport } from './transports/streamable-http.js';
+import { ErrorCodes } from './errors.js';
+import { HttpSettings, RateLimitSettings } from './config.js';
 
-// Create an Express app
-const app = express();
-app.use(express.json());
-
-// Create the MCP server
-const mcpServer = new ReportingMCPServer();
-
-// Health check endpoint
-app.get('/', (req, res) => {
-  res.status(200).send('MCP Server is running');
-});
-
-// JSON-RPC endpoint
-app.post('/rpc', async (req, res) => {
-  try {
-    // Get the JSON-RPC request
-    const request = req.body;
-    
-    // Process the request using the MCP server
-    // We'll use the internal processRequest method
-    const response = await mcpServer.processRequest(request);
-    
-    // Send the response
-    res.json(response);
-  } catch (error) {
-    console.error('Error processing RPC request:', error);
-    res.status(500).json({
-      jsonrpc: '2.0',
-      error: {
-        code: -32603,
-        message: 'Internal error'
-      },
-      id: req.body?.id || null
+// A Streamable HTTP session and what keeps it from being closed as idle
+interface McpSession {
+  transport: StreamableHTTPServerTransport;
+  // Requests and notification streams still open; the idle timer runs only while there are none
+  openRequests: number;
+  idleTimer?: NodeJS.Timeout;
+}
+
+export interface HttpServerHandle {
+  server: HttpServer;
+  // Stop accepting connections; resolves once open connections have finished
+  close: () => Promise<void>;
+}
+
+function jsonRpcError(code: number, message: string): Record<string, any> {
+  return { jsonrpc: '2.0', id: null, error: { code, message } };
+}
+
+function isInitializeRequest(body: unknown): boolean {
+  const messages = Array.isArray(body) ? body : [body];
+  return messages.some(message => message && typeof message === 'object' && (message as any).method === 'initialize');
+}
+
+/**
+ * Fixed-window limit on MCP requests per client. A Streamable HTTP or SSE
+ * session is one client; requests outside a session are counted by address.
+ */
+function rateLimit(settings: RateLimitSettings): express.RequestHandler {
+  const windows: Map<string, { startedAt: number; requests: number }> = new Map();
+  let nextSweep = 0;
+
+  return (req, res, next) => {
+    if (settings.maxRequests === 0) {
+      next();
+      return;
+    }
+
+    const now = Date.now();
+    // Drop finished windows now and then, so clients that went away are not kept
+    if (now >= nextSweep) {
+      windows.forEach((window, client) => {
+        if (now - window.startedAt >= settings.windowMs) {
+          windows.delete(client);
+        }
+      });
+      nextSweep = now + settings.windowMs;
+    }
+
+    const client = req.header(SESSION_HEADER) || (typeof req.query.sessionId === 'string' ? req.query.sessionId : '') || req.ip || '';
+    let window = windows.get(client);
+    if (!window || now - window.startedAt >= settings.windowMs) {
+      window = { startedAt: now, requests: 0 };
+      windows.set(client, window);
+    }
+
+    if (++window.requests > settings.maxRequests) {
+      const retryAfterSeconds = Math.ceil((window.startedAt + settings.windowMs - now) / 1000);
+      res.setHeader('Retry-After', String(retryAfterSeconds));
+      res.status(429).json(jsonRpcError(
+        ErrorCodes.RATE_LIMITED,
+        `Rate limit exceeded: at most ${settings.maxRequests} requests per ${settings.windowMs}ms; retry in ${retryAfterSeconds}s`
+      ));
+      return;
+    }
+
+    next();
+  };
+}
+
+// Create an Express app around an MCP server
+export function createHttpApp(mcpServer: ReportingMCPServer, settings: HttpSettings): express.Express {
+  const app = express();
+  app.use(express.json({ limit: '4mb' }));
+  const limitRequests = rateLimit(settings.rateLimit);
+
+  // Open Streamable HTTP sessions and legacy SSE connections, by session ID
+  const sessions: Map<string, McpSession> = new Map();
+  const sseTransports: Map<string, SSEServerTransport> = new Map();
+
+  // A client that goes away without DELETE leaves its session idle; close it
+  // once nothing has been open on it for sessionIdleTimeoutMs. Legacy SSE
+  // connections need no timer: they close with their event stream.
+  const scheduleIdleClose = (sessionId: string, session: McpSession) => {
+    clearTimeout(session.idleTimer);
+    if (session.openRequests > 0) {
+      return;
+    }
+
+    session.idleTimer = setTimeout(() => {
+      console.error(`Closing MCP session ${sessionId}: idle for ${settings.sessionIdleTimeoutMs}ms`);
+      session.transport.close().catch(error => console.error(`Failed to close idle MCP session ${sessionId}:`, error));
+    }, settings.sessionIdleTimeoutMs);
+    session.idleTimer.unref();
+  };
+
+  // Hold the session open until the request's response (or stream) closes
+  const trackRequest = (sessionId: string, session: McpSession, res: express.Response) => {
+    clearTimeout(session.idleTimer);
+    session.openRequests++;
+    res.on('close', () => {
+      session.openRequests--;
+      scheduleIdleClose(sessionId, session);
     });
+  };
+
+  // Health check endpoints: / and HEALTH_CHECK_ENDPOINT
+  const healthCheck = (req: express.Request, res: express.Response) => {
+    res.status(200).send('MCP Server is running');
+  };
+  app.get('/', healthCheck);
+  if (settings.healthCheckEndpoint !== '/') {
+    app.get(settings.healthCheckEndpoint, healthCheck);
   }
-});
 
-// Start the server
-const port = process.env.PORT || 8080;
-app.listen(port, () => {
-  console.log(`MCP HTTP Server running on port ${port}`);
-});
+  // ========================================================================
+  // MCP STREAMABLE HTTP TRANSPORT
+  // ========================================================================
+
+  app.post('/mcp', limitRequests, async (req, res) => {
+    try {
+      let sessionId = req.header(SESSION_HEADER);
+      let session = sessionId ? sessions.get(sessionId) : undefined;
+
+      if (sessionId && !session) {
+        res.status(404).json(jsonRpcError(ErrorCodes.INVALID_REQUEST, 'Session not found'));
+        return;
+      }
+
+      if (!session) {
+        if (!isInitializeRequest(req.body)) {
+          res.status(400).json(jsonRpcError(ErrorCodes.INVALID_REQUEST, `${SESSION_HEADER} header is required`));
+          return;
+        }
+
+        const newSessionId = randomUUID();
+        const newSession: McpSession = { transport: new StreamableHTTPServerTransport(newSessionId), openRequests: 0 };
+        await mcpServer.connect(newSession.transport, () => {
+          clearTimeout(newSession.idleTimer);
+          sessions.delete(newSessionId);
+        });
+        sessions.set(newSessionId, newSession);
+        sessionId = newSessionId;
+        session = newSession;
+      }
+
+      trackRequest(sessionId!, session, res);
+      await session.transport.handlePost(req, res, req.body);
+    } catch (error) {
+      console.error('Error handling MCP request:', error);
+      if (!res.headersSent) {
+        res.status(500).json(jsonRpcError(ErrorCodes.INTERNAL_ERROR, 'Internal error'));
+      }
+    }
+  });
+
+  app.get('/mcp', (req, res) => {
+    const sessionId = req.header(SESSION_HEADER) || '';
+    const session = sessions.get(sessionId);
+    if (!session) {
+      res.status(404).json(jsonRpcError(ErrorCodes.INVALID_REQUEST, 'Session not found'));
+      return;
+    }
+
+    trackRequest(sessionId, session, res);
+    session.transport.handleGet(req, res);
+  });
+
+  app.delete('/mcp', async (req, res) => {
+    try {
+      const session = sessions.get(req.header(SESSION_HEADER) || '');
+      if (!session) {
+        res.status(404).json(jsonRpcError(ErrorCodes.INVALID_REQUEST, 'Session not found'));
+        return;
+      }
+
+      await session.transport.close();
+      res.status(204).end();
+    } catch (error) {
+      console.error('Error closing MCP session:', error);
+      if (!res.headersSent) {
+        res.status(500).json(jsonRpcError(ErrorCodes.INTERNAL_ERROR, 'Internal error'));
+      }
+    }
+  });
+
+  // ========================================================================
+  // LEGACY MCP SSE TRANSPORT (protocol 2024-11-05 clients)
+  // ========================================================================
+
+  app.get('/sse', async (req, res) => {
+    try {
+      const transport = new SSEServerTransport('/messages', res);
+      await mcpServer.connect(transport, () => sseTransports.delete(transport.sessionId));
+      sseTransports.set(transport.sessionId, transport);
+    } catch (error) {
+      console.error('Error opening SSE connection:', error);
+      if (!res.headersSent) {
+        res.status(500).json(jsonRpcError(ErrorCodes.INTERNAL_ERROR, 'Internal error'));
+      }
+    }
+  });
+
+  app.post('/messages', limitRequests, async (req, res) => {
+    const transport = sseTransports.get(String(req.query.sessionId || ''));
+    if (!transport) {
+      res.status(404).json(jsonRpcError(ErrorCodes.INVALID_REQUEST, 'Session not found'));
+      return;
+    }
+
+    try {
+      // The body is already parsed by express.json(), so skip handlePostMessage's raw body read
+      await transport.handleMessage(req.body);
+      res.status(202).send('Accepted');
+    } catch {
+      res.status(400).json(jsonRpcError(ErrorCodes.INVALID_REQUEST, 'Invalid JSON-RPC message'));
+    }
+  });
+
+  // ========================================================================
+  // LEGACY JSON-RPC ENDPOINT
+  // ========================================================================
+
+  // JSON-RPC endpoint
+  app.post('/rpc', limitRequests, async (req, res) => {
+    try {
+      // Get the JSON-RPC request
+      const request = req.body;
+
+      // A client that disconnects before the response is sent cancels its tool calls
+      const controller = new AbortController();
+      res.on('close', () => {
+        if (!res.writableFinished) {
+          controller.abort();
+        }
+      });
+
+      // Process the request using the MCP server
+      // We'll use the internal processRequest method
+      const response = await mcpServer.processRequest(request, controller.signal);
+
+      // Send the response (nothing for notifications)
+      if (controller.signal.aborted) {
+        return;
+      }
+      if (response === null) {
+        res.status(204).end();
+        return;
+      }
+      res.json(response);
+    } catch (error) {
+      console.error('Error processing RPC request:', error);
+      res.status(500).json({
+        jsonrpc: '2.0',
+        error: {
+          code: -32603,
+          message: 'Internal error'
+        },
+        id: req.body?.id || null
+      });
+    }
+  });
+
+  // Malformed JSON bodies get a JSON-RPC parse error instead of Express's HTML page
+  app.use((error: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
+    if (error?.type === 'entity.parse.failed') {
+      res.status(400).json(jsonRpcError(ErrorCodes.PARSE_ERROR, 'Parse error'));
+      return;
+    }
+    next(error);
+  });
+
+  return app;
+}
+
+// Start listening for HTTP requests
+export function startHttpServer(
+  mcpServer: ReportingMCPServer,
+  settings: HttpSettings
+): Promise<HttpServerHandle> {
+  const { port, host } = settings;
+  const app = createHttpApp(mcpServer, settings);
+
+  return new Promise((resolve, reject) => {
+    // Express 5 also invokes the listen callback with startup errors
+    const onListening = (error?: Error) => {
+      if (error) {
+        reject(error);
+        return;
+      }
+
+      console.error(`MCP HTTP Server running on ${host || '0.0.0.0'}:${port}`);
+      resolve({
+        server,
+        close: () => new Promise<void>((resolveClose, rejectClose) => {
+          server.close(error => (error ? rejectClose(error) : resolveClose()));
+          // Keep-alive sockets with no request in progress would otherwise hold close() open
+          server.closeIdleConnections();
+        })
+      });
+    };
+
+    const server = host ? app.listen(port, host, onListening) : app.listen(port, onListening);
+  });
+}
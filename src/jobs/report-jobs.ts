@@ -0,0 +1,234 @@
+/**
+ * Report Jobs - Background Report Runs with a Bounded Result Store
+ *
+ * Handles:
+ * - Running report generators detached from the request that started them,
+ *   so a long rollforward outlives client timeouts and reconnects
+ * - Tracking status and progress for polling
+ * - Keeping finished results until they expire, capped at a maximum job count
+ *   and a maximum number of records held across all results
+ *
+ * Jobs live in server memory: they are shared by every transport and session
+ * of one process and are lost when it restarts.
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  ErrorCodes,
+  InvalidParamsError,
+  JsonRpcError,
+  ReportGenerationError,
+  ReportingError,
+  RequestCancelledError,
+  toJsonRpcError
+} from '../errors.js';
+import { ToolContext } from '../tools/tool-registry.js';
+import { ReportOutput } from '../types/actions-report.js';
+
+export type ReportJobStatus = 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface ReportJobProgress {
+  progress: number;
+  total: number;
+  message: string;
+}
+
+// What get_report_job reports; the result itself is fetched separately
+export interface ReportJobSummary {
+  jobId: string;
+  tool: string;
+  status: ReportJobStatus;
+  createdAt: string;
+  finishedAt?: string;
+  expiresAt?: string;
+  progress?: ReportJobProgress;
+  recordCount?: number;
+  error?: JsonRpcError;
+}
+
+export interface ReportJobStoreOptions {
+  // Jobs kept at once, running and finished
+  maxJobs: number;
+  // How long a finished job's result is kept
+  ttlMs: number;
+  // Records held across all finished results; the oldest results are evicted first
+  maxRecords: number;
+}
+
+export type ReportJobRunner = (context: ToolContext) => Promise<ReportOutput>;
+
+interface ReportJob {
+  id: string;
+  tool: string;
+  status: ReportJobStatus;
+  createdAt: number;
+  finishedAt?: number;
+  progress?: ReportJobProgress;
+  output?: ReportOutput;
+  error?: JsonRpcError;
+  controller: AbortController;
+}
+
+export class ReportJobStore {
+  private jobs: Map<string, ReportJob> = new Map();
+  private options: ReportJobStoreOptions;
+
+  constructor(options: ReportJobStoreOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Start a report in the background and return its initial status
+   */
+  start(tool: string, run: ReportJobRunner): ReportJobSummary {
+    this.sweep();
+    this.makeRoom();
+
+    const job: ReportJob = {
+      id: randomUUID(),
+      tool,
+      status: 'running',
+      createdAt: Date.now(),
+      controller: new AbortController()
+    };
+    this.jobs.set(job.id, job);
+
+    const context: ToolContext = {
+      signal: job.controller.signal,
+      sendProgress: (progress, total, message) => {
+        job.progress = { progress, total, message };
+      }
+    };
+
+    console.log(`Report job ${job.id} started: ${tool}`);
+
+    run(context).then(
+      output => {
+        job.status = 'succeeded';
+        job.output = output;
+        job.finishedAt = Date.now();
+        console.log(`Report job ${job.id} succeeded: ${output.records.length} records`);
+        this.trimRecords(job);
+      },
+      error => {
+        job.status = error instanceof RequestCancelledError ? 'cancelled' : 'failed';
+        job.error = toJsonRpcError(error, ErrorCodes.REPORT_GENERATION);
+        job.finishedAt = Date.now();
+        console.error(`Report job ${job.id} ${job.status}:`, job.error.message);
+      }
+    );
+
+    return this.summarize(job);
+  }
+
+  get(jobId: string): ReportJobSummary {
+    return this.summarize(this.find(jobId));
+  }
+
+  /**
+   * The finished output of a job, or the failure that ended it
+   */
+  result(jobId: string): ReportOutput {
+    const job = this.find(jobId);
+
+    if (job.status === 'running') {
+      throw new InvalidParamsError(`Report job ${jobId} is still running`, {
+        status: job.status,
+        ...(job.progress ? { progress: job.progress } : {})
+      });
+    }
+
+    if (!job.output) {
+      const error = job.error!;
+      throw new ReportingError(error.code, error.message, { jobId, ...error.data });
+    }
+
+    return job.output;
+  }
+
+  /**
+   * Cancel every running job (used during shutdown); returns how many were running
+   */
+  cancelAll(): number {
+    const running = Array.from(this.jobs.values()).filter(job => job.status === 'running');
+    running.forEach(job => job.controller.abort());
+    return running.length;
+  }
+
+  // ========================================================================
+  // STORE MAINTENANCE
+  // ========================================================================
+
+  private find(jobId: string): ReportJob {
+    this.sweep();
+
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      throw new InvalidParamsError(`Unknown or expired report job: ${jobId}`, { jobId });
+    }
+    return job;
+  }
+
+  /**
+   * Drop finished jobs whose results have expired
+   */
+  private sweep(): void {
+    const now = Date.now();
+    this.jobs.forEach((job, id) => {
+      if (job.finishedAt !== undefined && job.finishedAt + this.options.ttlMs <= now) {
+        this.jobs.delete(id);
+      }
+    });
+  }
+
+  /**
+   * Evict the oldest finished jobs until a new one fits; running jobs are never evicted
+   */
+  private makeRoom(): void {
+    const finished = Array.from(this.jobs.values())
+      .filter(job => job.finishedAt !== undefined)
+      .sort((a, b) => a.finishedAt! - b.finishedAt!);
+
+    while (this.jobs.size >= this.options.maxJobs && finished.length > 0) {
+      this.jobs.delete(finished.shift()!.id);
+    }
+
+    if (this.jobs.size >= this.options.maxJobs) {
+      throw new ReportGenerationError(`Too many report jobs running (limit ${this.options.maxJobs}); try again when one finishes`);
+    }
+  }
+
+  /**
+   * Evict the oldest other results until the records held fit the cap; a
+   * result larger than the cap on its own is still kept
+   */
+  private trimRecords(kept: ReportJob): void {
+    const held = Array.from(this.jobs.values())
+      .filter(job => job.output !== undefined && job !== kept)
+      .sort((a, b) => a.finishedAt! - b.finishedAt!);
+    let records = held.reduce((sum, job) => sum + job.output!.records.length, kept.output!.records.length);
+
+    while (records > this.options.maxRecords && held.length > 0) {
+      const evicted = held.shift()!;
+      records -= evicted.output!.records.length;
+      this.jobs.delete(evicted.id);
+      console.log(`Report job ${evicted.id} evicted to stay within ${this.options.maxRecords} held records`);
+    }
+  }
+
+  private summarize(job: ReportJob): ReportJobSummary {
+    return {
+      jobId: job.id,
+      tool: job.tool,
+      status: job.status,
+      createdAt: new Date(job.createdAt).toISOString(),
+      ...(job.finishedAt !== undefined ? {
+        finishedAt: new Date(job.finishedAt).toISOString(),
+        expiresAt: new Date(job.finishedAt + this.options.ttlMs).toISOString()
+      } : {}),
+      ...(job.progress ? { progress: job.progress } : {}),
+      ...(job.output ? { recordCount: job.output.records.length } : {}),
+      ...(job.error ? { error: job.error } : {})
+    };
+  }
+}
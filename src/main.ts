@@ -0,0 +1,134 @@
+#!/usr/bin/env node
+
+/**
+ * Launcher - Starts the Reporting MCP Server on stdio, HTTP, or both
+ *
+ * Transport selection (first match wins):
+ * - --transport=stdio|http|both (or --transport <value>)
+ * - MCP_SERVER_TRANSPORT
+ * - stdio
+ *
+ * HTTP listens on --port, PORT (Cloud Run) or MCP_SERVER_PORT (default 8080).
+ * SIGINT/SIGTERM drain in-flight requests for SHUTDOWN_GRACE_PERIOD_MS
+ * (default 10000), then cancel running BigQuery jobs and exit.
+ *
+ * Every other setting comes from the environment through loadConfig(); an
+ * invalid value stops startup with the full list of problems.
+ */
+
+import 'dotenv/config';
+import { ReportingMCPServer } from './server.js';
+import { HttpServerHandle, startHttpServer } from './http-server.js';
+import { ConfigurationError, LOG_LEVELS, LogLevel, ServerConfig, TRANSPORT_MODES, TransportMode, loadConfig } from './config.js';
+
+function readOption(argv: string[], name: string): string | undefined {
+  const prefix = `--${name}=`;
+  const inline = argv.find(arg => arg.startsWith(prefix));
+  if (inline) {
+    return inline.slice(prefix.length);
+  }
+
+  const index = argv.indexOf(`--${name}`);
+  return index >= 0 ? argv[index + 1] : undefined;
+}
+
+function resolveTransport(argv: string[], config: ServerConfig): TransportMode {
+  const option = readOption(argv, 'transport');
+  if (!option) {
+    return config.http.transport;
+  }
+
+  const value = option.toLowerCase();
+  if (!TRANSPORT_MODES.includes(value as TransportMode)) {
+    throw new Error(`Unsupported transport "${value}". Use one of: ${TRANSPORT_MODES.join(', ')}`);
+  }
+
+  return value as TransportMode;
+}
+
+function resolvePort(argv: string[], config: ServerConfig): number {
+  const value = readOption(argv, 'port');
+  if (!value) {
+    return config.http.port;
+  }
+
+  const port = Number(value);
+
+  if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+    throw new Error(`Invalid port "${value}"`);
+  }
+
+  return port;
+}
+
+/**
+ * Silence console methods below LOG_LEVEL; console.error is always kept
+ */
+function applyLogLevel(level: LogLevel): void {
+  const enabled = LOG_LEVELS.indexOf(level);
+  const quiet = () => {};
+
+  if (enabled < LOG_LEVELS.indexOf('warn')) {
+    console.warn = quiet;
+  }
+  if (enabled < LOG_LEVELS.indexOf('info')) {
+    console.log = quiet;
+    console.info = quiet;
+  }
+  if (enabled < LOG_LEVELS.indexOf('debug')) {
+    console.debug = quiet;
+  }
+}
+
+async function main(): Promise<void> {
+  const argv = process.argv.slice(2);
+  const config = loadConfig();
+  const transport = resolveTransport(argv, config);
+  const gracePeriodMs = config.http.shutdownGracePeriodMs;
+
+  // stdout carries the stdio protocol, so service logging must go to stderr
+  if (transport !== 'http') {
+    console.log = console.error;
+  }
+  applyLogLevel(config.logging.level);
+
+  const mcpServer = new ReportingMCPServer(config);
+  let httpServer: HttpServerHandle | null = null;
+
+  if (transport === 'http' || transport === 'both') {
+    httpServer = await startHttpServer(mcpServer, { ...config.http, port: resolvePort(argv, config) });
+  }
+
+  if (transport === 'stdio' || transport === 'both') {
+    await mcpServer.run();
+  }
+
+  let stopping = false;
+  const shutdown = async (signal: string) => {
+    if (stopping) {
+      return;
+    }
+    stopping = true;
+    console.error(`${signal} received, shutting down...`);
+
+    try {
+      // Stop accepting HTTP connections first; open ones finish while the MCP server drains
+      const httpClosed = httpServer ? httpServer.close() : Promise.resolve();
+      await mcpServer.shutdown(gracePeriodMs);
+      await httpClosed;
+      process.exit(0);
+    } catch (error) {
+      console.error('Error during shutdown:', error);
+      process.exit(1);
+    }
+  };
+
+  process.on('SIGINT', () => { void shutdown('SIGINT'); });
+  process.on('SIGTERM', () => { void shutdown('SIGTERM'); });
+}
+
+main().catch((error) => {
+  // Configuration problems are already a readable list; a stack trace adds nothing
+  console.error('Failed to start server:', error instanceof ConfigurationError ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,224 @@
+/**
+ * Workflow Prompts - Standard Accounting Reviews as MCP Prompts
+ *
+ * Parameterized templates that tell the client which report tools to call
+ * (with runId and period arguments filled in) and how to present the result,
+ * so month-end, impairment and lot aging reviews come out the same way for
+ * every analyst.
+ */
+
+import { InvalidParamsError } from '../errors.js';
+
+export interface PromptArgument {
+  name: string;
+  description: string;
+  required: boolean;
+}
+
+export interface PromptDescriptor {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+}
+
+export interface PromptResult {
+  [key: string]: unknown;
+  description: string;
+  messages: Array<{ role: 'user'; content: { type: 'text'; text: string } }>;
+}
+
+interface WorkflowPrompt extends PromptDescriptor {
+  build: (args: Record<string, string>) => string;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Report tools page their records; reviews that read every record must walk the pages
+const PAGING_NOTE = 'Report tools return their records in pages: call again with the same arguments plus `cursor` set to `nextCursor` until no `nextCursor` is returned. Summaries already cover the full result.';
+
+const RUN_ID: PromptArgument = { name: 'runId', description: 'Calculation run identifier', required: true };
+const ORG_ID: PromptArgument = { name: 'orgId', description: 'Organization identifier', required: false };
+
+// ============================================================================
+// TEMPLATE HELPERS
+// ============================================================================
+
+function toolCall(tool: string, args: Record<string, any>): string {
+  return `\`${tool}\` with:\n\`\`\`json\n${JSON.stringify(args, null, 2)}\n\`\`\``;
+}
+
+function scope(args: Record<string, string>, extra: Record<string, any>): Record<string, any> {
+  return { runId: args.runId, ...(args.orgId ? { orgId: args.orgId } : {}), ...extra };
+}
+
+function dayBefore(date: string): string {
+  const previous = new Date(`${date}T00:00:00Z`);
+  previous.setUTCDate(previous.getUTCDate() - 1);
+  return previous.toISOString().slice(0, 10);
+}
+
+function assetList(value: string | undefined): string[] | undefined {
+  const assets = (value || '').split(',').map(asset => asset.trim().toUpperCase()).filter(Boolean);
+  return assets.length > 0 ? assets : undefined;
+}
+
+// ============================================================================
+// PROMPT DEFINITIONS
+// ============================================================================
+
+const WORKFLOW_PROMPTS: WorkflowPrompt[] = [
+  {
+    name: 'month_end_close_review',
+    description: 'Month-end close review: rollforward, closing inventory balance and period variance for one run',
+    arguments: [
+      RUN_ID,
+      { name: 'periodStart', description: 'First day of the period (YYYY-MM-DD)', required: true },
+      { name: 'periodEnd', description: 'Last day of the period (YYYY-MM-DD)', required: true },
+      ORG_ID
+    ],
+    build: args => [
+      `Perform the month-end close review for run ${args.runId} covering ${args.periodStart} to ${args.periodEnd}.`,
+      '',
+      '**Step 1.** Call ' + toolCall('generate_valuation_rollforward', {
+        parameters: scope(args, { startDate: args.periodStart, endDate: args.periodEnd }),
+        groupBy: ['asset']
+      }),
+      '',
+      '**Step 2.** Call ' + toolCall('generate_inventory_balance', {
+        parameters: scope(args, { asOfDate: args.periodEnd }),
+        groupBy: ['asset']
+      }),
+      '',
+      '**Step 3.** Call ' + toolCall('inventory_variance', {
+        parameters: scope(args, {}),
+        priorAsOfDate: dayBefore(args.periodStart!),
+        currentAsOfDate: args.periodEnd,
+        groupBy: ['asset']
+      }),
+      '',
+      PAGING_NOTE,
+      '',
+      '**Present:**',
+      '1. Rollforward totals: starting cost basis, acquisitions, disposals, impairment and ending carrying value.',
+      '2. Tie-out: the rollforward ending carrying value per asset must equal the closing inventory balance carrying value. List every asset that does not tie, with the difference.',
+      '3. New, closed and materially changed positions from the variance.',
+      '4. The significant movements flagged by the rollforward, each with a one-line explanation.',
+      '5. Open items that block sign-off.'
+    ].join('\n')
+  },
+  {
+    name: 'impairment_review',
+    description: 'Impairment review: period impairment expense and the impaired lots still held at period end',
+    arguments: [
+      RUN_ID,
+      { name: 'startDate', description: 'Review period start (YYYY-MM-DD)', required: true },
+      { name: 'endDate', description: 'Review period end (YYYY-MM-DD)', required: true },
+      ORG_ID,
+      { name: 'impairmentThreshold', description: 'USD impairment expense to treat as significant (default 1000)', required: false }
+    ],
+    build: args => [
+      `Perform the impairment review for run ${args.runId} covering ${args.startDate} to ${args.endDate}.`,
+      '',
+      '**Step 1.** Call ' + toolCall('generate_valuation_rollforward', {
+        parameters: scope(args, { startDate: args.startDate, endDate: args.endDate }),
+        groupBy: ['asset'],
+        ...(args.impairmentThreshold ? { thresholds: { impairmentThreshold: Number(args.impairmentThreshold) } } : {})
+      }),
+      '',
+      '**Step 2.** Call ' + toolCall('generate_lots_report', {
+        parameters: scope(args, { asOfDate: args.endDate }),
+        filters: { onlyImpaired: true }
+      }),
+      '',
+      PAGING_NOTE,
+      '',
+      '**Present:**',
+      '1. Impairment expense and reversals for the period by asset, and the share of total impairment each asset represents.',
+      '2. Impairment movements flagged as significant, with the asset and amount.',
+      '3. Impaired lots still held at period end: lot, asset, quantity, cost basis, cumulative impairment and carrying value.',
+      '4. Assets whose impairment expense looks inconsistent with the change in carrying value.'
+    ].join('\n')
+  },
+  {
+    name: 'lot_aging_review',
+    description: 'Lot aging review: open lots bucketed by holding period as of a date',
+    arguments: [
+      RUN_ID,
+      { name: 'asOfDate', description: 'Review date (YYYY-MM-DD)', required: true },
+      ORG_ID,
+      { name: 'assets', description: 'Comma-separated asset symbols to limit the review to', required: false }
+    ],
+    build: args => {
+      const assets = assetList(args.assets);
+
+      return [
+        `Perform the lot aging review for run ${args.runId} as of ${args.asOfDate}.`,
+        '',
+        '**Step 1.** Call ' + toolCall('generate_lots_report', {
+          parameters: scope(args, { asOfDate: args.asOfDate }),
+          ...(assets ? { filters: { assets } } : {})
+        }),
+        '',
+        PAGING_NOTE,
+        '',
+        `**Present:** measure each lot's age from its acquisition date to ${args.asOfDate}.`,
+        '1. Lots by age bucket (0-30, 31-90, 91-365 and over 365 days): lot count, quantity, cost basis and carrying value.',
+        '2. Per asset, the share of carrying value held longer than 365 days (long-term holding period).',
+        '3. The ten oldest lots with unrealized gain or loss (carrying value minus cost basis).',
+        '4. Lots that are impaired and over 365 days old.'
+      ].join('\n');
+    }
+  }
+];
+
+export class WorkflowPromptProvider {
+  /**
+   * prompts/list payload
+   */
+  list(): PromptDescriptor[] {
+    return WORKFLOW_PROMPTS.map(({ name, description, arguments: promptArguments }) => ({
+      name,
+      description,
+      arguments: promptArguments
+    }));
+  }
+
+  /**
+   * prompts/get payload with the arguments filled in
+   */
+  get(name: string, args: Record<string, string> = {}): PromptResult {
+    const prompt = WORKFLOW_PROMPTS.find(candidate => candidate.name === name);
+    if (!prompt) {
+      throw new InvalidParamsError(`Unknown prompt: ${name}`, {
+        available: WORKFLOW_PROMPTS.map(candidate => candidate.name)
+      });
+    }
+
+    const missing = prompt.arguments.filter(argument => argument.required && !args[argument.name]);
+    if (missing.length > 0) {
+      throw new InvalidParamsError(`Missing arguments for ${name}: ${missing.map(argument => argument.name).join(', ')}`);
+    }
+
+    const invalidDates = prompt.arguments
+      .filter(argument => /date|period/i.test(argument.name) && args[argument.name])
+      .filter(argument => !DATE_PATTERN.test(args[argument.name]!))
+      .map(argument => argument.name);
+    if (invalidDates.length > 0) {
+      throw new InvalidParamsError(`Dates must be YYYY-MM-DD: ${invalidDates.join(', ')}`);
+    }
+
+    if (args.impairmentThreshold && isNaN(Number(args.impairmentThreshold))) {
+      throw new InvalidParamsError('impairmentThreshold must be a number');
+    }
+
+    return {
+      description: prompt.description,
+      messages: [
+        {
+          role: 'user',
+          content: { type: 'text', text: prompt.build(args) }
+        }
+      ]
+    };
+  }
+}
@@ -10,14 +10,30 @@
  */
 
 import { BigQueryClient } from '../services/bigquery-client.js';
+import { PrecisionSettings } from '../config.js';
+import { ParameterizedQuery, QueryParameters } from '../services/query-parameters.js';
+import { ACTIONS_REPORT_TABLE, SelectQuery, SqlExpression, coalesce, numeric, or, selectItem, sum } from '../services/sql-builder.js';
+import { ReportGenerationError, ReportingError, throwIfCancelled } from '../errors.js';
 import { 
   InventoryBalanceRecord, 
   ReportParameters, 
-  FieldMetadata 
+  FieldMetadata,
+  QueryCostEstimate,
+  ReportExecutionOptions,
+  ReportRows,
+  PRESENTATION_TOP_ITEMS
 } from '../types/actions-report.js';
 
+// Aggregates over the actions CTE, shared by the select list and HAVING
+const COST_BASIS = `${sum('costBasisAcquired')} - ${sum('costBasisRelieved')}`;
+const CARRYING_VALUE = `${COST_BASIS} - ${sum('impairmentExpense')} + ${sum('impairmentExpenseReversal')} + ${sum('impairmentExpenseDisposed')}`;
+
 export class InventoryBalanceGenerator {
   private bigQueryClient: BigQueryClient;
+  private precision: PrecisionSettings;
+  // toLocaleString options for USD amounts and asset quantities
+  private currencyFormat: Intl.NumberFormatOptions;
+  private quantityFormat: Intl.NumberFormatOptions;
 
   // Field metadata for natural language query mapping
   private static readonly FIELD_METADATA: FieldMetadata[] = [
@@ -113,8 +129,11 @@ export class InventoryBalanceGenerator {
     }
   ];
 
-  constructor(bigQueryClient: BigQueryClient) {
+  constructor(bigQueryClient: BigQueryClient, precision: PrecisionSettings) {
     this.bigQueryClient = bigQueryClient;
+    this.precision = precision;
+    this.currencyFormat = { minimumFractionDigits: precision.currency, maximumFractionDigits: precision.currency };
+    this.quantityFormat = { minimumFractionDigits: precision.crypto, maximumFractionDigits: precision.crypto };
   }
 
   // ========================================================================
@@ -130,31 +149,71 @@ export class InventoryBalanceGenerator {
       subsidiaries?: string[];
       minValue?: number;
       excludeZeroBalances?: boolean;
-    }
-  ): Promise<InventoryBalanceRecord[]> {
+    },
+    options: ReportExecutionOptions = {}
+  ): Promise<ReportRows<InventoryBalanceRecord>> {
     
     console.log('🔄 Generating Inventory Balance Report...', { parameters, groupBy, filters });
     
     try {
-      // Build the SQL query
-      const sql = this.buildInventoryBalanceSQL(parameters, groupBy, filters);
-      
-      // Execute the query
-      const rawResults = await this.bigQueryClient.executeReportQuery(sql, parameters);
+      let result: ReportRows<InventoryBalanceRecord>;
+      const transform = (row: any) => this.transformRow(row);
+
+      if (this.bigQueryClient.isLocalSource()) {
+        // Aggregate the local Actions Report in memory
+        const rawResults = this.aggregateLocalRecords(parameters, groupBy, filters);
+        options.onProgress?.('rows_received', `${rawResults.length} rows aggregated from the local data source`);
+        result = this.bigQueryClient.limitRows(rawResults, transform, options);
+      } else {
+        // Build the SQL query
+        const query = this.buildInventoryBalanceSQL(parameters, groupBy, filters);
+        options.onProgress?.('sql_built', 'Report SQL built');
+        
+        // Execute the query, transforming and validating each page as it arrives
+        result = await this.bigQueryClient.executeReportQuery(query, parameters, options, transform);
+      }
       
-      // Transform and validate results
-      const inventoryRecords = this.transformResults(rawResults);
+      // A cancelled request stops before any further work
+      throwIfCancelled(options.signal);
+
+      options.onProgress?.('transform_done', `${result.rows.length} records transformed and validated`);
       
-      console.log(`✅ Inventory Balance Report generated: ${inventoryRecords.length} records`);
+      console.log(`✅ Inventory Balance Report generated: ${result.rows.length} records${result.truncated ? ' (truncated)' : ''}`);
       
-      return inventoryRecords;
+      return result;
       
     } catch (error) {
       console.error('❌ Inventory Balance Report generation failed:', error);
-      throw new Error(`Inventory Balance Report generation failed: ${error instanceof Error ? error.message : String(error)}`);
+      // Data source and BigQuery failures keep their own error codes
+      if (error instanceof ReportingError) {
+        throw error;
+      }
+      throw new ReportGenerationError(`Inventory Balance Report generation failed: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+  /**
+   * Dry-run the report's query to see what it would scan before running it
+   */
+  async estimate(
+    parameters: ReportParameters,
+    groupBy?: ('asset' | 'inventory' | 'subsidiary')[],
+    filters?: {
+      assets?: string[];
+      inventories?: string[];
+      subsidiaries?: string[];
+      minValue?: number;
+      excludeZeroBalances?: boolean;
+    },
+    options: ReportExecutionOptions = {}
+  ): Promise<QueryCostEstimate> {
+    return this.bigQueryClient.estimateReportQuery(
+      this.buildInventoryBalanceSQL(parameters, groupBy, filters),
+      parameters,
+      options
+    );
+  }
+
   // ========================================================================
   // SQL QUERY BUILDING
   // ========================================================================
@@ -163,95 +222,83 @@ export class InventoryBalanceGenerator {
     parameters: ReportParameters, 
     groupBy?: ('asset' | 'inventory' | 'subsidiary')[],
     filters?: any
-  ): string {
+  ): ParameterizedQuery {
     
-    const groupByColumns = this.buildGroupByClause(groupBy);
-    const whereConditions = this.buildWhereConditions(parameters, filters);
-    const havingConditions = this.buildHavingConditions(filters);
-
-    return `
-      WITH deduplicated_actions AS (
-        SELECT AS VALUE ANY_VALUE(t)
-        FROM \`{ACTIONS_REPORT_TABLE}\` AS t
-        ${whereConditions}
-        GROUP BY t.eventId, t.lotId, t.inventory
-      ),
-      actions AS (
-        SELECT
-          asset, 
-          assetId, 
-          inventory,
-          COALESCE(subsidiaryId, 'DEFAULT') as subsidiaryId,
-          IFNULL(CAST(assetUnitAdj AS BIGNUMERIC), 0) as qty,
-          IFNULL(CAST(costBasisAcquired AS BIGNUMERIC), 0) as costBasisAcquired,
-          IFNULL(CAST(originalCostBasisDisposed AS BIGNUMERIC), 0) AS costBasisRelieved,
-          IFNULL(CAST(impairmentExpense AS BIGNUMERIC), 0) AS impairmentExpense,
-          IFNULL(CAST(impairmentReversal AS BIGNUMERIC), 0) AS impairmentExpenseReversal,
-          IFNULL(CAST(fairValueAdjustmentUpward AS BIGNUMERIC), 0) AS fairValueAdjustmentUpward,
-          IFNULL(CAST(fairValueAdjustmentDownward AS BIGNUMERIC), 0) AS fairValueAdjustmentDownward,
-          IFNULL(CAST(revaluationAdjustmentUpward AS BIGNUMERIC), 0) AS revaluationAdjustmentUpward,
-          IFNULL(CAST(revaluationAdjustmentDownward AS BIGNUMERIC), 0) AS revaluationAdjustmentDownward,
-          IFNULL(CAST(impairmentExpenseDisposed AS BIGNUMERIC), 0) AS impairmentExpenseDisposed
-        FROM deduplicated_actions
+    const params = new QueryParameters();
+    const groupByColumns = this.buildGroupByColumns(groupBy);
+
+    // One row per event, lot and inventory, however often the run repeats it
+    const deduplicatedActions = new SelectQuery()
+      .selectAsValue('ANY_VALUE(t)')
+      .from(ACTIONS_REPORT_TABLE, 't')
+      .where(...this.buildWhereConditions(parameters, params, filters))
+      .groupBy('t.eventId', 't.lotId', 't.inventory');
+
+    const actions = new SelectQuery()
+      .select(
+        'asset',
+        'assetId',
+        'inventory',
+        selectItem(coalesce('subsidiaryId', `'DEFAULT'`), 'subsidiaryId'),
+        selectItem(numeric('assetUnitAdj'), 'qty'),
+        selectItem(numeric('costBasisAcquired'), 'costBasisAcquired'),
+        selectItem(numeric('originalCostBasisDisposed'), 'costBasisRelieved'),
+        selectItem(numeric('impairmentExpense'), 'impairmentExpense'),
+        selectItem(numeric('impairmentReversal'), 'impairmentExpenseReversal'),
+        ...[
+          'fairValueAdjustmentUpward',
+          'fairValueAdjustmentDownward',
+          'revaluationAdjustmentUpward',
+          'revaluationAdjustmentDownward',
+          'impairmentExpenseDisposed'
+        ].map(column => selectItem(numeric(column), column))
+      )
+      .from('deduplicated_actions');
+
+    const sql = new SelectQuery()
+      .with('deduplicated_actions', deduplicatedActions)
+      .with('actions', actions)
+      .select(
+        ...groupByColumns,
+        selectItem(sum('qty'), 'qty'),
+        selectItem(sum('costBasisAcquired'), 'costBasisAcquired'),
+        selectItem(sum('costBasisRelieved'), 'costBasisRelieved'),
+        selectItem(`${sum('impairmentExpense')} - ${sum('impairmentExpenseDisposed')}`, 'impairmentExpense'),
+        ...[
+          'impairmentExpenseReversal',
+          'fairValueAdjustmentUpward',
+          'fairValueAdjustmentDownward',
+          'revaluationAdjustmentUpward',
+          'revaluationAdjustmentDownward',
+          'impairmentExpenseDisposed'
+        ].map(column => selectItem(sum(column), column)),
+        selectItem(`(${COST_BASIS})`, 'costBasis'),
+        selectItem(`(${CARRYING_VALUE})`, 'carryingValue')
       )
-      SELECT
-        ${groupByColumns.select}
-        SUM(qty) as qty,
-        SUM(costBasisAcquired) as costBasisAcquired,
-        SUM(costBasisRelieved) AS costBasisRelieved,
-        SUM(impairmentExpense) - SUM(impairmentExpenseDisposed) AS impairmentExpense,
-        SUM(impairmentExpenseReversal) AS impairmentExpenseReversal,
-        SUM(fairValueAdjustmentUpward) AS fairValueAdjustmentUpward,
-        SUM(fairValueAdjustmentDownward) AS fairValueAdjustmentDownward,
-        SUM(revaluationAdjustmentUpward) AS revaluationAdjustmentUpward,
-        SUM(revaluationAdjustmentDownward) AS revaluationAdjustmentDownward,
-        SUM(impairmentExpenseDisposed) AS impairmentExpenseDisposed,
-        (SUM(costBasisAcquired) - SUM(costBasisRelieved)) AS costBasis,
-        (SUM(costBasisAcquired) - SUM(costBasisRelieved) - SUM(impairmentExpense) + SUM(impairmentExpenseReversal) + SUM(impairmentExpenseDisposed)) AS carryingValue
-      FROM actions
-      ${groupByColumns.groupBy}
-      ${havingConditions}
-      ${groupByColumns.orderBy}
-    `.trim();
+      .from('actions')
+      .groupBy(...groupByColumns)
+      .having(...this.buildHavingConditions(params, filters))
+      .orderBy('asset', 'ASC')
+      .orderBy('inventory', 'ASC')
+      .toSQL();
+
+    return { sql, params };
   }
 
-  private buildGroupByClause(groupBy?: ('asset' | 'inventory' | 'subsidiary')[]): {
-    select: string;
-    groupBy: string;
-    orderBy: string;
-  } {
+  private buildGroupByColumns(groupBy?: ('asset' | 'inventory' | 'subsidiary')[]): string[] {
     // Default grouping includes asset, assetId, and inventory
-    const defaultColumns = ['asset', 'assetId', 'inventory'];
-    let columns = [...defaultColumns];
-
-    // Add additional grouping dimensions if specified
-    if (groupBy && groupBy.length > 0) {
-      groupBy.forEach(dimension => {
-        switch (dimension) {
-          case 'subsidiary':
-            if (!columns.includes('subsidiaryId')) {
-              columns.push('subsidiaryId');
-            }
-            break;
-          case 'asset':
-            // Already included in default
-            break;
-          case 'inventory':
-            // Already included in default
-            break;
-        }
-      });
+    const columns = ['asset', 'assetId', 'inventory'];
+
+    // Add additional grouping dimensions if specified; asset and inventory are already included
+    if (groupBy?.includes('subsidiary')) {
+      columns.push('subsidiaryId');
     }
 
-    return {
-      select: columns.join(', ') + ',',
-      groupBy: columns.length > 0 ? `GROUP BY ${columns.join(', ')}` : '',
-      orderBy: 'ORDER BY asset ASC, inventory ASC'
-    };
+    return columns;
   }
 
-  private buildWhereConditions(parameters: ReportParameters, filters?: any): string {
-    const conditions: string[] = [];
+  private buildWhereConditions(parameters: ReportParameters, params: QueryParameters, filters?: any): SqlExpression[] {
+    const conditions: SqlExpression[] = [];
 
     // Required parameters
     conditions.push('t.runId = @runId');
@@ -261,79 +308,158 @@ export class InventoryBalanceGenerator {
     }
 
     // As-of date filter
-    if (parameters.asOfSEC) {
-      conditions.push('t.timestampSEC <= @asOfSEC');
-    } else if (parameters.asOfDate) {
+    if (parameters.asOfSEC || parameters.asOfDate) {
       conditions.push('t.timestampSEC <= @asOfSEC');
     }
 
     // Asset filters
     if (filters?.assets && filters.assets.length > 0) {
-      const assetList = filters.assets.map((asset: string) => `'${asset}'`).join(', ');
-      conditions.push(`t.asset IN (${assetList})`);
+      conditions.push(`t.asset IN UNNEST(${params.stringArray('assets', filters.assets)})`);
     }
 
     // Inventory filters
     if (filters?.inventories && filters.inventories.length > 0) {
-      const inventoryList = filters.inventories.map((inv: string) => `'${inv}'`).join(', ');
-      conditions.push(`t.inventory IN (${inventoryList})`);
+      conditions.push(`t.inventory IN UNNEST(${params.stringArray('inventories', filters.inventories)})`);
     }
 
     // Subsidiary filters
     if (filters?.subsidiaries && filters.subsidiaries.length > 0) {
-      const subsidList = filters.subsidiaries.map((sub: string) => `'${sub}'`).join(', ');
-      conditions.push(`t.subsidiaryId IN (${subsidList})`);
+      conditions.push(`t.subsidiaryId IN UNNEST(${params.stringArray('subsidiaries', filters.subsidiaries)})`);
     }
 
-    return conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    return conditions;
   }
 
-  private buildHavingConditions(filters?: any): string {
-    const conditions: string[] = [];
+  private buildHavingConditions(params: QueryParameters, filters?: any): SqlExpression[] {
+    const conditions: SqlExpression[] = [];
 
     // Exclude zero balances by default unless specified
     if (filters?.excludeZeroBalances !== false) {
-      conditions.push('SUM(qty) != 0 OR (SUM(costBasisAcquired) - SUM(costBasisRelieved)) != 0');
+      conditions.push(or(`${sum('qty')} != 0`, `(${COST_BASIS}) != 0`));
     }
 
     // Minimum value filter
     if (filters?.minValue && filters.minValue > 0) {
-      conditions.push(`ABS((SUM(costBasisAcquired) - SUM(costBasisRelieved) - SUM(impairmentExpense) + SUM(impairmentExpenseReversal) + SUM(impairmentExpenseDisposed))) >= ${filters.minValue}`);
+      conditions.push(`ABS(${CARRYING_VALUE}) >= ${params.number('minValue', filters.minValue)}`);
     }
 
-    return conditions.length > 0 ? `HAVING ${conditions.join(' AND ')}` : '';
+    return conditions;
   }
 
   // ========================================================================
-  // RESULT TRANSFORMATION AND VALIDATION
+  // LOCAL DATA SOURCE AGGREGATION
   // ========================================================================
 
-  private transformResults(rawResults: any[]): InventoryBalanceRecord[] {
-    return rawResults.map(row => {
-      const record: InventoryBalanceRecord = {
-        asset: row.asset || '',
-        assetId: row.assetId || '',
-        inventory: row.inventory || '',
-        subsidiaryId: row.subsidiaryId === 'DEFAULT' ? undefined : row.subsidiaryId,
-        qty: this.parseNumeric(row.qty),
-        costBasisAcquired: this.parseNumeric(row.costBasisAcquired),
-        costBasisRelieved: this.parseNumeric(row.costBasisRelieved),
-        costBasis: this.parseNumeric(row.costBasis),
-        impairmentExpense: this.parseNumeric(row.impairmentExpense),
-        impairmentExpenseReversal: this.parseNumeric(row.impairmentExpenseReversal),
-        fairValueAdjustmentUpward: this.parseNumeric(row.fairValueAdjustmentUpward),
-        fairValueAdjustmentDownward: this.parseNumeric(row.fairValueAdjustmentDownward),
-        revaluationAdjustmentUpward: this.parseNumeric(row.revaluationAdjustmentUpward),
-        revaluationAdjustmentDownward: this.parseNumeric(row.revaluationAdjustmentDownward),
-        impairmentExpenseDisposed: this.parseNumeric(row.impairmentExpenseDisposed),
-        carryingValue: this.parseNumeric(row.carryingValue)
-      };
-
-      // Validate the record
-      this.validateInventoryRecord(record);
-
-      return record;
+  /**
+   * In-memory equivalent of buildInventoryBalanceSQL for local file data sources
+   */
+  private aggregateLocalRecords(
+    parameters: ReportParameters,
+    groupBy?: ('asset' | 'inventory' | 'subsidiary')[],
+    filters?: any
+  ): any[] {
+    const includeSubsidiary = groupBy?.includes('subsidiary') ?? false;
+
+    // deduplicated_actions: one row per (eventId, lotId, inventory)
+    const seen = new Set<string>();
+    const actions = this.bigQueryClient.getLocalRecords(parameters, { applyAsOf: true }).filter(record => {
+      if (filters?.assets?.length && !filters.assets.includes(record.asset)) return false;
+      if (filters?.inventories?.length && !filters.inventories.includes(record.inventory)) return false;
+      if (filters?.subsidiaries?.length && !filters.subsidiaries.includes(record.subsidiaryId)) return false;
+
+      const dedupeKey = [record.eventId, record.lotId, record.inventory].join('|');
+      if (seen.has(dedupeKey)) return false;
+      seen.add(dedupeKey);
+      return true;
+    });
+
+    const rows = new Map<string, any>();
+    actions.forEach(record => {
+      const subsidiaryId = record.subsidiaryId || 'DEFAULT';
+      const key = [record.asset, record.assetId, record.inventory, includeSubsidiary ? subsidiaryId : ''].join('|');
+
+      if (!rows.has(key)) {
+        rows.set(key, {
+          asset: record.asset,
+          assetId: record.assetId,
+          inventory: record.inventory,
+          ...(includeSubsidiary ? { subsidiaryId } : {}),
+          qty: 0,
+          costBasisAcquired: 0,
+          costBasisRelieved: 0,
+          rawImpairmentExpense: 0,
+          impairmentExpenseReversal: 0,
+          fairValueAdjustmentUpward: 0,
+          fairValueAdjustmentDownward: 0,
+          revaluationAdjustmentUpward: 0,
+          revaluationAdjustmentDownward: 0,
+          impairmentExpenseDisposed: 0
+        });
+      }
+
+      const row = rows.get(key);
+      row.qty += this.parseNumeric(record.assetUnitAdj);
+      row.costBasisAcquired += this.parseNumeric(record.costBasisAcquired);
+      row.costBasisRelieved += this.parseNumeric(record.originalCostBasisDisposed);
+      row.rawImpairmentExpense += this.parseNumeric(record.impairmentExpense);
+      row.impairmentExpenseReversal += this.parseNumeric(record.impairmentReversal);
+      row.fairValueAdjustmentUpward += this.parseNumeric(record.fairValueAdjustmentUpward);
+      row.fairValueAdjustmentDownward += this.parseNumeric(record.fairValueAdjustmentDownward);
+      row.revaluationAdjustmentUpward += this.parseNumeric(record.revaluationAdjustmentUpward);
+      row.revaluationAdjustmentDownward += this.parseNumeric(record.revaluationAdjustmentDownward);
+      row.impairmentExpenseDisposed += this.parseNumeric(record.impairmentExpenseDisposed);
     });
+
+    return Array.from(rows.values())
+      .map(({ rawImpairmentExpense, ...row }) => {
+        const costBasis = row.costBasisAcquired - row.costBasisRelieved;
+        return {
+          ...row,
+          impairmentExpense: rawImpairmentExpense - row.impairmentExpenseDisposed,
+          costBasis,
+          carryingValue: costBasis - rawImpairmentExpense + row.impairmentExpenseReversal + row.impairmentExpenseDisposed
+        };
+      })
+      .filter(row => {
+        // Mirrors buildHavingConditions
+        if (filters?.excludeZeroBalances !== false && row.qty === 0 && row.costBasis === 0) return false;
+        if (filters?.minValue && filters.minValue > 0 && Math.abs(row.carryingValue) < filters.minValue) return false;
+        return true;
+      })
+      .sort((a, b) => a.asset.localeCompare(b.asset) || String(a.inventory).localeCompare(String(b.inventory)));
+  }
+
+  // ========================================================================
+  // RESULT TRANSFORMATION AND VALIDATION
+  // ========================================================================
+
+  /**
+   * Convert and validate one result row; runs as each page of rows arrives
+   */
+  private transformRow(row: any): InventoryBalanceRecord {
+    const record: InventoryBalanceRecord = {
+      asset: row.asset || '',
+      assetId: row.assetId || '',
+      inventory: row.inventory || '',
+      subsidiaryId: row.subsidiaryId === 'DEFAULT' ? undefined : row.subsidiaryId,
+      qty: this.parseNumeric(row.qty),
+      costBasisAcquired: this.parseNumeric(row.costBasisAcquired),
+      costBasisRelieved: this.parseNumeric(row.costBasisRelieved),
+      costBasis: this.parseNumeric(row.costBasis),
+      impairmentExpense: this.parseNumeric(row.impairmentExpense),
+      impairmentExpenseReversal: this.parseNumeric(row.impairmentExpenseReversal),
+      fairValueAdjustmentUpward: this.parseNumeric(row.fairValueAdjustmentUpward),
+      fairValueAdjustmentDownward: this.parseNumeric(row.fairValueAdjustmentDownward),
+      revaluationAdjustmentUpward: this.parseNumeric(row.revaluationAdjustmentUpward),
+      revaluationAdjustmentDownward: this.parseNumeric(row.revaluationAdjustmentDownward),
+      impairmentExpenseDisposed: this.parseNumeric(row.impairmentExpenseDisposed),
+      carryingValue: this.parseNumeric(row.carryingValue)
+    };
+
+    // Validate the record
+    this.validateInventoryRecord(record);
+
+    return record;
   }
 
   private parseNumeric(value: any): number {
@@ -361,7 +487,7 @@ export class InventoryBalanceGenerator {
     
     if (Math.abs(record.costBasis - calculatedCostBasis) > tolerance) {
       console.warn(`Warning: Cost basis calculation mismatch for ${record.asset}/${record.inventory}: ` +
-        `calculated ${calculatedCostBasis.toFixed(2)} vs recorded ${record.costBasis.toFixed(2)}`);
+        `calculated ${calculatedCostBasis.toFixed(this.precision.currency)} vs recorded ${record.costBasis.toFixed(this.precision.currency)}`);
     }
 
     // Reasonableness checks
@@ -494,7 +620,8 @@ export class InventoryBalanceGenerator {
   }
 
   /**
-   * Format inventory balance data for presentation
+   * Format inventory balance totals and the largest assets, inventories and
+   * subsidiaries for presentation; every record is in the report's paged records
    */
   formatForPresentation(records: InventoryBalanceRecord[]): string {
     let output = '💰 **Inventory Balance Report**\n\n';
@@ -502,56 +629,54 @@ export class InventoryBalanceGenerator {
     const summary = this.generateSummary(records);
     
     output += `**Portfolio Summary:**\n`;
-    output += `• Total Portfolio Value: $${summary.portfolioSummary.totalPortfolioValue.toLocaleString(undefined, { minimumFractionDigits: 2 })}\n`;
-    output += `• Total Cost Basis: $${summary.portfolioSummary.totalCostBasis.toLocaleString(undefined, { minimumFractionDigits: 2 })}\n`;
+    output += `• Total Portfolio Value: $${summary.portfolioSummary.totalPortfolioValue.toLocaleString(undefined, this.currencyFormat)}\n`;
+    output += `• Total Cost Basis: $${summary.portfolioSummary.totalCostBasis.toLocaleString(undefined, this.currencyFormat)}\n`;
     
     if (summary.portfolioSummary.totalUnrealizedGL !== 0) {
-      output += `• Total Unrealized G/L: $${summary.portfolioSummary.totalUnrealizedGL.toLocaleString(undefined, { minimumFractionDigits: 2 })}\n`;
+      output += `• Total Unrealized G/L: $${summary.portfolioSummary.totalUnrealizedGL.toLocaleString(undefined, this.currencyFormat)}\n`;
     }
     
     if (summary.portfolioSummary.totalImpairments !== 0) {
-      output += `• Total Impairments: $${summary.portfolioSummary.totalImpairments.toLocaleString(undefined, { minimumFractionDigits: 2 })}\n`;
+      output += `• Total Impairments: $${summary.portfolioSummary.totalImpairments.toLocaleString(undefined, this.currencyFormat)}\n`;
     }
     
     output += `• Total Records: ${summary.totalRecords}\n\n`;
 
     // Asset breakdown
     output += `**Asset Breakdown:**\n`;
-    Object.entries(summary.assetBreakdown)
-      .sort(([,a], [,b]) => (b as any).totalValue - (a as any).totalValue)
-      .forEach(([asset, data]: [string, any]) => {
-        output += `• **${asset}**: $${data.totalValue.toLocaleString(undefined, { minimumFractionDigits: 2 })} `;
-        output += `(${data.percentOfPortfolio.toFixed(1)}%) - `;
-        output += `${data.totalQty.toLocaleString(undefined, { minimumFractionDigits: 8 })} units`;
-        if (data.inventoryCount > 1) {
-          output += ` across ${data.inventoryCount} inventories`;
-        }
-        output += '\n';
-      });
+    const assets = Object.entries(summary.assetBreakdown)
+      .sort(([,a], [,b]) => (b as any).totalValue - (a as any).totalValue);
+    output += this.formatTopItems(assets, 'assets', ([asset, data]: [string, any]) => {
+      let line = `**${asset}**: $${data.totalValue.toLocaleString(undefined, this.currencyFormat)} `;
+      line += `(${data.percentOfPortfolio.toFixed(this.precision.percentage)}%) - `;
+      line += `${data.totalQty.toLocaleString(undefined, this.quantityFormat)} units`;
+      if (data.inventoryCount > 1) {
+        line += ` across ${data.inventoryCount} inventories`;
+      }
+      return line;
+    });
 
     // Inventory breakdown (if multiple inventories)
-    const inventoryCount = Object.keys(summary.inventoryBreakdown).length;
-    if (inventoryCount > 1) {
+    const inventories = Object.entries(summary.inventoryBreakdown)
+      .sort(([,a], [,b]) => (b as any).totalValue - (a as any).totalValue);
+    if (inventories.length > 1) {
       output += `\n**Inventory Breakdown:**\n`;
-      Object.entries(summary.inventoryBreakdown)
-        .sort(([,a], [,b]) => (b as any).totalValue - (a as any).totalValue)
-        .forEach(([inventory, data]: [string, any]) => {
-          output += `• **${inventory}**: $${data.totalValue.toLocaleString(undefined, { minimumFractionDigits: 2 })} `;
-          output += `(${data.percentOfPortfolio.toFixed(1)}%) - ${data.assetCount} assets\n`;
-        });
+      output += this.formatTopItems(inventories, 'inventories', ([inventory, data]: [string, any]) =>
+        `**${inventory}**: $${data.totalValue.toLocaleString(undefined, this.currencyFormat)} ` +
+        `(${data.percentOfPortfolio.toFixed(this.precision.percentage)}%) - ${data.assetCount} assets`
+      );
     }
 
     // Subsidiary breakdown (if applicable)
     if (summary.subsidiaryBreakdown) {
-      const subsidiaryCount = Object.keys(summary.subsidiaryBreakdown).length;
-      if (subsidiaryCount > 1) {
+      const subsidiaries = Object.entries(summary.subsidiaryBreakdown)
+        .sort(([,a], [,b]) => (b as any).totalValue - (a as any).totalValue);
+      if (subsidiaries.length > 1) {
         output += `\n**Subsidiary Breakdown:**\n`;
-        Object.entries(summary.subsidiaryBreakdown)
-          .sort(([,a], [,b]) => (b as any).totalValue - (a as any).totalValue)
-          .forEach(([subsidiary, data]: [string, any]) => {
-            output += `• **${subsidiary}**: $${data.totalValue.toLocaleString(undefined, { minimumFractionDigits: 2 })} `;
-            output += `(${data.percentOfPortfolio.toFixed(1)}%) - ${data.assetCount} assets\n`;
-          });
+        output += this.formatTopItems(subsidiaries, 'subsidiaries', ([subsidiary, data]: [string, any]) =>
+          `**${subsidiary}**: $${data.totalValue.toLocaleString(undefined, this.currencyFormat)} ` +
+          `(${data.percentOfPortfolio.toFixed(this.precision.percentage)}%) - ${data.assetCount} assets`
+        );
       }
     }
 
@@ -619,7 +744,9 @@ export class InventoryBalanceGenerator {
   }
 
   /**
-   * Sort inventory records by various criteria
+   * Sort inventory records by various criteria. Ties fall back to asset,
+   * inventory and subsidiary, so the order is the same on every call (pages
+   * depend on it).
    */
   sortRecords(records: InventoryBalanceRecord[], sortBy: 'asset' | 'value' | 'qty' | 'costBasis' | 'inventory', ascending: boolean = false): InventoryBalanceRecord[] {
     return [...records].sort((a, b) => {
@@ -642,6 +769,10 @@ export class InventoryBalanceGenerator {
           comparison = a.inventory.localeCompare(b.inventory);
           break;
       }
+      comparison = comparison ||
+        a.asset.localeCompare(b.asset) ||
+        String(a.inventory).localeCompare(String(b.inventory)) ||
+        String(a.subsidiaryId || '').localeCompare(String(b.subsidiaryId || ''));
 
       return ascending ? comparison : -comparison;
     });
@@ -688,18 +819,18 @@ export class InventoryBalanceGenerator {
         record.assetId,
         record.inventory,
         record.subsidiaryId || '',
-        record.qty.toFixed(8),
-        record.costBasisAcquired.toFixed(2),
-        record.costBasisRelieved.toFixed(2),
-        record.costBasis.toFixed(2),
-        record.impairmentExpense.toFixed(2),
-        record.impairmentExpenseReversal.toFixed(2),
-        record.fairValueAdjustmentUpward.toFixed(2),
-        record.fairValueAdjustmentDownward.toFixed(2),
-        record.revaluationAdjustmentUpward.toFixed(2),
-        record.revaluationAdjustmentDownward.toFixed(2),
-        record.impairmentExpenseDisposed.toFixed(2),
-        record.carryingValue.toFixed(2)
+        record.qty.toFixed(this.precision.crypto),
+        record.costBasisAcquired.toFixed(this.precision.currency),
+        record.costBasisRelieved.toFixed(this.precision.currency),
+        record.costBasis.toFixed(this.precision.currency),
+        record.impairmentExpense.toFixed(this.precision.currency),
+        record.impairmentExpenseReversal.toFixed(this.precision.currency),
+        record.fairValueAdjustmentUpward.toFixed(this.precision.currency),
+        record.fairValueAdjustmentDownward.toFixed(this.precision.currency),
+        record.revaluationAdjustmentUpward.toFixed(this.precision.currency),
+        record.revaluationAdjustmentDownward.toFixed(this.precision.currency),
+        record.impairmentExpenseDisposed.toFixed(this.precision.currency),
+        record.carryingValue.toFixed(this.precision.currency)
       ];
 
       csvRows.push(row.join(','));
@@ -862,6 +993,65 @@ export class InventoryBalanceGenerator {
     };
   }
 
+  /**
+   * Format variance totals and the largest new, closed and changed positions
+   * for presentation; every position is in the report's paged records
+   */
+  formatVarianceForPresentation(
+    variance: ReturnType<InventoryBalanceGenerator['generateVarianceAnalysis']>,
+    priorAsOfDate: string,
+    currentAsOfDate: string
+  ): string {
+    let output = '🔀 **Inventory Variance Analysis**\n\n';
+
+    output += `**Period:** ${priorAsOfDate} → ${currentAsOfDate}\n\n`;
+
+    output += `**Summary:**\n`;
+    output += `• Net Carrying Value Change: $${variance.summary.totalNetChange.toLocaleString(undefined, this.currencyFormat)}\n`;
+    output += `• New Positions: ${variance.newPositions.length} ($${variance.summary.totalNewValue.toLocaleString(undefined, this.currencyFormat)})\n`;
+    output += `• Closed Positions: ${variance.closedPositions.length} ($${variance.summary.totalClosedValue.toLocaleString(undefined, this.currencyFormat)})\n`;
+    output += `• Changed Positions: ${variance.changedPositions.length}\n`;
+
+    const byValue = (a: InventoryBalanceRecord, b: InventoryBalanceRecord) => Math.abs(b.carryingValue) - Math.abs(a.carryingValue);
+    const formatPosition = (position: InventoryBalanceRecord) =>
+      `**${position.asset}** / ${position.inventory}: $${position.carryingValue.toLocaleString(undefined, this.currencyFormat)}`;
+
+    if (variance.newPositions.length > 0) {
+      output += `\n**Largest New Positions:**\n`;
+      output += this.formatTopItems([...variance.newPositions].sort(byValue), 'new positions', formatPosition);
+    }
+
+    if (variance.closedPositions.length > 0) {
+      output += `\n**Largest Closed Positions:**\n`;
+      output += this.formatTopItems([...variance.closedPositions].sort(byValue), 'closed positions', formatPosition);
+    }
+
+    if (variance.changedPositions.length > 0) {
+      output += `\n**Largest Changes:**\n`;
+      const changes = [...variance.changedPositions].sort((a, b) => Math.abs(b.valueChange) - Math.abs(a.valueChange));
+      output += this.formatTopItems(changes, 'changed positions', change =>
+        `**${change.current.asset}** / ${change.current.inventory}: ` +
+        `$${change.valueChange.toLocaleString(undefined, this.currencyFormat)} ` +
+        `(${change.percentChange.toFixed(this.precision.percentage)}%), ` +
+        `${change.qtyChange.toLocaleString(undefined, this.quantityFormat)} units`
+      );
+    }
+
+    return output;
+  }
+
+  /**
+   * Bullet lines for the first PRESENTATION_TOP_ITEMS items (already in order),
+   * and a count of the rest
+   */
+  private formatTopItems<T>(items: T[], noun: string, format: (item: T) => string): string {
+    let output = items.slice(0, PRESENTATION_TOP_ITEMS).map(item => `• ${format(item)}\n`).join('');
+    if (items.length > PRESENTATION_TOP_ITEMS) {
+      output += `• …and ${(items.length - PRESENTATION_TOP_ITEMS).toLocaleString()} more ${noun}\n`;
+    }
+    return output;
+  }
+
   /**
    * Calculate concentration risk metrics
    */
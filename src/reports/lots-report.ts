@@ -11,14 +11,38 @@
  */
 
 import { BigQueryClient } from '../services/bigquery-client.js';
+import { PrecisionSettings } from '../config.js';
+import { ParameterizedQuery, QueryParameters } from '../services/query-parameters.js';
+import { ACTIONS_REPORT_TABLE, SelectQuery, SqlExpression, numeric, selectItem, sum } from '../services/sql-builder.js';
+import { ReportGenerationError, ReportingError, throwIfCancelled } from '../errors.js';
 import { 
   LotsReportRecord, 
   ReportParameters, 
-  FieldMetadata 
+  FieldMetadata,
+  QueryCostEstimate,
+  ReportExecutionOptions,
+  ReportRows,
+  PRESENTATION_TOP_ITEMS
 } from '../types/actions-report.js';
 
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+/**
+ * Earliest acquisition time a maxAge filter keeps: maxAge days before the
+ * start of today (UTC). Counting from the day rather than the second keeps the
+ * bound parameter, and so the query cache key, the same all day.
+ */
+function maxAgeCutoffSEC(maxAgeDays: number): number {
+  const startOfToday = Math.floor(Date.now() / 1000 / SECONDS_PER_DAY) * SECONDS_PER_DAY;
+  return startOfToday - maxAgeDays * SECONDS_PER_DAY;
+}
+
 export class LotsReportGenerator {
   private bigQueryClient: BigQueryClient;
+  private precision: PrecisionSettings;
+  // toLocaleString options for USD amounts and asset quantities
+  private currencyFormat: Intl.NumberFormatOptions;
+  private quantityFormat: Intl.NumberFormatOptions;
 
   // Field metadata for natural language query mapping
   private static readonly FIELD_METADATA: FieldMetadata[] = [
@@ -104,8 +128,11 @@ export class LotsReportGenerator {
     }
   ];
 
-  constructor(bigQueryClient: BigQueryClient) {
+  constructor(bigQueryClient: BigQueryClient, precision: PrecisionSettings) {
     this.bigQueryClient = bigQueryClient;
+    this.precision = precision;
+    this.currencyFormat = { minimumFractionDigits: precision.currency, maximumFractionDigits: precision.currency };
+    this.quantityFormat = { minimumFractionDigits: precision.crypto, maximumFractionDigits: precision.crypto };
   }
 
   // ========================================================================
@@ -119,31 +146,65 @@ export class LotsReportGenerator {
       minQty?: number;
       maxAge?: number; // days
       onlyImpaired?: boolean;
-    }
-  ): Promise<LotsReportRecord[]> {
+    },
+    options: ReportExecutionOptions = {}
+  ): Promise<ReportRows<LotsReportRecord>> {
     
     console.log('🔄 Generating Lots Report...', { parameters, filters });
     
     try {
-      // Build the SQL query
-      const sql = this.buildLotsReportSQL(parameters, filters);
-      
-      // Execute the query
-      const rawResults = await this.bigQueryClient.executeReportQuery(sql, parameters);
+      let result: ReportRows<LotsReportRecord>;
+      const transform = (row: any) => this.transformRow(row);
+
+      if (this.bigQueryClient.isLocalSource()) {
+        // Aggregate the local Actions Report in memory
+        const rawResults = this.aggregateLocalRecords(parameters, filters);
+        options.onProgress?.('rows_received', `${rawResults.length} rows aggregated from the local data source`);
+        result = this.bigQueryClient.limitRows(rawResults, transform, options);
+      } else {
+        // Build the SQL query
+        const query = this.buildLotsReportSQL(parameters, filters);
+        options.onProgress?.('sql_built', 'Report SQL built');
+        
+        // Execute the query, transforming and validating each page as it arrives
+        result = await this.bigQueryClient.executeReportQuery(query, parameters, options, transform);
+      }
       
-      // Transform and validate results
-      const lotsRecords = this.transformResults(rawResults);
+      // A cancelled request stops before any further work
+      throwIfCancelled(options.signal);
+
+      options.onProgress?.('transform_done', `${result.rows.length} records transformed and validated`);
       
-      console.log(`✅ Lots Report generated: ${lotsRecords.length} lots`);
+      console.log(`✅ Lots Report generated: ${result.rows.length} lots${result.truncated ? ' (truncated)' : ''}`);
       
-      return lotsRecords;
+      return result;
       
     } catch (error) {
       console.error('❌ Lots Report generation failed:', error);
-      throw new Error(`Lots Report generation failed: ${error instanceof Error ? error.message : String(error)}`);
+      // Data source and BigQuery failures keep their own error codes
+      if (error instanceof ReportingError) {
+        throw error;
+      }
+      throw new ReportGenerationError(`Lots Report generation failed: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+  /**
+   * Dry-run the report's query to see what it would scan before running it
+   */
+  async estimate(
+    parameters: ReportParameters,
+    filters?: {
+      assets?: string[];
+      minQty?: number;
+      maxAge?: number;
+      onlyImpaired?: boolean;
+    },
+    options: ReportExecutionOptions = {}
+  ): Promise<QueryCostEstimate> {
+    return this.bigQueryClient.estimateReportQuery(this.buildLotsReportSQL(parameters, filters), parameters, options);
+  }
+
   // ========================================================================
   // SQL QUERY BUILDING
   // ========================================================================
@@ -151,63 +212,78 @@ export class LotsReportGenerator {
   private buildLotsReportSQL(
     parameters: ReportParameters, 
     filters?: any
-  ): string {
+  ): ParameterizedQuery {
     
-    const whereConditions = this.buildWhereConditions(parameters, filters);
-    const havingConditions = this.buildHavingConditions(filters);
-
-    return `
-      WITH actions AS (
-        SELECT
-          runId, lotId, lotAcquisitionTimestampSEC, asset, assetId, action, status, inventory,
-          IFNULL(CAST(assetUnitAdj AS BIGNUMERIC), 0) as assetUnitAdj,
-          IF(IFNULL(CAST(assetUnitAdj AS BIGNUMERIC), 0) > 0, IFNULL(CAST(assetUnitAdj AS BIGNUMERIC), 0), 0) as unitsAcquired,
-          IF(IFNULL(CAST(assetUnitAdj AS BIGNUMERIC), 0) > 0, 0, ABS(IFNULL(CAST(assetUnitAdj AS BIGNUMERIC), 0))) as unitsDisposed,
-          IFNULL(CAST(costBasisAcquired AS BIGNUMERIC), 0) as costBasisAcquired,
-          IFNULL(CAST(originalCostBasisDisposed AS BIGNUMERIC), 0) AS costBasisRelieved,
-          IFNULL(CAST(impairmentExpense AS BIGNUMERIC), 0) AS impairmentExpense,
-          IFNULL(CAST(impairmentReversal AS BIGNUMERIC), 0) AS impairmentReversal,
-          IFNULL(CAST(revaluationAdjustmentUpward AS BIGNUMERIC), 0) AS revaluationAdjustmentUpward,
-          IFNULL(CAST(revaluationAdjustmentDownward AS BIGNUMERIC), 0) AS revaluationAdjustmentDownward,
-          IFNULL(CAST(impairmentExpenseDisposed AS BIGNUMERIC), 0) AS impairmentExpenseDisposed,
-          txnId, eventId
-        FROM \`{ACTIONS_REPORT_TABLE}\`
-        ${whereConditions}
-      ),
-      lot_to_txn as (
-        SELECT txnId, lotId 
-        FROM actions
-        WHERE LOWER(actions.action) = 'buy'
-        GROUP BY txnId, lotId
+    const params = new QueryParameters();
+    const unitAdj = numeric('assetUnitAdj');
+
+    const actions = new SelectQuery()
+      .select(
+        'runId', 'lotId', 'lotAcquisitionTimestampSEC', 'asset', 'assetId', 'action', 'status', 'inventory',
+        selectItem(unitAdj, 'assetUnitAdj'),
+        selectItem(`IF(${unitAdj} > 0, ${unitAdj}, 0)`, 'unitsAcquired'),
+        selectItem(`IF(${unitAdj} > 0, 0, ABS(${unitAdj}))`, 'unitsDisposed'),
+        selectItem(numeric('costBasisAcquired'), 'costBasisAcquired'),
+        selectItem(numeric('originalCostBasisDisposed'), 'costBasisRelieved'),
+        selectItem(numeric('impairmentExpense'), 'impairmentExpense'),
+        selectItem(numeric('impairmentReversal'), 'impairmentReversal'),
+        selectItem(numeric('revaluationAdjustmentUpward'), 'revaluationAdjustmentUpward'),
+        selectItem(numeric('revaluationAdjustmentDownward'), 'revaluationAdjustmentDownward'),
+        selectItem(numeric('impairmentExpenseDisposed'), 'impairmentExpenseDisposed'),
+        'txnId', 'eventId'
       )
-      SELECT
-        actions.lotId,
-        ltt.txnId,
-        asset,
-        assetId,
-        lotAcquisitionTimestampSEC as timestampSEC,
-        SUM(unitsAcquired) as unitsAcquired,
-        SUM(unitsDisposed) as unitsDisposed,
-        SUM(assetUnitAdj) as qty,
-        SUM(costBasisAcquired) as costBasisAcquired,
-        SUM(costBasisRelieved) as costBasisRelieved,
-        SUM(impairmentExpense) AS impairmentExpense,
-        SUM(impairmentReversal) AS impairmentReversal,
-        SUM(revaluationAdjustmentUpward) AS revaluationAdjustmentUpward,
-        SUM(revaluationAdjustmentDownward) AS revaluationAdjustmentDownward,
-        (SUM(costBasisAcquired) - SUM(costBasisRelieved)) AS costBasis,
-        (SUM(costBasisAcquired) - SUM(costBasisRelieved) - SUM(impairmentExpense) + SUM(impairmentReversal) + SUM(impairmentExpenseDisposed)) AS carryingValue,
-        (SUM(costBasisAcquired) - SUM(costBasisRelieved) - SUM(impairmentExpense) + SUM(impairmentReversal) + SUM(revaluationAdjustmentUpward) - SUM(revaluationAdjustmentDownward) + SUM(impairmentExpenseDisposed)) AS adjustedToValue
-      FROM actions
-      LEFT JOIN lot_to_txn ltt ON ltt.lotId = actions.lotId
-      GROUP BY lotId, ltt.txnId, lotAcquisitionTimestampSEC, asset, assetId
-      ${havingConditions}
-      ORDER BY timestampSEC DESC, lotId DESC
-    `.trim();
+      .from(ACTIONS_REPORT_TABLE)
+      .where(...this.buildWhereConditions(parameters, params, filters));
+
+    // The buy transaction that opened each lot
+    const lotToTxn = new SelectQuery()
+      .select('txnId', 'lotId')
+      .from('actions')
+      .where(`LOWER(actions.action) = 'buy'`)
+      .groupBy('txnId', 'lotId');
+
+    const costBasis = `${sum('costBasisAcquired')} - ${sum('costBasisRelieved')}`;
+    const carryingValue = `${costBasis} - ${sum('impairmentExpense')} + ${sum('impairmentReversal')}`;
+
+    const sql = new SelectQuery()
+      .with('actions', actions)
+      .with('lot_to_txn', lotToTxn)
+      .select(
+        'actions.lotId',
+        'ltt.txnId',
+        'asset',
+        'assetId',
+        selectItem('lotAcquisitionTimestampSEC', 'timestampSEC'),
+        ...['unitsAcquired', 'unitsDisposed'].map(column => selectItem(sum(column), column)),
+        selectItem(sum('assetUnitAdj'), 'qty'),
+        ...[
+          'costBasisAcquired',
+          'costBasisRelieved',
+          'impairmentExpense',
+          'impairmentReversal',
+          'revaluationAdjustmentUpward',
+          'revaluationAdjustmentDownward'
+        ].map(column => selectItem(sum(column), column)),
+        selectItem(`(${costBasis})`, 'costBasis'),
+        selectItem(`(${carryingValue} + ${sum('impairmentExpenseDisposed')})`, 'carryingValue'),
+        selectItem(
+          `(${carryingValue} + ${sum('revaluationAdjustmentUpward')} - ${sum('revaluationAdjustmentDownward')} + ${sum('impairmentExpenseDisposed')})`,
+          'adjustedToValue'
+        )
+      )
+      .from('actions')
+      .join({ type: 'LEFT', source: 'lot_to_txn', alias: 'ltt', on: 'ltt.lotId = actions.lotId' })
+      .groupBy('lotId', 'ltt.txnId', 'lotAcquisitionTimestampSEC', 'asset', 'assetId')
+      .having(...this.buildHavingConditions(params, filters))
+      .orderBy('timestampSEC', 'DESC')
+      .orderBy('lotId', 'DESC')
+      .toSQL();
+
+    return { sql, params };
   }
 
-  private buildWhereConditions(parameters: ReportParameters, filters?: any): string {
-    const conditions: string[] = [];
+  private buildWhereConditions(parameters: ReportParameters, params: QueryParameters, filters?: any): SqlExpression[] {
+    const conditions: SqlExpression[] = [];
 
     // Required parameters
     conditions.push(`runId = @runId`);
@@ -217,36 +293,32 @@ export class LotsReportGenerator {
     }
 
     // As-of date filter
-    if (parameters.asOfSEC) {
-      conditions.push(`timestampSEC <= @asOfSEC`);
-    } else if (parameters.asOfDate) {
+    if (parameters.asOfSEC || parameters.asOfDate) {
       conditions.push(`timestampSEC <= @asOfSEC`);
     }
 
     // Asset filters
     if (filters?.assets && filters.assets.length > 0) {
-      const assetList = filters.assets.map((asset: string) => `'${asset}'`).join(', ');
-      conditions.push(`asset IN (${assetList})`);
+      conditions.push(`asset IN UNNEST(${params.stringArray('assets', filters.assets)})`);
     }
 
-    // Age filter (for lots older than X days)
+    // Age filter (for lots acquired in the last X days)
     if (filters?.maxAge) {
-      const maxAgeTimestamp = Math.floor(Date.now() / 1000) - (filters.maxAge * 24 * 60 * 60);
-      conditions.push(`lotAcquisitionTimestampSEC >= ${maxAgeTimestamp}`);
+      conditions.push(`lotAcquisitionTimestampSEC >= ${params.int('minAcquisitionSEC', maxAgeCutoffSEC(filters.maxAge))}`);
     }
 
-    return conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    return conditions;
   }
 
-  private buildHavingConditions(filters?: any): string {
-    const conditions: string[] = [];
+  private buildHavingConditions(params: QueryParameters, filters?: any): SqlExpression[] {
+    const conditions: SqlExpression[] = [];
 
     // Default: only include lots with remaining quantity
     conditions.push('SUM(assetUnitAdj) > 0');
 
     // Minimum quantity filter
     if (filters?.minQty && filters.minQty > 0) {
-      conditions.push(`SUM(assetUnitAdj) >= ${filters.minQty}`);
+      conditions.push(`SUM(assetUnitAdj) >= ${params.number('minQty', filters.minQty)}`);
     }
 
     // Only impaired lots filter
@@ -254,41 +326,127 @@ export class LotsReportGenerator {
       conditions.push('SUM(impairmentExpense) > 0');
     }
 
-    return conditions.length > 0 ? `HAVING ${conditions.join(' AND ')}` : '';
+    return conditions;
   }
 
   // ========================================================================
-  // RESULT TRANSFORMATION AND VALIDATION
+  // LOCAL DATA SOURCE AGGREGATION
   // ========================================================================
 
-  private transformResults(rawResults: any[]): LotsReportRecord[] {
-    return rawResults.map(row => {
-      // Convert BigQuery numeric types to JavaScript numbers
-      const record: LotsReportRecord = {
-        lotId: row.lotId || '',
-        txnId: row.txnId,
-        asset: row.asset || '',
-        assetId: row.assetId || '',
-        timestampSEC: parseInt(row.timestampSEC) || 0,
-        unitsAcquired: this.parseNumeric(row.unitsAcquired),
-        unitsDisposed: this.parseNumeric(row.unitsDisposed),
-        qty: this.parseNumeric(row.qty),
-        costBasisAcquired: this.parseNumeric(row.costBasisAcquired),
-        costBasisRelieved: this.parseNumeric(row.costBasisRelieved),
-        costBasis: this.parseNumeric(row.costBasis),
-        impairmentExpense: this.parseNumeric(row.impairmentExpense),
-        impairmentReversal: this.parseNumeric(row.impairmentReversal),
-        revaluationAdjustmentUpward: this.parseNumeric(row.revaluationAdjustmentUpward),
-        revaluationAdjustmentDownward: this.parseNumeric(row.revaluationAdjustmentDownward),
-        carryingValue: this.parseNumeric(row.carryingValue),
-        adjustedToValue: this.parseNumeric(row.adjustedToValue)
-      };
-
-      // Validate critical fields
-      this.validateLotRecord(record);
-
-      return record;
+  /**
+   * In-memory equivalent of buildLotsReportSQL for local file data sources
+   */
+  private aggregateLocalRecords(parameters: ReportParameters, filters?: any): any[] {
+    const maxAgeTimestamp = filters?.maxAge ? maxAgeCutoffSEC(filters.maxAge) : undefined;
+
+    const actions = this.bigQueryClient.getLocalRecords(parameters, { applyAsOf: true }).filter(record => {
+      if (filters?.assets?.length && !filters.assets.includes(record.asset)) return false;
+      if (maxAgeTimestamp !== undefined && Number(record.lotAcquisitionTimestampSEC) < maxAgeTimestamp) return false;
+      return true;
+    });
+
+    // lot_to_txn: the buy transaction that opened each lot
+    const lotToTxn = new Map<string, string>();
+    actions.forEach(record => {
+      if (record.lotId && record.action?.toLowerCase() === 'buy' && !lotToTxn.has(record.lotId)) {
+        lotToTxn.set(record.lotId, record.txnId);
+      }
+    });
+
+    const lots = new Map<string, any>();
+    actions.forEach(record => {
+      const key = [record.lotId, record.lotAcquisitionTimestampSEC, record.asset, record.assetId].join('|');
+      const assetUnitAdj = this.parseNumeric(record.assetUnitAdj);
+
+      if (!lots.has(key)) {
+        lots.set(key, {
+          lotId: record.lotId,
+          txnId: record.lotId ? lotToTxn.get(record.lotId) : undefined,
+          asset: record.asset,
+          assetId: record.assetId,
+          timestampSEC: record.lotAcquisitionTimestampSEC,
+          unitsAcquired: 0,
+          unitsDisposed: 0,
+          qty: 0,
+          costBasisAcquired: 0,
+          costBasisRelieved: 0,
+          impairmentExpense: 0,
+          impairmentReversal: 0,
+          revaluationAdjustmentUpward: 0,
+          revaluationAdjustmentDownward: 0,
+          impairmentExpenseDisposed: 0
+        });
+      }
+
+      const lot = lots.get(key);
+      lot.unitsAcquired += assetUnitAdj > 0 ? assetUnitAdj : 0;
+      lot.unitsDisposed += assetUnitAdj > 0 ? 0 : Math.abs(assetUnitAdj);
+      lot.qty += assetUnitAdj;
+      lot.costBasisAcquired += this.parseNumeric(record.costBasisAcquired);
+      lot.costBasisRelieved += this.parseNumeric(record.originalCostBasisDisposed);
+      lot.impairmentExpense += this.parseNumeric(record.impairmentExpense);
+      lot.impairmentReversal += this.parseNumeric(record.impairmentReversal);
+      lot.revaluationAdjustmentUpward += this.parseNumeric(record.revaluationAdjustmentUpward);
+      lot.revaluationAdjustmentDownward += this.parseNumeric(record.revaluationAdjustmentDownward);
+      lot.impairmentExpenseDisposed += this.parseNumeric(record.impairmentExpenseDisposed);
     });
+
+    return Array.from(lots.values())
+      .map(lot => {
+        const costBasis = lot.costBasisAcquired - lot.costBasisRelieved;
+        const carryingValue = costBasis - lot.impairmentExpense + lot.impairmentReversal + lot.impairmentExpenseDisposed;
+        return {
+          ...lot,
+          costBasis,
+          carryingValue,
+          adjustedToValue: carryingValue + lot.revaluationAdjustmentUpward - lot.revaluationAdjustmentDownward
+        };
+      })
+      .filter(lot => {
+        // Mirrors buildHavingConditions
+        if (lot.qty <= 0) return false;
+        if (filters?.minQty && filters.minQty > 0 && lot.qty < filters.minQty) return false;
+        if (filters?.onlyImpaired && lot.impairmentExpense <= 0) return false;
+        return true;
+      })
+      .sort((a, b) =>
+        (Number(b.timestampSEC) - Number(a.timestampSEC)) || String(b.lotId).localeCompare(String(a.lotId))
+      );
+  }
+
+  // ========================================================================
+  // RESULT TRANSFORMATION AND VALIDATION
+  // ========================================================================
+
+  /**
+   * Convert and validate one result row; runs as each page of rows arrives
+   */
+  private transformRow(row: any): LotsReportRecord {
+    // Convert BigQuery numeric types to JavaScript numbers
+    const record: LotsReportRecord = {
+      lotId: row.lotId || '',
+      txnId: row.txnId,
+      asset: row.asset || '',
+      assetId: row.assetId || '',
+      timestampSEC: parseInt(row.timestampSEC) || 0,
+      unitsAcquired: this.parseNumeric(row.unitsAcquired),
+      unitsDisposed: this.parseNumeric(row.unitsDisposed),
+      qty: this.parseNumeric(row.qty),
+      costBasisAcquired: this.parseNumeric(row.costBasisAcquired),
+      costBasisRelieved: this.parseNumeric(row.costBasisRelieved),
+      costBasis: this.parseNumeric(row.costBasis),
+      impairmentExpense: this.parseNumeric(row.impairmentExpense),
+      impairmentReversal: this.parseNumeric(row.impairmentReversal),
+      revaluationAdjustmentUpward: this.parseNumeric(row.revaluationAdjustmentUpward),
+      revaluationAdjustmentDownward: this.parseNumeric(row.revaluationAdjustmentDownward),
+      carryingValue: this.parseNumeric(row.carryingValue),
+      adjustedToValue: this.parseNumeric(row.adjustedToValue)
+    };
+
+    // Validate critical fields
+    this.validateLotRecord(record);
+
+    return record;
   }
 
   private parseNumeric(value: any): number {
@@ -387,6 +545,41 @@ export class LotsReportGenerator {
     return summary;
   }
 
+  /**
+   * Format lots totals and the largest assets for presentation; every lot is
+   * in the report's paged records
+   */
+  formatForPresentation(lots: LotsReportRecord[]): string {
+    let output = '📦 **Lots Report**\n\n';
+
+    const summary = this.generateSummary(lots);
+
+    output += `**Portfolio Summary:**\n`;
+    output += `• Total Lots: ${summary.totalLots.toLocaleString()}\n`;
+    output += `• Total Carrying Value: $${summary.totalPortfolioValue.toLocaleString(undefined, this.currencyFormat)}\n`;
+    output += `• Total Cost Basis: $${summary.totalCostBasis.toLocaleString(undefined, this.currencyFormat)}\n`;
+    output += `• Total Unrealized G/L: $${summary.totalUnrealizedGL.toLocaleString(undefined, this.currencyFormat)}\n`;
+    output += `• Average Lot Age: ${summary.averageLotAge.toFixed(1)} days\n`;
+
+    if (summary.impairedLots > 0) {
+      output += `• Impaired Lots: ${summary.impairedLots}\n`;
+    }
+
+    const assets = Object.entries(summary.assetBreakdown)
+      .sort(([,a], [,b]) => (b as any).totalCarryingValue - (a as any).totalCarryingValue);
+    output += `\n**Asset Breakdown:**\n`;
+    assets.slice(0, PRESENTATION_TOP_ITEMS).forEach(([asset, data]: [string, any]) => {
+      output += `• **${asset}**: ${data.lotCount} lots, `;
+      output += `${data.totalQty.toLocaleString(undefined, this.quantityFormat)} units, `;
+      output += `$${data.totalCarryingValue.toLocaleString(undefined, this.currencyFormat)} carrying value\n`;
+    });
+    if (assets.length > PRESENTATION_TOP_ITEMS) {
+      output += `• …and ${(assets.length - PRESENTATION_TOP_ITEMS).toLocaleString()} more assets\n`;
+    }
+
+    return output;
+  }
+
   /**
    * Filter lots based on natural language criteria
    */
@@ -428,7 +621,8 @@ export class LotsReportGenerator {
   }
 
   /**
-   * Sort lots by various criteria
+   * Sort lots by various criteria. Ties fall back to lotId, so the order is the
+   * same on every call (pages depend on it).
    */
   sortLots(lots: LotsReportRecord[], sortBy: 'age' | 'value' | 'qty' | 'asset', ascending: boolean = false): LotsReportRecord[] {
     return [...lots].sort((a, b) => {
@@ -448,6 +642,7 @@ export class LotsReportGenerator {
           comparison = a.asset.localeCompare(b.asset);
           break;
       }
+      comparison = comparison || String(a.lotId).localeCompare(String(b.lotId));
 
       return ascending ? comparison : -comparison;
     });
@@ -497,18 +692,18 @@ export class LotsReportGenerator {
         lot.asset,
         lot.assetId,
         acquisitionDate,
-        lot.unitsAcquired.toFixed(8),
-        lot.unitsDisposed.toFixed(8),
-        lot.qty.toFixed(8),
-        lot.costBasisAcquired.toFixed(2),
-        lot.costBasisRelieved.toFixed(2),
-        lot.costBasis.toFixed(2),
-        lot.impairmentExpense.toFixed(2),
-        lot.impairmentReversal.toFixed(2),
-        lot.revaluationAdjustmentUpward.toFixed(2),
-        lot.revaluationAdjustmentDownward.toFixed(2),
-        lot.carryingValue.toFixed(2),
-        lot.adjustedToValue.toFixed(2)
+        lot.unitsAcquired.toFixed(this.precision.crypto),
+        lot.unitsDisposed.toFixed(this.precision.crypto),
+        lot.qty.toFixed(this.precision.crypto),
+        lot.costBasisAcquired.toFixed(this.precision.currency),
+        lot.costBasisRelieved.toFixed(this.precision.currency),
+        lot.costBasis.toFixed(this.precision.currency),
+        lot.impairmentExpense.toFixed(this.precision.currency),
+        lot.impairmentReversal.toFixed(this.precision.currency),
+        lot.revaluationAdjustmentUpward.toFixed(this.precision.currency),
+        lot.revaluationAdjustmentDownward.toFixed(this.precision.currency),
+        lot.carryingValue.toFixed(this.precision.currency),
+        lot.adjustedToValue.toFixed(this.precision.currency)
       ];
 
       csvRows.push(row.join(','));
@@ -17,14 +17,35 @@
  */
 
 import { BigQueryClient } from '../services/bigquery-client.js';
+import { PrecisionSettings } from '../config.js';
+import { ParameterizedQuery, QueryParameters } from '../services/query-parameters.js';
+import {
+  ACTIONS_REPORT_TABLE,
+  SelectQuery,
+  SqlExpression,
+  and,
+  coalesce,
+  numeric,
+  selectItem,
+  sum
+} from '../services/sql-builder.js';
+import { InvalidParamsError, ReportGenerationError, ReportingError, throwIfCancelled } from '../errors.js';
 import { 
   ValuationRollforwardRecord, 
   ReportParameters, 
-  FieldMetadata 
+  FieldMetadata,
+  QueryCostEstimate,
+  ReportExecutionOptions,
+  ReportRows,
+  PRESENTATION_TOP_ITEMS
 } from '../types/actions-report.js';
 
 export class ValuationRollforwardGenerator {
   private bigQueryClient: BigQueryClient;
+  private precision: PrecisionSettings;
+  // toLocaleString options for USD amounts and asset quantities
+  private currencyFormat: Intl.NumberFormatOptions;
+  private quantityFormat: Intl.NumberFormatOptions;
 
   // Field metadata for natural language query mapping
   private static readonly FIELD_METADATA: FieldMetadata[] = [
@@ -150,8 +171,11 @@ export class ValuationRollforwardGenerator {
     }
   ];
 
-  constructor(bigQueryClient: BigQueryClient) {
+  constructor(bigQueryClient: BigQueryClient, precision: PrecisionSettings) {
     this.bigQueryClient = bigQueryClient;
+    this.precision = precision;
+    this.currencyFormat = { minimumFractionDigits: precision.currency, maximumFractionDigits: precision.currency };
+    this.quantityFormat = { minimumFractionDigits: precision.crypto, maximumFractionDigits: precision.crypto };
   }
 
   // ========================================================================
@@ -165,36 +189,84 @@ export class ValuationRollforwardGenerator {
       assets?: string[];
       subsidiaries?: string[];
       minValue?: number;
-    }
-  ): Promise<ValuationRollforwardRecord[]> {
+    },
+    options: ReportExecutionOptions = {}
+  ): Promise<ReportRows<ValuationRollforwardRecord>> {
     
     console.log('🔄 Generating Valuation Rollforward Report...', { parameters, groupBy, filters });
     
     // Validate required parameters
     if (!parameters.startDate || !parameters.endDate) {
-      throw new Error('Valuation Rollforward requires both startDate and endDate parameters');
+      throw new InvalidParamsError('Valuation Rollforward requires both startDate and endDate parameters');
     }
     
     try {
-      // Build the SQL query
-      const sql = this.buildRollforwardSQL(parameters, groupBy, filters);
-      
-      // Execute the query
-      const rawResults = await this.bigQueryClient.executeReportQuery(sql, parameters);
+      let result: ReportRows<ValuationRollforwardRecord>;
+      const transform = (row: any) => this.transformRow(row);
+
+      if (this.bigQueryClient.isLocalSource()) {
+        // Aggregate the local Actions Report in memory
+        const rawResults = this.aggregateLocalRecords(parameters, groupBy, filters);
+        options.onProgress?.('rows_received', `${rawResults.length} rows aggregated from the local data source`);
+        result = this.bigQueryClient.limitRows(rawResults, transform, options);
+      } else {
+        // Build the SQL query
+        const query = this.buildRollforwardSQL(parameters, groupBy, filters);
+        options.onProgress?.('sql_built', 'Report SQL built');
+        
+        // Execute the query, transforming and validating each page as it arrives
+        result = await this.bigQueryClient.executeReportQuery(query, parameters, options, transform);
+      }
       
-      // Transform and validate results
-      const rollforwardRecords = this.transformResults(rawResults);
+      // A cancelled request stops before any further work
+      throwIfCancelled(options.signal);
+
+      let rollforwardRecords = result.rows;
+
+      // Minimum value filter (applied to ending carrying value)
+      if (filters?.minValue) {
+        rollforwardRecords = rollforwardRecords.filter(record => record.ending_carrying_value >= filters.minValue!);
+      }
+      options.onProgress?.('transform_done', `${rollforwardRecords.length} records transformed and validated`);
       
-      console.log(`✅ Valuation Rollforward generated: ${rollforwardRecords.length} records`);
+      console.log(`✅ Valuation Rollforward generated: ${rollforwardRecords.length} records${result.truncated ? ' (truncated)' : ''}`);
       
-      return rollforwardRecords;
+      return { rows: rollforwardRecords, truncated: result.truncated };
       
     } catch (error) {
       console.error('❌ Valuation Rollforward generation failed:', error);
-      throw new Error(`Valuation Rollforward generation failed: ${error instanceof Error ? error.message : String(error)}`);
+      // Data source and BigQuery failures keep their own error codes
+      if (error instanceof ReportingError) {
+        throw error;
+      }
+      throw new ReportGenerationError(`Valuation Rollforward generation failed: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+  /**
+   * Dry-run the report's query to see what it would scan before running it
+   */
+  async estimate(
+    parameters: ReportParameters,
+    groupBy?: ('asset' | 'subsidiary' | 'inventory' | 'wallet')[],
+    filters?: {
+      assets?: string[];
+      subsidiaries?: string[];
+      minValue?: number;
+    },
+    options: ReportExecutionOptions = {}
+  ): Promise<QueryCostEstimate> {
+    if (!parameters.startDate || !parameters.endDate) {
+      throw new InvalidParamsError('Valuation Rollforward requires both startDate and endDate parameters');
+    }
+
+    return this.bigQueryClient.estimateReportQuery(
+      this.buildRollforwardSQL(parameters, groupBy, filters),
+      parameters,
+      options
+    );
+  }
+
   // ========================================================================
   // SQL QUERY BUILDING - Complex Multi-CTE Structure
   // ========================================================================
@@ -203,258 +275,338 @@ export class ValuationRollforwardGenerator {
     parameters: ReportParameters, 
     groupBy?: ('asset' | 'subsidiary' | 'inventory' | 'wallet')[],
     filters?: any
-  ): string {
+  ): ParameterizedQuery {
     
-    const groupByColumns = this.buildGroupByColumns(groupBy);
-    const whereConditions = this.buildWhereConditions(parameters, filters);
-
-    return `
-      WITH isAvgCost AS (
-        SELECT (COUNTIF(undatedGainLoss IS NOT NULL) > 0 OR COUNTIF(lotId IS NULL) > 0) AS isAvgCost
-        FROM \`{ACTIONS_REPORT_TABLE}\`
-        WHERE runId = @runId 
-          AND timestampSEC <= UNIX_SECONDS(TIMESTAMP(DATE(@endDate))) 
-          AND action = 'sell' 
-          AND status = 'complete'
-      ),
-      prepared_gainloss_table AS (
-        SELECT gla.*, 
-          CASE WHEN isc.isAvgCost THEN inventory ELSE gla.lotID END AS definedkey,
-          COALESCE(subsidiaryId, 'DEFAULT') as original_subsidiary,
-          COALESCE(inventory, 'DEFAULT') as original_inventory,
-          COALESCE(wallet, 'DEFAULT') as original_wallet
-        FROM \`{ACTIONS_REPORT_TABLE}\` gla
-        CROSS JOIN isAvgCost isc
-        WHERE runId = @runId ${filters ? this.buildAssetFilter(filters) : ''}
-      ),
-      startingbalance AS (
-        -- Calculate starting balances before period
-        SELECT 
-          asset,
-          ${groupByColumns.select}
-          SUM(COALESCE(CAST(costBasisAcquired AS bignumeric), 0)) - SUM(COALESCE(CAST(originalCostBasisDisposed AS bignumeric), 0)) AS starting_cost_basis,
-          SUM(COALESCE(CAST(impairmentExpense AS bignumeric), 0)) - SUM(COALESCE(CAST(impairmentExpenseDisposed AS bignumeric), 0)) AS starting_impairment_in_inventory,
-          SUM(COALESCE(CAST(fairValueAdjustmentUpward AS bignumeric), 0)) - SUM(COALESCE(CAST(fairValueAdjustmentDownward AS bignumeric), 0)) AS starting_unrealized
-        FROM prepared_gainloss_table
-        WHERE timestampSEC < UNIX_SECONDS(TIMESTAMP(DATE(@startDate)))
-        GROUP BY asset${groupByColumns.groupBy}
-      ),
-      increases AS (
-        -- Calculate period acquisitions and adjustments
-        SELECT 
-          asset,
-          ${groupByColumns.select}
-          SUM(COALESCE(CAST(costBasisAcquired AS bignumeric), 0)) AS cost_basis_acquired,
-          SUM(COALESCE(CAST(impairmentExpense AS bignumeric), 0)) AS impairment_expense,
-          SUM(COALESCE(CAST(fairValueAdjustmentUpward AS bignumeric), 0)) AS gaap_fair_value_adjust_up,
-          SUM(COALESCE(CAST(revaluationAdjustmentUpward AS bignumeric), 0)) AS IFRS_revaluation_adjust_up
-        FROM prepared_gainloss_table  
-        WHERE timestampSEC >= UNIX_SECONDS(TIMESTAMP(DATE(@startDate))) 
-          AND timestampSEC <= UNIX_SECONDS(TIMESTAMP(DATE(@endDate)))
-        GROUP BY asset${groupByColumns.groupBy}
-      ),
-      decreases AS (
-        -- Calculate period dispositions and realized gains
-        SELECT 
-          asset,
-          ${groupByColumns.select}
-          SUM(COALESCE(CAST(originalCostBasisDisposed AS bignumeric), 0)) AS cost_basis_disposed,
-          SUM(COALESCE(CAST(impairmentExpenseDisposed AS bignumeric), 0)) AS impairment_disposed,
-          SUM(COALESCE(CAST(impairmentReversal AS bignumeric), 0)) AS impairment_reversal,
-          SUM(COALESCE(CAST(fairValueAdjustmentDownward AS bignumeric), 0)) AS gaap_fair_value_adjust_down,
-          SUM(COALESCE(CAST(revaluationAdjustmentDownward AS bignumeric), 0)) AS IFRS_revaluation_adjust_down,
-          SUM(COALESCE(CAST(shortTermGainLoss AS bignumeric), 0)) AS period_shortterm_gainloss,
-          SUM(COALESCE(CAST(LongTermGainLoss AS bignumeric), 0)) AS period_longterm_gainloss,
-          SUM(COALESCE(CAST(undatedGainLoss AS bignumeric), 0)) AS period_undated_gainloss
-        FROM prepared_gainloss_table
-        WHERE timestampSEC >= UNIX_SECONDS(TIMESTAMP(DATE(@startDate))) 
-          AND timestampSEC <= UNIX_SECONDS(TIMESTAMP(DATE(@endDate)))
-        GROUP BY asset${groupByColumns.groupBy}
-      ),
-      endingbalance AS (
-        -- Calculate ending balances after period
-        SELECT 
-          asset,
-          ${groupByColumns.select}
-          SUM(COALESCE(CAST(fairValueAdjustmentUpward AS bignumeric), 0)) - SUM(COALESCE(CAST(fairValueAdjustmentDownward AS bignumeric), 0)) AS ending_unrealized
-        FROM prepared_gainloss_table
-        WHERE timestampSEC <= UNIX_SECONDS(TIMESTAMP(DATE(@endDate)))
-        GROUP BY asset${groupByColumns.groupBy}
+    const params = new QueryParameters();
+    // Every period CTE is keyed by asset plus the requested dimensions
+    const keys = ['asset', ...this.buildGroupByColumns(groupBy)];
+    const startSEC = 'UNIX_SECONDS(TIMESTAMP(DATE(@startDate)))';
+    const endSEC = 'UNIX_SECONDS(TIMESTAMP(DATE(@endDate)))';
+    const net = (added: string, removed: string) => `${sum(numeric(added))} - ${sum(numeric(removed))}`;
+    const totals = (columns: Record<string, string>) =>
+      Object.entries(columns).map(([alias, column]) => selectItem(sum(numeric(column)), alias));
+    const periodBalance = () => new SelectQuery().from('prepared_gainloss_table');
+    const runScope = ['runId = @runId', parameters.orgId ? 'orgId = @orgId' : undefined];
+
+    // Average-cost runs key disposals by inventory instead of lot
+    const isAvgCost = new SelectQuery()
+      .select(selectItem('(COUNTIF(undatedGainLoss IS NOT NULL) > 0 OR COUNTIF(lotId IS NULL) > 0)', 'isAvgCost'))
+      .from(ACTIONS_REPORT_TABLE)
+      .where(...runScope, `timestampSEC <= ${endSEC}`, `action = 'sell'`, `status = 'complete'`);
+
+    const preparedGainLoss = new SelectQuery()
+      .select(
+        'gla.*',
+        selectItem('CASE WHEN isc.isAvgCost THEN inventory ELSE gla.lotID END', 'definedkey'),
+        selectItem(coalesce('subsidiaryId', `'DEFAULT'`), 'original_subsidiary'),
+        selectItem(coalesce('inventory', `'DEFAULT'`), 'original_inventory'),
+        selectItem(coalesce('wallet', `'DEFAULT'`), 'original_wallet')
       )
-      SELECT 
-        COALESCE(sb.asset, inc.asset, dec.asset, eb.asset) as asset,
-        ${this.buildCoalesceGroupBy(groupByColumns)}
-        
-        -- Cost Basis Movement (EXACT ORDER)
-        COALESCE(sb.starting_cost_basis, 0) AS starting_cost_basis,
-        COALESCE(inc.cost_basis_acquired, 0) AS cost_basis_acquired,
-        COALESCE(dec.cost_basis_disposed, 0) AS cost_basis_disposed,
-        (COALESCE(sb.starting_cost_basis, 0) + COALESCE(inc.cost_basis_acquired, 0) - COALESCE(dec.cost_basis_disposed, 0)) AS ending_cost_basis,
-        
-        -- Impairment Movement
-        COALESCE(sb.starting_impairment_in_inventory, 0) AS starting_impairment_in_inventory,
-        COALESCE(inc.impairment_expense, 0) AS impairment_expense,
-        COALESCE(dec.impairment_disposed, 0) AS impairment_disposed,
-        COALESCE(dec.impairment_reversal, 0) AS impairment_reversal,
-        (COALESCE(sb.starting_impairment_in_inventory, 0) + COALESCE(inc.impairment_expense, 0) - COALESCE(dec.impairment_disposed, 0) - COALESCE(dec.impairment_reversal, 0)) AS ending_impairment_in_inventory,
-        
-        -- Carrying Value (Cost Basis - Impairments)
-        ((COALESCE(sb.starting_cost_basis, 0) + COALESCE(inc.cost_basis_acquired, 0) - COALESCE(dec.cost_basis_disposed, 0)) - 
-         (COALESCE(sb.starting_impairment_in_inventory, 0) + COALESCE(inc.impairment_expense, 0) - COALESCE(dec.impairment_disposed, 0) - COALESCE(dec.impairment_reversal, 0))) AS ending_carrying_value,
-        
-        -- Unrealized Adjustments
-        COALESCE(sb.starting_unrealized, 0) AS starting_unrealized,
-        COALESCE(inc.gaap_fair_value_adjust_up, 0) AS gaap_fair_value_adjust_up,
-        COALESCE(dec.gaap_fair_value_adjust_down, 0) AS gaap_fair_value_adjust_down,
-        COALESCE(inc.IFRS_revaluation_adjust_up, 0) AS IFRS_revaluation_adjust_up,
-        COALESCE(dec.IFRS_revaluation_adjust_down, 0) AS IFRS_revaluation_adjust_down,
-        COALESCE(eb.ending_unrealized, 0) AS ending_unrealized,
-        
-        -- Market Value (Carrying Value + Unrealized Adjustments)
-        (((COALESCE(sb.starting_cost_basis, 0) + COALESCE(inc.cost_basis_acquired, 0) - COALESCE(dec.cost_basis_disposed, 0)) - 
-          (COALESCE(sb.starting_impairment_in_inventory, 0) + COALESCE(inc.impairment_expense, 0) - COALESCE(dec.impairment_disposed, 0) - COALESCE(dec.impairment_reversal, 0))) + 
-         COALESCE(eb.ending_unrealized, 0)) AS ending_market_value,
-        
-        -- Period Realized Gains/Losses
-        COALESCE(dec.period_shortterm_gainloss, 0) AS period_shortterm_gainloss,
-        COALESCE(dec.period_longterm_gainloss, 0) AS period_longterm_gainloss,
-        COALESCE(dec.period_undated_gainloss, 0) AS period_undated_gainloss
-        
-      FROM startingbalance sb
-      FULL OUTER JOIN increases inc ON sb.asset = inc.asset ${groupByColumns.joins}
-      FULL OUTER JOIN decreases dec ON COALESCE(sb.asset, inc.asset) = dec.asset ${groupByColumns.joins}
-      FULL OUTER JOIN endingbalance eb ON COALESCE(sb.asset, inc.asset, dec.asset) = eb.asset ${groupByColumns.joins}
-      WHERE COALESCE(sb.asset, inc.asset, dec.asset, eb.asset) IS NOT NULL
-      ORDER BY asset ASC${groupByColumns.orderBy}
-    `.trim();
-  }
+      .from(ACTIONS_REPORT_TABLE, 'gla')
+      .join({ type: 'CROSS', source: 'isAvgCost', alias: 'isc' })
+      .where(...runScope, ...this.buildFilterConditions(params, filters));
+
+    // Balances before the period
+    const startingBalance = periodBalance()
+      .select(
+        ...keys,
+        selectItem(net('costBasisAcquired', 'originalCostBasisDisposed'), 'starting_cost_basis'),
+        selectItem(net('impairmentExpense', 'impairmentExpenseDisposed'), 'starting_impairment_in_inventory'),
+        selectItem(net('fairValueAdjustmentUpward', 'fairValueAdjustmentDownward'), 'starting_unrealized')
+      )
+      .where(`timestampSEC < ${startSEC}`)
+      .groupBy(...keys);
+
+    // Period acquisitions and adjustments
+    const increases = periodBalance()
+      .select(
+        ...keys,
+        ...totals({
+          cost_basis_acquired: 'costBasisAcquired',
+          impairment_expense: 'impairmentExpense',
+          gaap_fair_value_adjust_up: 'fairValueAdjustmentUpward',
+          IFRS_revaluation_adjust_up: 'revaluationAdjustmentUpward'
+        })
+      )
+      .where(`timestampSEC >= ${startSEC}`, `timestampSEC <= ${endSEC}`)
+      .groupBy(...keys);
+
+    // Period dispositions and realized gains
+    const decreases = periodBalance()
+      .select(
+        ...keys,
+        ...totals({
+          cost_basis_disposed: 'originalCostBasisDisposed',
+          impairment_disposed: 'impairmentExpenseDisposed',
+          impairment_reversal: 'impairmentReversal',
+          gaap_fair_value_adjust_down: 'fairValueAdjustmentDownward',
+          IFRS_revaluation_adjust_down: 'revaluationAdjustmentDownward',
+          period_shortterm_gainloss: 'shortTermGainLoss',
+          period_longterm_gainloss: 'LongTermGainLoss',
+          period_undated_gainloss: 'undatedGainLoss'
+        })
+      )
+      .where(`timestampSEC >= ${startSEC}`, `timestampSEC <= ${endSEC}`)
+      .groupBy(...keys);
+
+    // Balances at the end of the period
+    const endingBalance = periodBalance()
+      .select(...keys, selectItem(net('fairValueAdjustmentUpward', 'fairValueAdjustmentDownward'), 'ending_unrealized'))
+      .where(`timestampSEC <= ${endSEC}`)
+      .groupBy(...keys);
+
+    const value = (alias: string, column: string) => coalesce(`${alias}.${column}`, '0');
+    const endingCostBasis = `(${value('sb', 'starting_cost_basis')} + ${value('inc', 'cost_basis_acquired')} - ${value('dec', 'cost_basis_disposed')})`;
+    const endingImpairment = `(${value('sb', 'starting_impairment_in_inventory')} + ${value('inc', 'impairment_expense')} - ${value('dec', 'impairment_disposed')} - ${value('dec', 'impairment_reversal')})`;
+    const endingCarryingValue = `(${endingCostBasis} - ${endingImpairment})`;
+
+    // A row from any period CTE appears once; later CTEs join on whichever
+    // earlier side has the key, on every key column
+    const sides = ['sb', 'inc', 'dec', 'eb'];
+    const keyOf = (aliases: string[], key: string) => (aliases.length > 1 ? coalesce(...aliases.map(alias => `${alias}.${key}`)) : `${aliases[0]}.${key}`);
+    const joinOn = (alias: string) => {
+      const earlier = sides.slice(0, sides.indexOf(alias));
+      return and(...keys.map(key => `${keyOf(earlier, key)} = ${alias}.${key}`));
+    };
 
-  private buildGroupByColumns(groupBy?: ('asset' | 'subsidiary' | 'inventory' | 'wallet')[]): {
-    select: string;
-    groupBy: string;
-    joins: string;
-    orderBy: string;
-  } {
-    if (!groupBy || groupBy.length === 0) {
-      return {
-        select: '',
-        groupBy: '',
-        joins: '',
-        orderBy: ''
-      };
-    }
+    const sql = new SelectQuery()
+      .with('isAvgCost', isAvgCost)
+      .with('prepared_gainloss_table', preparedGainLoss)
+      .with('startingbalance', startingBalance)
+      .with('increases', increases)
+      .with('decreases', decreases)
+      .with('endingbalance', endingBalance)
+      .select(
+        ...keys.map(key => selectItem(keyOf(sides, key), key)),
+
+        // Cost Basis Movement (EXACT ORDER)
+        selectItem(value('sb', 'starting_cost_basis'), 'starting_cost_basis'),
+        selectItem(value('inc', 'cost_basis_acquired'), 'cost_basis_acquired'),
+        selectItem(value('dec', 'cost_basis_disposed'), 'cost_basis_disposed'),
+        selectItem(endingCostBasis, 'ending_cost_basis'),
 
+        // Impairment Movement
+        selectItem(value('sb', 'starting_impairment_in_inventory'), 'starting_impairment_in_inventory'),
+        selectItem(value('inc', 'impairment_expense'), 'impairment_expense'),
+        selectItem(value('dec', 'impairment_disposed'), 'impairment_disposed'),
+        selectItem(value('dec', 'impairment_reversal'), 'impairment_reversal'),
+        selectItem(endingImpairment, 'ending_impairment_in_inventory'),
+
+        // Carrying Value (Cost Basis - Impairments)
+        selectItem(endingCarryingValue, 'ending_carrying_value'),
+
+        // Unrealized Adjustments
+        selectItem(value('sb', 'starting_unrealized'), 'starting_unrealized'),
+        selectItem(value('inc', 'gaap_fair_value_adjust_up'), 'gaap_fair_value_adjust_up'),
+        selectItem(value('dec', 'gaap_fair_value_adjust_down'), 'gaap_fair_value_adjust_down'),
+        selectItem(value('inc', 'IFRS_revaluation_adjust_up'), 'IFRS_revaluation_adjust_up'),
+        selectItem(value('dec', 'IFRS_revaluation_adjust_down'), 'IFRS_revaluation_adjust_down'),
+        selectItem(value('eb', 'ending_unrealized'), 'ending_unrealized'),
+
+        // Market Value (Carrying Value + Unrealized Adjustments)
+        selectItem(`(${endingCarryingValue} + ${value('eb', 'ending_unrealized')})`, 'ending_market_value'),
+
+        // Period Realized Gains/Losses
+        selectItem(value('dec', 'period_shortterm_gainloss'), 'period_shortterm_gainloss'),
+        selectItem(value('dec', 'period_longterm_gainloss'), 'period_longterm_gainloss'),
+        selectItem(value('dec', 'period_undated_gainloss'), 'period_undated_gainloss')
+      )
+      .from('startingbalance', 'sb')
+      .join({ type: 'FULL OUTER', source: 'increases', alias: 'inc', on: joinOn('inc') })
+      .join({ type: 'FULL OUTER', source: 'decreases', alias: 'dec', on: joinOn('dec') })
+      .join({ type: 'FULL OUTER', source: 'endingbalance', alias: 'eb', on: joinOn('eb') })
+      .where(`${keyOf(sides, 'asset')} IS NOT NULL`);
+
+    keys.forEach(key => sql.orderBy(key, 'ASC'));
+
+    return { sql: sql.toSQL(), params };
+  }
+
+  /**
+   * Period CTE key columns for the requested dimensions, beyond asset
+   */
+  private buildGroupByColumns(groupBy?: ('asset' | 'subsidiary' | 'inventory' | 'wallet')[]): string[] {
     const columns: string[] = [];
-    const joins: string[] = [];
-    const orderBy: string[] = [];
 
-    groupBy.forEach(dimension => {
+    groupBy?.forEach(dimension => {
       switch (dimension) {
         case 'subsidiary':
           columns.push('original_subsidiary');
-          joins.push('AND sb.original_subsidiary = inc.original_subsidiary');
-          orderBy.push('original_subsidiary ASC');
           break;
         case 'inventory':
           columns.push('original_inventory');
-          joins.push('AND sb.original_inventory = inc.original_inventory');
-          orderBy.push('original_inventory ASC');
           break;
         case 'wallet':
           columns.push('original_wallet');
-          joins.push('AND sb.original_wallet = inc.original_wallet');
-          orderBy.push('original_wallet ASC');
           break;
       }
     });
 
-    return {
-      select: columns.length > 0 ? columns.join(', ') + ',' : '',
-      groupBy: columns.length > 0 ? ', ' + columns.join(', ') : '',
-      joins: joins.length > 0 ? ' ' + joins.join(' ') : '',
-      orderBy: orderBy.length > 0 ? ', ' + orderBy.join(', ') : ''
-    };
+    return columns;
   }
 
-  private buildCoalesceGroupBy(groupByColumns: any): string {
-    if (!groupByColumns.select) return '';
+  private buildFilterConditions(params: QueryParameters, filters: any): SqlExpression[] {
+    const conditions: SqlExpression[] = [];
 
-    const columns = groupByColumns.select.replace(/,$/, '').split(', ');
-    return columns.map((col: string) => 
-      `COALESCE(sb.${col}, inc.${col}, dec.${col}, eb.${col}) as ${col},`
-    ).join('\n        ');
-  }
-
-  private buildWhereConditions(parameters: ReportParameters, filters?: any): string {
-    const conditions: string[] = [];
+    if (filters?.assets && filters.assets.length > 0) {
+      conditions.push(`asset IN UNNEST(${params.stringArray('assets', filters.assets)})`);
+    }
 
-    conditions.push(`runId = @runId`);
-    
-    if (parameters.orgId) {
-      conditions.push(`orgId = @orgId`);
+    if (filters?.subsidiaries && filters.subsidiaries.length > 0) {
+      conditions.push(`COALESCE(subsidiaryId, 'DEFAULT') IN UNNEST(${params.stringArray('subsidiaries', filters.subsidiaries)})`);
     }
 
-    return conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    return conditions;
   }
 
-  private buildAssetFilter(filters: any): string {
-    if (filters.assets && filters.assets.length > 0) {
-      const assetList = filters.assets.map((asset: string) => `'${asset}'`).join(', ');
-      return ` AND asset IN (${assetList})`;
-    }
-    return '';
+  // ========================================================================
+  // LOCAL DATA SOURCE AGGREGATION
+  // ========================================================================
+
+  /**
+   * In-memory equivalent of buildRollforwardSQL for local file data sources
+   */
+  private aggregateLocalRecords(
+    parameters: ReportParameters,
+    groupBy?: ('asset' | 'subsidiary' | 'inventory' | 'wallet')[],
+    filters?: any
+  ): any[] {
+    // UNIX_SECONDS(TIMESTAMP(DATE(@date))) is midnight UTC
+    const startSEC = Math.floor(Date.parse(`${parameters.startDate}T00:00:00Z`) / 1000);
+    const endSEC = Math.floor(Date.parse(`${parameters.endDate}T00:00:00Z`) / 1000);
+    const dimensions = this.buildGroupByColumns(groupBy);
+
+    const records = this.bigQueryClient.getLocalRecords(parameters).filter(record => {
+      if (filters?.assets?.length && !filters.assets.includes(record.asset)) return false;
+      if (filters?.subsidiaries?.length && !filters.subsidiaries.includes(record.subsidiaryId || 'DEFAULT')) return false;
+      return true;
+    });
+
+    const rows = new Map<string, any>();
+    records.forEach(record => {
+      const dimensionValues: Record<string, string> = {
+        original_subsidiary: record.subsidiaryId || 'DEFAULT',
+        original_inventory: record.inventory || 'DEFAULT',
+        original_wallet: record.wallet || 'DEFAULT'
+      };
+      const key = [record.asset, ...dimensions.map(column => dimensionValues[column])].join('|');
+
+      if (!rows.has(key)) {
+        const row: any = { asset: record.asset };
+        dimensions.forEach(column => { row[column] = dimensionValues[column]; });
+        [
+          'starting_cost_basis', 'starting_impairment_in_inventory', 'starting_unrealized',
+          'cost_basis_acquired', 'impairment_expense', 'gaap_fair_value_adjust_up', 'IFRS_revaluation_adjust_up',
+          'cost_basis_disposed', 'impairment_disposed', 'impairment_reversal', 'gaap_fair_value_adjust_down',
+          'IFRS_revaluation_adjust_down', 'period_shortterm_gainloss', 'period_longterm_gainloss',
+          'period_undated_gainloss', 'ending_unrealized'
+        ].forEach(field => { row[field] = 0; });
+        rows.set(key, row);
+      }
+
+      const row = rows.get(key);
+      const timestampSEC = Number(record.timestampSEC);
+      const fairValueNet = this.parseNumeric(record.fairValueAdjustmentUpward) - this.parseNumeric(record.fairValueAdjustmentDownward);
+
+      if (timestampSEC < startSEC) {
+        row.starting_cost_basis += this.parseNumeric(record.costBasisAcquired) - this.parseNumeric(record.originalCostBasisDisposed);
+        row.starting_impairment_in_inventory += this.parseNumeric(record.impairmentExpense) - this.parseNumeric(record.impairmentExpenseDisposed);
+        row.starting_unrealized += fairValueNet;
+      }
+
+      if (timestampSEC >= startSEC && timestampSEC <= endSEC) {
+        row.cost_basis_acquired += this.parseNumeric(record.costBasisAcquired);
+        row.impairment_expense += this.parseNumeric(record.impairmentExpense);
+        row.gaap_fair_value_adjust_up += this.parseNumeric(record.fairValueAdjustmentUpward);
+        row.IFRS_revaluation_adjust_up += this.parseNumeric(record.revaluationAdjustmentUpward);
+        row.cost_basis_disposed += this.parseNumeric(record.originalCostBasisDisposed);
+        row.impairment_disposed += this.parseNumeric(record.impairmentExpenseDisposed);
+        row.impairment_reversal += this.parseNumeric(record.impairmentReversal);
+        row.gaap_fair_value_adjust_down += this.parseNumeric(record.fairValueAdjustmentDownward);
+        row.IFRS_revaluation_adjust_down += this.parseNumeric(record.revaluationAdjustmentDownward);
+        row.period_shortterm_gainloss += this.parseNumeric(record.shortTermGainLoss);
+        row.period_longterm_gainloss += this.parseNumeric(record.longTermGainLoss);
+        row.period_undated_gainloss += this.parseNumeric(record.undatedGainLoss);
+      }
+
+      if (timestampSEC <= endSEC) {
+        row.ending_unrealized += fairValueNet;
+      }
+    });
+
+    return Array.from(rows.values())
+      .map(row => {
+        const endingCostBasis = row.starting_cost_basis + row.cost_basis_acquired - row.cost_basis_disposed;
+        const endingImpairment = row.starting_impairment_in_inventory + row.impairment_expense - row.impairment_disposed - row.impairment_reversal;
+        const endingCarryingValue = endingCostBasis - endingImpairment;
+        return {
+          ...row,
+          ending_cost_basis: endingCostBasis,
+          ending_impairment_in_inventory: endingImpairment,
+          ending_carrying_value: endingCarryingValue,
+          ending_market_value: endingCarryingValue + row.ending_unrealized
+        };
+      })
+      .sort((a, b) => {
+        for (const column of ['asset', ...dimensions]) {
+          const comparison = String(a[column]).localeCompare(String(b[column]));
+          if (comparison !== 0) return comparison;
+        }
+        return 0;
+      });
   }
 
   // ========================================================================
   // RESULT TRANSFORMATION AND VALIDATION
   // ========================================================================
 
-  private transformResults(rawResults: any[]): ValuationRollforwardRecord[] {
-    return rawResults.map(row => {
-      const record: ValuationRollforwardRecord = {
-        asset: row.asset || '',
-        original_subsidiary: row.original_subsidiary,
-        original_inventory: row.original_inventory,
-        original_wallet: row.original_wallet,
-        
-        // Cost Basis Movement
-        starting_cost_basis: this.parseNumeric(row.starting_cost_basis),
-        cost_basis_acquired: this.parseNumeric(row.cost_basis_acquired),
-        cost_basis_disposed: this.parseNumeric(row.cost_basis_disposed),
-        ending_cost_basis: this.parseNumeric(row.ending_cost_basis),
-        
-        // Impairment Movement
-        starting_impairment_in_inventory: this.parseNumeric(row.starting_impairment_in_inventory),
-        impairment_expense: this.parseNumeric(row.impairment_expense),
-        impairment_disposed: this.parseNumeric(row.impairment_disposed),
-        impairment_reversal: this.parseNumeric(row.impairment_reversal),
-        ending_impairment_in_inventory: this.parseNumeric(row.ending_impairment_in_inventory),
-        
-        // Carrying Value
-        ending_carrying_value: this.parseNumeric(row.ending_carrying_value),
-        
-        // Unrealized Adjustments
-        starting_unrealized: this.parseNumeric(row.starting_unrealized),
-        gaap_fair_value_adjust_up: this.parseNumeric(row.gaap_fair_value_adjust_up),
-        gaap_fair_value_adjust_down: this.parseNumeric(row.gaap_fair_value_adjust_down),
-        IFRS_revaluation_adjust_up: this.parseNumeric(row.IFRS_revaluation_adjust_up),
-        IFRS_revaluation_adjust_down: this.parseNumeric(row.IFRS_revaluation_adjust_down),
-        ending_unrealized: this.parseNumeric(row.ending_unrealized),
-        
-        // Market Value
-        ending_market_value: this.parseNumeric(row.ending_market_value),
-        
-        // Period Realized Gains/Losses
-        period_shortterm_gainloss: this.parseNumeric(row.period_shortterm_gainloss),
-        period_longterm_gainloss: this.parseNumeric(row.period_longterm_gainloss),
-        period_undated_gainloss: this.parseNumeric(row.period_undated_gainloss)
-      };
+  /**
+   * Convert and validate one result row; runs as each page of rows arrives
+   */
+  private transformRow(row: any): ValuationRollforwardRecord {
+    const record: ValuationRollforwardRecord = {
+      asset: row.asset || '',
+      original_subsidiary: row.original_subsidiary,
+      original_inventory: row.original_inventory,
+      original_wallet: row.original_wallet,
+      
+      // Cost Basis Movement
+      starting_cost_basis: this.parseNumeric(row.starting_cost_basis),
+      cost_basis_acquired: this.parseNumeric(row.cost_basis_acquired),
+      cost_basis_disposed: this.parseNumeric(row.cost_basis_disposed),
+      ending_cost_basis: this.parseNumeric(row.ending_cost_basis),
+      
+      // Impairment Movement
+      starting_impairment_in_inventory: this.parseNumeric(row.starting_impairment_in_inventory),
+      impairment_expense: this.parseNumeric(row.impairment_expense),
+      impairment_disposed: this.parseNumeric(row.impairment_disposed),
+      impairment_reversal: this.parseNumeric(row.impairment_reversal),
+      ending_impairment_in_inventory: this.parseNumeric(row.ending_impairment_in_inventory),
+      
+      // Carrying Value
+      ending_carrying_value: this.parseNumeric(row.ending_carrying_value),
+      
+      // Unrealized Adjustments
+      starting_unrealized: this.parseNumeric(row.starting_unrealized),
+      gaap_fair_value_adjust_up: this.parseNumeric(row.gaap_fair_value_adjust_up),
+      gaap_fair_value_adjust_down: this.parseNumeric(row.gaap_fair_value_adjust_down),
+      IFRS_revaluation_adjust_up: this.parseNumeric(row.IFRS_revaluation_adjust_up),
+      IFRS_revaluation_adjust_down: this.parseNumeric(row.IFRS_revaluation_adjust_down),
+      ending_unrealized: this.parseNumeric(row.ending_unrealized),
+      
+      // Market Value
+      ending_market_value: this.parseNumeric(row.ending_market_value),
+      
+      // Period Realized Gains/Losses
+      period_shortterm_gainloss: this.parseNumeric(row.period_shortterm_gainloss),
+      period_longterm_gainloss: this.parseNumeric(row.period_longterm_gainloss),
+      period_undated_gainloss: this.parseNumeric(row.period_undated_gainloss)
+    };
 
-      // Validate the rollforward math
-      this.validateRollforwardRecord(record);
+    // Validate the rollforward math
+    this.validateRollforwardRecord(record);
 
-      return record;
-    });
+    return record;
   }
 
   private parseNumeric(value: any): number {
@@ -473,7 +625,7 @@ export class ValuationRollforwardGenerator {
     
     if (Math.abs(record.ending_cost_basis - calculatedEndingCostBasis) > tolerance) {
       console.warn(`Warning: Cost basis rollforward math mismatch for ${record.asset}: ` +
-        `calculated ${calculatedEndingCostBasis.toFixed(2)} vs recorded ${record.ending_cost_basis.toFixed(2)}`);
+        `calculated ${calculatedEndingCostBasis.toFixed(this.precision.currency)} vs recorded ${record.ending_cost_basis.toFixed(this.precision.currency)}`);
     }
 
     // Validate impairment rollforward math
@@ -481,7 +633,7 @@ export class ValuationRollforwardGenerator {
     
     if (Math.abs(record.ending_impairment_in_inventory - calculatedEndingImpairment) > tolerance) {
       console.warn(`Warning: Impairment rollforward math mismatch for ${record.asset}: ` +
-        `calculated ${calculatedEndingImpairment.toFixed(2)} vs recorded ${record.ending_impairment_in_inventory.toFixed(2)}`);
+        `calculated ${calculatedEndingImpairment.toFixed(this.precision.currency)} vs recorded ${record.ending_impairment_in_inventory.toFixed(this.precision.currency)}`);
     }
 
     // Basic reasonableness checks
@@ -575,7 +727,8 @@ export class ValuationRollforwardGenerator {
   }
 
   /**
-   * Format rollforward data for presentation
+   * Format rollforward totals and the largest positions for presentation;
+   * every record is in the report's paged records
    */
   formatForPresentation(records: ValuationRollforwardRecord[]): string {
     let output = '📈 **Valuation Rollforward Report**\n\n';
@@ -583,42 +736,65 @@ export class ValuationRollforwardGenerator {
     const summary = this.generateSummary(records);
     
     output += `**Portfolio Summary:**\n`;
-    output += `• Starting Portfolio Value: $${summary.portfolioMovement.startingPortfolioValue.toLocaleString(undefined, { minimumFractionDigits: 2 })}\n`;
-    output += `• Ending Portfolio Value: $${summary.portfolioMovement.endingPortfolioValue.toLocaleString(undefined, { minimumFractionDigits: 2 })}\n`;
-    output += `• Portfolio Change: $${summary.portfolioMovement.portfolioChange.toLocaleString(undefined, { minimumFractionDigits: 2 })} (${summary.portfolioMovement.percentageChange.toFixed(2)}%)\n\n`;
+    output += `• Starting Portfolio Value: $${summary.portfolioMovement.startingPortfolioValue.toLocaleString(undefined, this.currencyFormat)}\n`;
+    output += `• Ending Portfolio Value: $${summary.portfolioMovement.endingPortfolioValue.toLocaleString(undefined, this.currencyFormat)}\n`;
+    output += `• Portfolio Change: $${summary.portfolioMovement.portfolioChange.toLocaleString(undefined, this.currencyFormat)} (${summary.portfolioMovement.percentageChange.toFixed(this.precision.percentage)}%)\n\n`;
 
     output += `**Period Activity:**\n`;
-    output += `• Total Acquisitions: $${summary.periodActivity.totalAcquisitions.toLocaleString(undefined, { minimumFractionDigits: 2 })}\n`;
-    output += `• Total Disposals: $${summary.periodActivity.totalDisposals.toLocaleString(undefined, { minimumFractionDigits: 2 })}\n`;
-    output += `• Net Cost Basis Change: $${summary.periodActivity.netCostBasisChange.toLocaleString(undefined, { minimumFractionDigits: 2 })}\n`;
-    output += `• Total Realized Gain/Loss: $${summary.periodActivity.totalRealizedGainLoss.toLocaleString(undefined, { minimumFractionDigits: 2 })}\n`;
-    output += `  - Short-term: ${summary.periodActivity.shortTermGainLoss.toLocaleString(undefined, { minimumFractionDigits: 2 })}\n`;
-    output += `  - Long-term: ${summary.periodActivity.longTermGainLoss.toLocaleString(undefined, { minimumFractionDigits: 2 })}\n\n`;
+    output += `• Total Acquisitions: $${summary.periodActivity.totalAcquisitions.toLocaleString(undefined, this.currencyFormat)}\n`;
+    output += `• Total Disposals: $${summary.periodActivity.totalDisposals.toLocaleString(undefined, this.currencyFormat)}\n`;
+    output += `• Net Cost Basis Change: $${summary.periodActivity.netCostBasisChange.toLocaleString(undefined, this.currencyFormat)}\n`;
+    output += `• Total Realized Gain/Loss: $${summary.periodActivity.totalRealizedGainLoss.toLocaleString(undefined, this.currencyFormat)}\n`;
+    output += `  - Short-term: ${summary.periodActivity.shortTermGainLoss.toLocaleString(undefined, this.currencyFormat)}\n`;
+    output += `  - Long-term: ${summary.periodActivity.longTermGainLoss.toLocaleString(undefined, this.currencyFormat)}\n\n`;
 
     if (summary.impairmentActivity.totalImpairmentExpense > 0 || summary.impairmentActivity.totalImpairmentReversal > 0) {
       output += `**Impairment Activity:**\n`;
-      output += `• Impairment Expense: ${summary.impairmentActivity.totalImpairmentExpense.toLocaleString(undefined, { minimumFractionDigits: 2 })}\n`;
-      output += `• Impairment Reversal: ${summary.impairmentActivity.totalImpairmentReversal.toLocaleString(undefined, { minimumFractionDigits: 2 })}\n`;
-      output += `• Net Impairment Change: ${summary.impairmentActivity.netImpairmentChange.toLocaleString(undefined, { minimumFractionDigits: 2 })}\n\n`;
+      output += `• Impairment Expense: ${summary.impairmentActivity.totalImpairmentExpense.toLocaleString(undefined, this.currencyFormat)}\n`;
+      output += `• Impairment Reversal: ${summary.impairmentActivity.totalImpairmentReversal.toLocaleString(undefined, this.currencyFormat)}\n`;
+      output += `• Net Impairment Change: ${summary.impairmentActivity.netImpairmentChange.toLocaleString(undefined, this.currencyFormat)}\n\n`;
     }
 
-    output += `**Asset Breakdown (${records.length} assets):**\n`;
-    records.forEach(record => {
+    const largest = [...records]
+      .sort((a, b) => Math.abs(b.ending_carrying_value) - Math.abs(a.ending_carrying_value))
+      .slice(0, PRESENTATION_TOP_ITEMS);
+    output += `**Largest Positions (${largest.length} of ${records.length.toLocaleString()} by carrying value):**\n`;
+    largest.forEach(record => {
       const totalGainLoss = record.period_shortterm_gainloss + record.period_longterm_gainloss + record.period_undated_gainloss;
-      output += `\n**${record.asset}:**\n`;
-      output += `• Cost Basis: ${record.starting_cost_basis.toLocaleString(undefined, { minimumFractionDigits: 2 })} → ${record.ending_cost_basis.toLocaleString(undefined, { minimumFractionDigits: 2 })}\n`;
-      output += `• Carrying Value: ${record.ending_carrying_value.toLocaleString(undefined, { minimumFractionDigits: 2 })}\n`;
+      const dimensions = [record.original_subsidiary, record.original_inventory, record.original_wallet].filter(Boolean);
+      output += `\n**${[record.asset, ...dimensions].join(' / ')}:**\n`;
+      output += `• Cost Basis: ${record.starting_cost_basis.toLocaleString(undefined, this.currencyFormat)} → ${record.ending_cost_basis.toLocaleString(undefined, this.currencyFormat)}\n`;
+      output += `• Carrying Value: ${record.ending_carrying_value.toLocaleString(undefined, this.currencyFormat)}\n`;
       if (record.ending_market_value !== record.ending_carrying_value) {
-        output += `• Market Value: ${record.ending_market_value.toLocaleString(undefined, { minimumFractionDigits: 2 })}\n`;
+        output += `• Market Value: ${record.ending_market_value.toLocaleString(undefined, this.currencyFormat)}\n`;
       }
       if (totalGainLoss !== 0) {
-        output += `• Period Realized G/L: ${totalGainLoss.toLocaleString(undefined, { minimumFractionDigits: 2 })}\n`;
+        output += `• Period Realized G/L: ${totalGainLoss.toLocaleString(undefined, this.currencyFormat)}\n`;
       }
     });
 
     return output;
   }
 
+  /**
+   * Sort records by asset, then by the grouping dimensions in groupBy order, as
+   * the report SQL does; a stable order for paging
+   */
+  sortRecords(
+    records: ValuationRollforwardRecord[],
+    groupBy?: ('asset' | 'subsidiary' | 'inventory' | 'wallet')[]
+  ): ValuationRollforwardRecord[] {
+    const dimensions = this.buildGroupByColumns(groupBy);
+
+    return [...records].sort((a, b) => {
+      for (const column of ['asset', ...dimensions]) {
+        const comparison = String((a as any)[column] ?? '').localeCompare(String((b as any)[column] ?? ''));
+        if (comparison !== 0) return comparison;
+      }
+      return 0;
+    });
+  }
+
   // ========================================================================
   // FIELD METADATA ACCESS
   // ========================================================================
@@ -661,26 +837,26 @@ export class ValuationRollforwardGenerator {
         record.original_subsidiary || '',
         record.original_inventory || '',
         record.original_wallet || '',
-        record.starting_cost_basis.toFixed(2),
-        record.cost_basis_acquired.toFixed(2),
-        record.cost_basis_disposed.toFixed(2),
-        record.ending_cost_basis.toFixed(2),
-        record.starting_impairment_in_inventory.toFixed(2),
-        record.impairment_expense.toFixed(2),
-        record.impairment_disposed.toFixed(2),
-        record.impairment_reversal.toFixed(2),
-        record.ending_impairment_in_inventory.toFixed(2),
-        record.ending_carrying_value.toFixed(2),
-        record.starting_unrealized.toFixed(2),
-        record.gaap_fair_value_adjust_up.toFixed(2),
-        record.gaap_fair_value_adjust_down.toFixed(2),
-        record.IFRS_revaluation_adjust_up.toFixed(2),
-        record.IFRS_revaluation_adjust_down.toFixed(2),
-        record.ending_unrealized.toFixed(2),
-        record.ending_market_value.toFixed(2),
-        record.period_shortterm_gainloss.toFixed(2),
-        record.period_longterm_gainloss.toFixed(2),
-        record.period_undated_gainloss.toFixed(2)
+        record.starting_cost_basis.toFixed(this.precision.currency),
+        record.cost_basis_acquired.toFixed(this.precision.currency),
+        record.cost_basis_disposed.toFixed(this.precision.currency),
+        record.ending_cost_basis.toFixed(this.precision.currency),
+        record.starting_impairment_in_inventory.toFixed(this.precision.currency),
+        record.impairment_expense.toFixed(this.precision.currency),
+        record.impairment_disposed.toFixed(this.precision.currency),
+        record.impairment_reversal.toFixed(this.precision.currency),
+        record.ending_impairment_in_inventory.toFixed(this.precision.currency),
+        record.ending_carrying_value.toFixed(this.precision.currency),
+        record.starting_unrealized.toFixed(this.precision.currency),
+        record.gaap_fair_value_adjust_up.toFixed(this.precision.currency),
+        record.gaap_fair_value_adjust_down.toFixed(this.precision.currency),
+        record.IFRS_revaluation_adjust_up.toFixed(this.precision.currency),
+        record.IFRS_revaluation_adjust_down.toFixed(this.precision.currency),
+        record.ending_unrealized.toFixed(this.precision.currency),
+        record.ending_market_value.toFixed(this.precision.currency),
+        record.period_shortterm_gainloss.toFixed(this.precision.currency),
+        record.period_longterm_gainloss.toFixed(this.precision.currency),
+        record.period_undated_gainloss.toFixed(this.precision.currency)
       ];
 
       csvRows.push(row.join(','));
@@ -0,0 +1,109 @@
+/**
+ * Schema Resources - Field Dictionaries Published as MCP Resources
+ *
+ * Exposes the Actions Report metadata and each derivative report's field
+ * metadata under schema:// URIs so clients can ground natural language
+ * questions (columns, types, aggregatability, aliases) before calling a tool.
+ */
+
+import { InvalidParamsError } from '../errors.js';
+import { LotsReportGenerator } from '../reports/lots-report.js';
+import { ValuationRollforwardGenerator } from '../reports/valuation-rollforward.js';
+import { InventoryBalanceGenerator } from '../reports/inventory-balance.js';
+import { ACTIONS_REPORT_METADATA, FieldMetadata } from '../types/actions-report.js';
+
+export interface ResourceDescriptor {
+  uri: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+interface SchemaResource extends ResourceDescriptor {
+  // Tool that queries or produces this dataset
+  tool: string;
+  fields: () => FieldMetadata[];
+}
+
+const SCHEMA_RESOURCES: SchemaResource[] = [
+  {
+    uri: 'schema://actions',
+    name: 'Actions Report schema',
+    description: 'Source Actions Report columns queried by analyze_actions_data and every derivative report',
+    mimeType: 'application/json',
+    tool: 'analyze_actions_data',
+    fields: () => ACTIONS_REPORT_METADATA
+  },
+  {
+    uri: 'schema://lots',
+    name: 'Lots Report schema',
+    description: 'Lot-level positions with cost basis, carrying value and impairment tracking',
+    mimeType: 'application/json',
+    tool: 'generate_lots_report',
+    fields: () => LotsReportGenerator.getFieldMetadata()
+  },
+  {
+    uri: 'schema://rollforward',
+    name: 'Valuation Rollforward schema',
+    description: 'Period rollforward of cost basis, impairment and carrying value movements',
+    mimeType: 'application/json',
+    tool: 'generate_valuation_rollforward',
+    fields: () => ValuationRollforwardGenerator.getFieldMetadata()
+  },
+  {
+    uri: 'schema://inventory',
+    name: 'Inventory Balance schema',
+    description: 'Point-in-time inventory balances by asset, inventory and subsidiary',
+    mimeType: 'application/json',
+    tool: 'generate_inventory_balance',
+    fields: () => InventoryBalanceGenerator.getFieldMetadata()
+  }
+];
+
+export class SchemaResourceProvider {
+  /**
+   * resources/list payload
+   */
+  list(): ResourceDescriptor[] {
+    return SCHEMA_RESOURCES.map(({ uri, name, description, mimeType }) => ({ uri, name, description, mimeType }));
+  }
+
+  /**
+   * resources/read payload for a schema:// URI
+   */
+  read(uri: string): { contents: Array<{ uri: string; mimeType: string; text: string }> } {
+    const resource = SCHEMA_RESOURCES.find(candidate => candidate.uri === uri);
+    if (!resource) {
+      throw new InvalidParamsError(`Unknown resource: ${uri}`, {
+        available: SCHEMA_RESOURCES.map(candidate => candidate.uri)
+      });
+    }
+
+    const document = {
+      uri: resource.uri,
+      name: resource.name,
+      description: resource.description,
+      tool: resource.tool,
+      fields: resource.fields().map(field => ({
+        name: field.column,
+        description: field.description,
+        type: field.type,
+        category: field.category,
+        aggregatable: field.aggregatable,
+        filterable: field.filterable,
+        aliases: field.aliases,
+        commonQueries: field.common_queries
+      }))
+    };
+
+    return {
+      contents: [
+        {
+          uri: resource.uri,
+          mimeType: resource.mimeType,
+          text: JSON.stringify(document, null, 2)
+        }
+      ]
+    };
+  }
+}
@@ -1,29 +1,168 @@
-#!/usr/bin/env node
-
+import { randomUUID } from 'crypto';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import { z } from 'zod';
+import { ServerConfig } from './config.js';
+import { BigQueryClient } from './services/bigquery-client.js';
+import { QueryCache, createQueryCache } from './services/query-cache.js';
+import { QueryAuditEntry, QueryAuditLog } from './services/query-audit.js';
+import { QueryParser } from './services/query-parser.js';
+import { SqlPassthrough } from './services/sql-passthrough.js';
+import { LotsReportGenerator } from './reports/lots-report.js';
+import { ValuationRollforwardGenerator } from './reports/valuation-rollforward.js';
+import { InventoryBalanceGenerator } from './reports/inventory-balance.js';
+import { ToolContext, ToolRegistry, ToolResult } from './tools/tool-registry.js';
+import { SchemaResourceProvider } from './resources/schema-resources.js';
+import { WorkflowPromptProvider } from './prompts/workflow-prompts.js';
+import { ReportJobStore } from './jobs/report-jobs.js';
+import { Page, SnapshotStore, cursorScope, decodeCursor, paginate } from './tools/pagination.js';
+import {
+  AnalyzeActionsDataArgs,
+  ConfigureDataSourceArgs,
+  EstimateQueryCostArgs,
+  GetQueryAuditArgs,
+  GetReportJobArgs,
+  GetReportResultArgs,
+  InventoryBalanceArgs,
+  InventoryVarianceArgs,
+  LotsReportArgs,
+  ReportJobTool,
+  ReportToolCall,
+  RunSqlQueryArgs,
+  StartReportJobArgs,
+  ToolArgs,
+  ValidateColumnMappingArgs,
+  ValuationRollforwardArgs,
+  analyzeActionsDataSchema,
+  configureDataSourceSchema,
+  estimateQueryCostSchema,
+  getQueryAuditSchema,
+  getReportJobSchema,
+  getReportResultSchema,
+  inventoryBalanceSchema,
+  inventoryVarianceSchema,
+  lotsReportSchema,
+  runSqlQuerySchema,
+  startReportJobSchema,
+  testConnectionSchema,
+  validateColumnMappingSchema,
+  valuationRollforwardSchema
+} from './tools/tool-schemas.js';
+import {
+  BigQueryExecutionError,
+  ColumnMappingError,
+  DataSourceConfigurationError,
+  ErrorCodes,
+  InvalidParamsError,
+  QueryParsingError,
+  ReportingError,
+  RequestCancelledError,
+  toJsonRpcError,
+  withDataInMessage
+} from './errors.js';
+import {
+  BigQueryConfig,
+  DataSource,
+  QueryAuditContext,
+  QueryCostEstimate,
+  QueryResult,
+  REPORT_PROGRESS_STAGES,
+  ReportExecutionOptions,
+  ReportOutput,
+  ReportParameters,
+  ReportRowLimit
+} from './types/actions-report.js';
+
+// A session's data source and column mapping, and the report services bound to them
+interface ReportingSession {
+  bigQueryClient: BigQueryClient;
+  lotsReportGenerator: LotsReportGenerator;
+  rollforwardGenerator: ValuationRollforwardGenerator;
+  inventoryBalanceGenerator: InventoryBalanceGenerator;
+  sqlPassthrough: SqlPassthrough;
+}
 
 export class ReportingMCPServer {
-  private server: Server;
+  // One protocol server per connected transport (stdio, HTTP sessions); all share the services below
+  private protocolServers: Set<Server> = new Set();
+  // Each protocol server gets its own session; /rpc calls, which have none, share the default one
+  private sessions: Map<string, ReportingSession> = new Map();
+  private defaultSession: ReportingSession;
+  private queryCache: QueryCache;
+  private queryAudit: QueryAuditLog;
+  private queryParser: QueryParser;
+  private toolRegistry: ToolRegistry<ToolArgs> = new ToolRegistry();
+  private schemaResources: SchemaResourceProvider = new SchemaResourceProvider();
+  private workflowPrompts: WorkflowPromptProvider = new WorkflowPromptProvider();
+  private reportJobs: ReportJobStore;
+  // Directly run reports held while their pages are read
+  private reportPages: SnapshotStore<ReportOutput>;
+  private inFlightCalls: Set<Promise<ToolResult>> = new Set();
+  private shuttingDown = false;
+  private config: ServerConfig;
+
+  constructor(config: ServerConfig) {
+    this.config = config;
+    this.queryAudit = new QueryAuditLog(config.queryAudit);
+    // Cache keys carry the resolved table, so sessions on different sources never share entries
+    this.queryCache = createQueryCache(config.queryCache);
+    this.queryParser = new QueryParser();
+    this.defaultSession = this.createSession();
+    this.reportJobs = new ReportJobStore(config.reportJobs);
+    this.reportPages = new SnapshotStore(config.reportPages);
+
+    this.registerTools();
+  }
+
+  private createSession(): ReportingSession {
+    const bigQueryClient = new BigQueryClient(this.config, this.queryCache, this.queryAudit);
 
-  constructor() {
-    this.server = new Server(
+    return {
+      bigQueryClient,
+      lotsReportGenerator: new LotsReportGenerator(bigQueryClient, this.config.precision),
+      rollforwardGenerator: new ValuationRollforwardGenerator(bigQueryClient, this.config.precision),
+      inventoryBalanceGenerator: new InventoryBalanceGenerator(bigQueryClient, this.config.precision),
+      sqlPassthrough: new SqlPassthrough(bigQueryClient),
+    };
+  }
+
+  /**
+   * The session a tool call belongs to. Report jobs resolve it when they start,
+   * so a job keeps its session's data source after the session closes.
+   */
+  private session(context: ToolContext): ReportingSession {
+    if (!context.sessionId) {
+      return this.defaultSession;
+    }
+
+    const session = this.sessions.get(context.sessionId);
+    if (!session) {
+      throw new DataSourceConfigurationError('Session has closed; reconnect to configure a data source');
+    }
+    return session;
+  }
+
+  private createProtocolServer(sessionId: string): Server {
+    const server = new Server(
       {
-        name: 'reporting-mcp-server',
-        version: '1.0.0',
+        name: this.config.server.name,
+        version: this.config.server.version,
       },
       {
         capabilities: {
           tools: {},
+          resources: {},
+          prompts: {},
         },
       }
     );
 
-    this.setupHandlers();
+    this.setupHandlers(server, sessionId);
+    return server;
   }
 
-  private setupHandlers(): void {
+  private setupHandlers(server: Server, sessionId: string): void {
     // Define schemas for request handlers
     const listToolsSchema = z.object({
       method: z.literal('tools/list')
@@ -33,130 +172,1144 @@ export class ReportingMCPServer {
       method: z.literal('tools/call'),
       params: z.object({
         name: z.string(),
-        arguments: z.record(z.string(), z.any()).optional()
+        arguments: z.record(z.string(), z.any()).optional(),
+        _meta: z.object({
+          progressToken: z.union([z.string(), z.number()]).optional()
+        }).optional()
       })
     });
     
     // Use schemas for request handlers
-    this.server.setRequestHandler(listToolsSchema, async () => {
-      return {
-        tools: [
-          {
-            name: 'test_connection',
-            description: 'Test the MCP server connection and BigQuery setup',
-            inputSchema: {
-              type: 'object',
-              properties: {},
-            },
-          },
-          {
-            name: 'analyze_actions_data',
-            description: 'Analyze Actions Report data using natural language queries',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                query: {
-                  type: 'string',
-                  description: 'Natural language query',
-                },
-              },
-              required: ['query'],
-            },
-          },
-        ],
-      };
+    server.setRequestHandler(listToolsSchema, async () => {
+      return { tools: this.toolRegistry.list() };
     });
 
-    this.server.setRequestHandler(callToolSchema, async (request) => {
-      const { name, arguments: args = {} } = request.params;
-      
+    // The SDK forwards a ReportingError's code and message but drops its data, so the data goes in the message
+    // notifications/cancelled aborts extra.signal; the SDK then drops the response
+    server.setRequestHandler(callToolSchema, async (request, extra) => {
+      const { name, arguments: args, _meta } = request.params;
+      const progressToken = _meta?.progressToken;
+      const context: ToolContext = { signal: extra.signal, caller: this.callerIdentity(server), sessionId };
+
+      if (progressToken !== undefined) {
+        context.sendProgress = (progress, total, message) => {
+          server.notification({
+            method: 'notifications/progress',
+            params: { progressToken, progress, total, message },
+          }).catch(error => console.error('Failed to send progress notification:', error));
+        };
+      }
+
       try {
-        switch (name) {
-          case 'test_connection':
-            return await this.handleTestConnection();
-          case 'analyze_actions_data':
-            return await this.handleAnalyzeData(args);
-          default:
-            throw new Error(`Unknown tool: ${name}`);
-        }
+        return await this.callTool(name, args, context);
       } catch (error) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `❌ Error: ${error instanceof Error ? error.message : String(error)}`,
-            },
-          ],
-        };
+        throw withDataInMessage(error);
       }
     });
+
+    const listResourcesSchema = z.object({
+      method: z.literal('resources/list')
+    });
+
+    const readResourceSchema = z.object({
+      method: z.literal('resources/read'),
+      params: z.object({
+        uri: z.string()
+      })
+    });
+
+    server.setRequestHandler(listResourcesSchema, async () => {
+      return { resources: this.schemaResources.list() };
+    });
+
+    server.setRequestHandler(readResourceSchema, async (request) => {
+      return this.schemaResources.read(request.params.uri);
+    });
+
+    const listPromptsSchema = z.object({
+      method: z.literal('prompts/list')
+    });
+
+    const getPromptSchema = z.object({
+      method: z.literal('prompts/get'),
+      params: z.object({
+        name: z.string(),
+        arguments: z.record(z.string(), z.string()).optional()
+      })
+    });
+
+    server.setRequestHandler(listPromptsSchema, async () => {
+      return { prompts: this.workflowPrompts.list() };
+    });
+
+    server.setRequestHandler(getPromptSchema, async (request) => {
+      return this.workflowPrompts.get(request.params.name, request.params.arguments);
+    });
   }
 
-  private async handleTestConnection(): Promise<any> {
-    try {
-      const projectId = process.env.GOOGLE_CLOUD_PROJECT_ID;
-      const datasetId = process.env.BIGQUERY_DATASET_ID;
-      const tableId = process.env.BIGQUERY_TABLE_ID;
+  /**
+   * The MCP client as it named itself when it initialized, plus its HTTP session.
+   * The server does no authentication, so this is what the client reports.
+   */
+  private callerIdentity(server: Server): string {
+    const client = server.getClientVersion();
+    const sessionId = (server.transport as { sessionId?: string } | undefined)?.sessionId;
+    const name = client ? `${client.name}/${client.version}` : 'unknown client';
 
-      if (!projectId || !datasetId || !tableId) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: '❌ **Configuration Missing**\n\nRequired environment variables:\n- GOOGLE_CLOUD_PROJECT_ID\n- BIGQUERY_DATASET_ID\n- BIGQUERY_TABLE_ID',
-            },
-          ],
-        };
-      }
+    return sessionId ? `${name} (session ${sessionId})` : name;
+  }
 
-      // Test BigQuery connection
-      const { BigQuery } = await import('@google-cloud/bigquery');
-      const bigquery = new BigQuery({ projectId });
-      
-      const dataset = bigquery.dataset(datasetId);
-      const table = dataset.table(tableId);
-      const [metadata] = await table.getMetadata();
+  /**
+   * Run a tool through the registry, tracking it so shutdown can drain it
+   */
+  private async callTool(name: string, args: unknown, context: ToolContext = {}): Promise<ToolResult> {
+    if (this.shuttingDown) {
+      throw new ReportingError(ErrorCodes.INTERNAL_ERROR, 'Server is shutting down');
+    }
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `✅ **Connection Successful**\n\n**Project:** ${projectId}\n**Dataset:** ${datasetId}\n**Table:** ${tableId}\n**Schema Fields:** ${metadata.schema?.fields?.length || 0}`,
-          },
-        ],
-      };
+    const call = this.toolRegistry.call(name, args, context);
+    this.inFlightCalls.add(call);
+
+    try {
+      return await call;
     } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `❌ **Connection Failed**\n\nError: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
+      if (error instanceof RequestCancelledError) {
+        console.error(`Tool call ${name} cancelled by the client`);
+      }
+      throw error;
+    } finally {
+      this.inFlightCalls.delete(call);
+    }
+  }
+
+  // ========================================================================
+  // TOOL REGISTRATION
+  // ========================================================================
+
+  private registerTools(): void {
+    const { features } = this.config;
+
+    this.toolRegistry
+      .register({
+        name: 'test_connection',
+        description: 'Test the MCP server connection and the active data source',
+        schema: testConnectionSchema,
+        handler: (_args, context) => this.handleTestConnection(context),
+        errorCode: ErrorCodes.DATA_SOURCE_CONFIGURATION,
+      })
+      .register({
+        name: 'configure_data_source',
+        description: 'Switch the active data source for this session to a BigQuery table or a local Actions Report CSV file',
+        schema: configureDataSourceSchema,
+        handler: (args, context) => this.handleConfigureDataSource(args, context),
+        errorCode: ErrorCodes.DATA_SOURCE_CONFIGURATION,
+      })
+      .register({
+        name: 'validate_column_mapping',
+        description: 'Validate a mapping of Actions Report fields to physical column names against the live schema, optionally activating it',
+        schema: validateColumnMappingSchema,
+        handler: (args, context) => this.handleValidateColumnMapping(args, context),
+        errorCode: ErrorCodes.COLUMN_MAPPING,
+      })
+      .register({
+        name: 'analyze_actions_data',
+        description: 'Analyze Actions Report data using natural language queries',
+        schema: analyzeActionsDataSchema,
+        handler: (args, context) => this.handleAnalyzeData(args, context),
+        errorCode: ErrorCodes.QUERY_PARSING,
+        enabled: features.naturalLanguage,
+      })
+      .register({
+        name: 'generate_lots_report',
+        description: 'Generate lot-level inventory positions with cost basis, carrying value and impairment tracking',
+        schema: lotsReportSchema,
+        handler: (args, context) => this.handleLotsReport(args, context),
+        errorCode: ErrorCodes.REPORT_GENERATION,
+        enabled: features.lotsReport,
+      })
+      .register({
+        name: 'generate_valuation_rollforward',
+        description: 'Generate a period valuation rollforward with summary, performance metrics and significant movements',
+        schema: valuationRollforwardSchema,
+        handler: (args, context) => this.handleValuationRollforward(args, context),
+        errorCode: ErrorCodes.REPORT_GENERATION,
+        enabled: features.rollforwardReport,
+      })
+      .register({
+        name: 'generate_inventory_balance',
+        description: 'Generate a point-in-time inventory balance snapshot with concentration risk metrics',
+        schema: inventoryBalanceSchema,
+        handler: (args, context) => this.handleInventoryBalance(args, context),
+        errorCode: ErrorCodes.REPORT_GENERATION,
+        enabled: features.inventoryReport,
+      })
+      .register({
+        name: 'inventory_variance',
+        description: 'Compare inventory balances at two as-of dates and return new, closed and changed positions',
+        schema: inventoryVarianceSchema,
+        handler: (args, context) => this.handleInventoryVariance(args, context),
+        errorCode: ErrorCodes.REPORT_GENERATION,
+        enabled: features.inventoryReport,
+      })
+      .register({
+        name: 'run_sql_query',
+        description: 'Run a read-only SELECT against the Actions Report table ({ACTIONS_REPORT_TABLE}); every read is scoped to the given runId and orgId and the bytes-billed limit applies',
+        schema: runSqlQuerySchema,
+        handler: (args, context) => this.handleRunSqlQuery(args, context),
+        errorCode: ErrorCodes.BIGQUERY_EXECUTION,
+        enabled: features.sqlPassthrough,
+      })
+      .register({
+        name: 'estimate_query_cost',
+        description: 'Dry-run a report tool\'s BigQuery queries and return the bytes they would process, the estimated cost and whether the bytes-billed limit allows them',
+        schema: estimateQueryCostSchema,
+        handler: (args, context) => this.handleEstimateQueryCost(args, context),
+        errorCode: ErrorCodes.BIGQUERY_EXECUTION,
+      })
+      .register({
+        name: 'start_report_job',
+        description: 'Start a report tool in the background and return a job ID, for reports that outlast the client timeout',
+        schema: startReportJobSchema,
+        handler: (args, context) => this.handleStartReportJob(args, context),
+        errorCode: ErrorCodes.REPORT_GENERATION,
+      })
+      .register({
+        name: 'get_report_job',
+        description: 'Get the status and progress of a report job',
+        schema: getReportJobSchema,
+        handler: args => this.handleGetReportJob(args),
+        errorCode: ErrorCodes.REPORT_GENERATION,
+      })
+      .register({
+        name: 'get_report_result',
+        description: 'Get the output of a finished report job, one page of records at a time',
+        schema: getReportResultSchema,
+        handler: args => this.handleGetReportResult(args),
+        errorCode: ErrorCodes.REPORT_GENERATION,
+      })
+      .register({
+        name: 'get_query_audit',
+        description: 'Search the audit log of BigQuery queries by time range, org and run: who ran each query for which tool, its SQL and parameters, job ID, bytes, rows and duration',
+        schema: getQueryAuditSchema,
+        handler: args => this.handleGetQueryAudit(args),
+        errorCode: ErrorCodes.INTERNAL_ERROR,
+        enabled: this.config.queryAudit.enabled,
+      });
+  }
+
+  // ========================================================================
+  // TOOL HANDLERS
+  // ========================================================================
+
+  private async handleTestConnection(context: ToolContext): Promise<ToolResult> {
+    const session = this.session(context);
+    await this.ensureDataSourceConfigured(session);
+    const cache = session.bigQueryClient.getCacheStats();
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `✅ **Connection Successful**\n\n${this.describeDataSource(session)}\n**Schema Fields:** ${(await session.bigQueryClient.getSchema()).length}\n` +
+            `**Query Cache:** ${cache.type}, ${cache.size}/${cache.maxSize} entries, ${cache.rows.toLocaleString()}/${cache.maxRows.toLocaleString()} rows, ${(cache.hitRate * 100).toFixed(1)}% hit rate (${cache.hits} hits, ${cache.misses} misses, ${cache.evictions} evictions)`,
+        },
+      ],
+    };
+  }
+
+  private async handleConfigureDataSource(args: ConfigureDataSourceArgs, context: ToolContext): Promise<ToolResult> {
+    const { type, config } = args;
+    const session = this.session(context);
+    let source: DataSource;
+
+    // Required fields per type are enforced by configureDataSourceSchema
+    if (type === 'bigquery') {
+      source = {
+        type: 'bigquery',
+        config: {
+          projectId: config.projectId!,
+          datasetId: config.datasetId!,
+          tableId: config.tableId!,
+          ...this.credentials(config.keyFilename),
+        },
       };
+    } else {
+      source = { type: 'csv', config: { filePath: config.filePath! } };
+    }
+
+    // The session's source is only replaced once the new one passes its connection test
+    await session.bigQueryClient.configureDataSource(source);
+    const schema = await session.bigQueryClient.getSchema();
+
+    let text = `✅ **Data Source Configured**\n\n${this.describeDataSource(session)}\n**Schema Fields:** ${schema.length}\n\n`;
+    text += `**Columns:**\n${schema.map(field => `- ${field.name} (${field.type})`).join('\n')}`;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text,
+        },
+        {
+          type: 'text',
+          text: JSON.stringify({ status: 'success', config: this.publicDataSourceConfig(session), schema }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleValidateColumnMapping(args: ValidateColumnMappingArgs, context: ToolContext): Promise<ToolResult> {
+    const { mapping } = args;
+    const apply = args.apply ?? this.config.columnMapping.autoConfirm;
+    const session = this.session(context);
+
+    await this.ensureDataSourceConfigured(session);
+
+    const validation = apply
+      ? await session.bigQueryClient.setColumnMapping(mapping)
+      : await session.bigQueryClient.validateColumnMapping(mapping);
+    const applied = apply && validation.valid;
+
+    // An invalid mapping the caller asked to activate is an error; a dry validation is not
+    if (apply && !validation.valid) {
+      throw new ColumnMappingError('Column mapping is invalid and was not applied', { validation });
+    }
+
+    let text = validation.valid
+      ? '✅ **Column Mapping Valid**\n\n'
+      : '❌ **Column Mapping Invalid**\n\n';
+
+    if (validation.unknownFields.length > 0) {
+      text += `**Unknown Fields:** ${validation.unknownFields.join(', ')}\n`;
+    }
+    if (validation.invalidColumns.length > 0) {
+      text += `**Invalid Column Names:** ${validation.invalidColumns.join(', ')}\n`;
+    }
+    if (validation.missingColumns.length > 0) {
+      text += `**Missing Columns:**\n${validation.missingColumns.map(missing => `- ${missing.field} → ${missing.column}`).join('\n')}\n`;
+    }
+    if (validation.typeMismatches.length > 0) {
+      text += `**Type Mismatches:**\n${validation.typeMismatches.map(mismatch =>
+        `- ${mismatch.field} → ${mismatch.column}: expected ${mismatch.expectedType}, found ${mismatch.actualType}`
+      ).join('\n')}\n`;
     }
+
+    text += applied
+      ? '\nMapping is now active for all reports in this session.'
+      : `\nActive mapping: ${JSON.stringify(session.bigQueryClient.getColumnMapping())}`;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text,
+        },
+        {
+          type: 'text',
+          text: JSON.stringify({ status: validation.valid ? 'success' : 'error', applied, ...validation }, null, 2),
+        },
+      ],
+    };
   }
 
-  private async handleAnalyzeData(args: any): Promise<any> {
-    const { query = '' } = args;
+  private async handleAnalyzeData(args: AnalyzeActionsDataArgs, context: ToolContext): Promise<ToolResult> {
+    const { query } = args;
+    const parameters = this.parseReportParameters(args.parameters);
+    const session = this.session(context);
+
+    await this.ensureDataSourceConfigured(session);
+
+    const parseResult = await this.queryParser.parseQuery(query);
+    if (parseResult.columns.length === 0) {
+      throw new QueryParsingError(`Could not map "${query}" to any Actions Report columns`, {
+        suggestions: ['Mention a measure such as gains, cost basis, carrying value or quantity', 'Name an asset, e.g. "BTC"'],
+      });
+    }
+
+    const result = await session.bigQueryClient.executeAnalyticalQuery(parseResult, parameters, this.auditContext(context));
+
+    if (!result.success) {
+      throw this.toQueryError(result);
+    }
+
     return {
       content: [
         {
           type: 'text',
-          text: `📊 **Query Received**\n\nQuery: "${query}"\n\n✅ MCP server is working! Natural language processing implementation coming next.`,
+          text: result.summary || `📊 **Analysis Results**\n\n${result.metadata.rows_processed} rows processed.`,
+        },
+        {
+          type: 'text',
+          text: JSON.stringify({ query, parameters, parseResult, result }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleLotsReport(args: LotsReportArgs, context: ToolContext): Promise<ToolResult> {
+    return this.reportPage('generate_lots_report', args, context, () => this.runLotsReport(args, context));
+  }
+
+  private async handleValuationRollforward(args: ValuationRollforwardArgs, context: ToolContext): Promise<ToolResult> {
+    return this.reportPage('generate_valuation_rollforward', args, context, () => this.runValuationRollforward(args, context));
+  }
+
+  private async handleInventoryBalance(args: InventoryBalanceArgs, context: ToolContext): Promise<ToolResult> {
+    return this.reportPage('generate_inventory_balance', args, context, () => this.runInventoryBalance(args, context));
+  }
+
+  private async handleInventoryVariance(args: InventoryVarianceArgs, context: ToolContext): Promise<ToolResult> {
+    return this.reportPage('inventory_variance', args, context, () => this.runInventoryVariance(args, context));
+  }
+
+  private async handleRunSqlQuery(args: RunSqlQueryArgs, context: ToolContext): Promise<ToolResult> {
+    return this.reportPage('run_sql_query', args, context, () => this.runSqlQuery(args, context));
+  }
+
+  private async handleEstimateQueryCost(args: EstimateQueryCostArgs, context: ToolContext): Promise<ToolResult> {
+    // Same validation as a direct call, so the estimate covers exactly the queries it would run
+    const call = this.parseReportCall(args.tool, args.arguments);
+    const session = this.session(context);
+
+    await this.ensureDataSourceConfigured(session);
+
+    const queries = await this.estimateReport(session, call, this.auditContext(context));
+    const totalBytesProcessed = queries.reduce((sum, { estimate }) => sum + estimate.totalBytesProcessed, 0);
+    const estimatedCostUSD = queries.reduce((sum, { estimate }) => sum + estimate.estimatedCostUSD, 0);
+    const withinLimit = queries.every(({ estimate }) => estimate.withinLimit);
+
+    let text = `💰 **Query Cost Estimate**\n\n**Tool:** ${args.tool}\n`;
+    queries.forEach(({ query, estimate }) => {
+      const limit = estimate.maximumBytesBilled !== undefined
+        ? ` (limit ${BigQueryClient.formatBytes(estimate.maximumBytesBilled)}${estimate.withinLimit ? '' : ', ⛔ over limit'})`
+        : '';
+      text += `**${query}:** ${BigQueryClient.formatBytes(estimate.totalBytesProcessed)}${limit}\n`;
+    });
+    text += `**Estimated cost:** $${estimatedCostUSD.toFixed(4)}\n\n`;
+    text += withinLimit
+      ? '✅ Within the bytes-billed limit.'
+      : '⛔ Above the bytes-billed limit: the report would be refused. Narrow its filters or date range.';
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text,
+        },
+        {
+          type: 'text',
+          text: JSON.stringify({ tool: args.tool, totalBytesProcessed, estimatedCostUSD, withinLimit, queries }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleStartReportJob(args: StartReportJobArgs, context: ToolContext): Promise<ToolResult> {
+    // Bad report arguments fail here rather than in the background
+    const call = this.parseReportCall(args.tool, args.arguments);
+    // The job's queries are audited under the report tool and the caller that started it
+    const job = this.reportJobs.start(args.tool, jobContext => this.runReport(call, {
+      ...jobContext,
+      tool: args.tool,
+      ...(context.caller ? { caller: context.caller } : {}),
+      ...(context.sessionId ? { sessionId: context.sessionId } : {}),
+    }));
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `🚀 **Report Job Started**\n\n**Job ID:** ${job.jobId}\n**Tool:** ${job.tool}\n\nPoll \`get_report_job\` for progress, then fetch the output with \`get_report_result\`.`,
+        },
+        {
+          type: 'text',
+          text: JSON.stringify(job, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleGetReportJob(args: GetReportJobArgs): Promise<ToolResult> {
+    const job = this.reportJobs.get(args.jobId);
+
+    let text = `📋 **Report Job ${job.jobId}**\n\n**Tool:** ${job.tool}\n**Status:** ${job.status}\n`;
+    if (job.progress) {
+      text += `**Progress:** ${job.progress.progress}/${job.progress.total} (${job.progress.message})\n`;
+    }
+    if (job.recordCount !== undefined) {
+      text += `**Records:** ${job.recordCount.toLocaleString()}\n`;
+    }
+    if (job.error) {
+      text += `**Error:** ${job.error.message}\n`;
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text,
+        },
+        {
+          type: 'text',
+          text: JSON.stringify(job, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleGetReportResult(args: GetReportResultArgs): Promise<ToolResult> {
+    const { jobId, pageSize, cursor } = args;
+    const output = this.reportJobs.result(jobId);
+    const page = paginate(output.records, pageSize, jobId, cursor);
+
+    return this.toToolResult(output, page, { jobId });
+  }
+
+  private async handleGetQueryAudit(args: GetQueryAuditArgs): Promise<ToolResult> {
+    const { pageSize, cursor, ...query } = args;
+    const entries = await this.queryAudit.search({
+      ...(query.from ? { from: new Date(query.from) } : {}),
+      // A bare date covers the whole day
+      ...(query.to ? { to: new Date(/^\d{4}-\d{2}-\d{2}$/.test(query.to) ? `${query.to}T23:59:59.999Z` : query.to) } : {}),
+      ...(query.orgId ? { orgId: query.orgId } : {}),
+      ...(query.runId ? { runId: query.runId } : {}),
+    });
+    const page = paginate(entries, pageSize, cursorScope({ tool: 'get_query_audit', query }), cursor);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: this.formatQueryAudit(entries, page),
+        },
+        {
+          type: 'text',
+          text: JSON.stringify({
+            filters: query,
+            totalEntries: page.total,
+            entries: page.items,
+            nextCursor: page.nextCursor,
+          }, null, 2),
         },
       ],
     };
   }
 
+  // ========================================================================
+  // REPORT RUNNERS
+  // ========================================================================
+
+  /**
+   * A report tool's arguments, validated as for a direct call
+   */
+  private parseReportCall(tool: ReportJobTool, rawArgs: unknown): ReportToolCall {
+    switch (tool) {
+      case 'generate_lots_report':
+        return { tool, args: this.toolRegistry.parse(tool, rawArgs) };
+      case 'generate_valuation_rollforward':
+        return { tool, args: this.toolRegistry.parse(tool, rawArgs) };
+      case 'generate_inventory_balance':
+        return { tool, args: this.toolRegistry.parse(tool, rawArgs) };
+      case 'inventory_variance':
+        return { tool, args: this.toolRegistry.parse(tool, rawArgs) };
+      case 'run_sql_query':
+        return { tool, args: this.toolRegistry.parse(tool, rawArgs) };
+    }
+  }
+
+  private runReport(call: ReportToolCall, context: ToolContext): Promise<ReportOutput> {
+    switch (call.tool) {
+      case 'generate_lots_report':
+        return this.runLotsReport(call.args, context);
+      case 'generate_valuation_rollforward':
+        return this.runValuationRollforward(call.args, context);
+      case 'generate_inventory_balance':
+        return this.runInventoryBalance(call.args, context);
+      case 'inventory_variance':
+        return this.runInventoryVariance(call.args, context);
+      case 'run_sql_query':
+        return this.runSqlQuery(call.args, context);
+    }
+  }
+
+  private async runLotsReport(args: LotsReportArgs, context: ToolContext): Promise<ReportOutput> {
+    const parameters = this.parseReportParameters(args.parameters);
+    const session = this.session(context);
+    const filters = this.compact(args.filters || {});
+
+    await this.ensureDataSourceConfigured(session);
+
+    const rowLimit = this.rowLimit('MAX_LOTS_REPORT_SIZE', this.config.reportLimits.lots);
+    const [options] = this.reportOptions(context, 1, rowLimit, args.maximumBytesBilled);
+    const { rows: generated, truncated } = await session.lotsReportGenerator.generate(parameters, filters, options);
+    const lots = session.lotsReportGenerator.sortLots(generated, args.sortBy ?? 'age', args.ascending ?? false);
+    const summary = session.lotsReportGenerator.generateSummary(lots);
+
+    return {
+      text: session.lotsReportGenerator.formatForPresentation(lots),
+      overview: { parameters, filters, summary },
+      records: lots,
+      truncated,
+      rowLimit,
+    };
+  }
+
+  private async runValuationRollforward(args: ValuationRollforwardArgs, context: ToolContext): Promise<ReportOutput> {
+    const parameters = this.parseReportParameters(args.parameters);
+    const session = this.session(context);
+    const groupBy = args.groupBy || [];
+    const filters = this.compact(args.filters || {});
+    const thresholds = this.compact(args.thresholds || {});
+
+    await this.ensureDataSourceConfigured(session);
+
+    const rowLimit = this.rowLimit('MAX_ROLLFORWARD_ASSETS', this.config.reportLimits.rollforwardAssets);
+    const [options] = this.reportOptions(context, 1, rowLimit, args.maximumBytesBilled);
+    const { rows: generated, truncated } = await session.rollforwardGenerator.generate(parameters, groupBy, filters, options);
+    const records = session.rollforwardGenerator.sortRecords(generated, groupBy);
+
+    const summary = session.rollforwardGenerator.generateSummary(records);
+    const performance = session.rollforwardGenerator.calculatePerformanceMetrics(records);
+    const significantMovements = session.rollforwardGenerator.identifySignificantMovements(records, thresholds);
+
+    return {
+      text: session.rollforwardGenerator.formatForPresentation(records),
+      overview: { parameters, groupBy, filters, summary, performance, significantMovements },
+      records,
+      truncated,
+      rowLimit,
+    };
+  }
+
+  private async runInventoryBalance(args: InventoryBalanceArgs, context: ToolContext): Promise<ReportOutput> {
+    const parameters = this.parseReportParameters(args.parameters);
+    const session = this.session(context);
+    const groupBy = args.groupBy || [];
+    const filters = this.compact(args.filters || {});
+
+    await this.ensureDataSourceConfigured(session);
+
+    const rowLimit = this.rowLimit('MAX_INVENTORY_RECORDS', this.config.reportLimits.inventoryRecords);
+    const [options] = this.reportOptions(context, 1, rowLimit, args.maximumBytesBilled);
+    const { rows: generated, truncated } = await session.inventoryBalanceGenerator.generate(parameters, groupBy, filters, options);
+    // Without sortBy, keep the report's asset/inventory order
+    const records = args.sortBy
+      ? session.inventoryBalanceGenerator.sortRecords(generated, args.sortBy, args.ascending ?? false)
+      : session.inventoryBalanceGenerator.sortRecords(generated, 'asset', args.ascending ?? true);
+    const summary = session.inventoryBalanceGenerator.generateSummary(records);
+    const concentrationRisk = session.inventoryBalanceGenerator.calculateConcentrationRisk(records);
+
+    return {
+      text: session.inventoryBalanceGenerator.formatForPresentation(records),
+      overview: { parameters, groupBy, filters, summary, concentrationRisk },
+      records,
+      truncated,
+      rowLimit,
+    };
+  }
+
+  private async runInventoryVariance(args: InventoryVarianceArgs, context: ToolContext): Promise<ReportOutput> {
+    const { priorAsOfDate, currentAsOfDate } = args;
+    const groupBy = args.groupBy || [];
+    const filters = this.compact(args.filters || {});
+
+    const [baseParameters, priorParameters, currentParameters] = this.varianceParameters(args);
+    const session = this.session(context);
+
+    await this.ensureDataSourceConfigured(session);
+
+    const rowLimit = this.rowLimit('MAX_INVENTORY_RECORDS', this.config.reportLimits.inventoryRecords);
+    const [priorOptions, currentOptions] = this.reportOptions(context, 2, rowLimit, args.maximumBytesBilled);
+    const [prior, current] = await Promise.all([
+      session.inventoryBalanceGenerator.generate(priorParameters, groupBy, filters, priorOptions),
+      session.inventoryBalanceGenerator.generate(currentParameters, groupBy, filters, currentOptions),
+    ]);
+    // Sorted inputs keep the variance records in the same order on every call
+    const variance = session.inventoryBalanceGenerator.generateVarianceAnalysis(
+      session.inventoryBalanceGenerator.sortRecords(current.rows, 'asset', true),
+      session.inventoryBalanceGenerator.sortRecords(prior.rows, 'asset', true)
+    );
+
+    // New, closed and changed positions become one list of records tagged with their change
+    const summary = {
+      ...variance.summary,
+      newPositions: variance.newPositions.length,
+      closedPositions: variance.closedPositions.length,
+      changedPositions: variance.changedPositions.length,
+    };
+    const records = [
+      ...variance.newPositions.map(current => ({ change: 'new', current })),
+      ...variance.closedPositions.map(prior => ({ change: 'closed', prior })),
+      ...variance.changedPositions.map(position => ({ change: 'changed', ...position })),
+    ];
+
+    return {
+      text: session.inventoryBalanceGenerator.formatVarianceForPresentation(variance, priorAsOfDate, currentAsOfDate),
+      overview: { parameters: baseParameters, priorAsOfDate, currentAsOfDate, groupBy, filters, summary },
+      records,
+      // A truncated balance on either date would show missing positions as closed or new
+      truncated: prior.truncated || current.truncated,
+      rowLimit,
+    };
+  }
+
+  private async runSqlQuery(args: RunSqlQueryArgs, context: ToolContext): Promise<ReportOutput> {
+    const parameters = this.parseReportParameters(args.parameters);
+    const session = this.session(context);
+
+    await this.ensureDataSourceConfigured(session);
+
+    const rowLimit = this.rowLimit('MAX_QUERY_ROWS', this.config.query.maxRows);
+    const [options] = this.reportOptions(context, 1, rowLimit, args.maximumBytesBilled);
+    const { rows, truncated } = await session.sqlPassthrough.run(args.sql, parameters, options);
+
+    return {
+      text: session.sqlPassthrough.formatForPresentation(args.sql, rows),
+      overview: { parameters, sql: args.sql, columns: rows.length > 0 ? Object.keys(rows[0]!) : [] },
+      records: rows,
+      truncated,
+      rowLimit,
+    };
+  }
+
+  /**
+   * Dry-run estimates for each query a report tool would run
+   */
+  private async estimateReport(
+    session: ReportingSession,
+    call: ReportToolCall,
+    audit: QueryAuditContext
+  ): Promise<{ query: string; estimate: QueryCostEstimate }[]> {
+    const { maximumBytesBilled } = call.args;
+    const options: ReportExecutionOptions = {
+      audit,
+      ...(maximumBytesBilled !== undefined ? { maximumBytesBilled } : {}),
+    };
+
+    switch (call.tool) {
+      case 'generate_lots_report': {
+        const { args } = call;
+        const parameters = this.parseReportParameters(args.parameters);
+        const estimate = await session.lotsReportGenerator.estimate(parameters, this.compact(args.filters || {}), options);
+        return [{ query: 'Lots report', estimate }];
+      }
+      case 'generate_valuation_rollforward': {
+        const { args } = call;
+        const parameters = this.parseReportParameters(args.parameters);
+        const estimate = await session.rollforwardGenerator.estimate(parameters, args.groupBy || [], this.compact(args.filters || {}), options);
+        return [{ query: 'Valuation rollforward', estimate }];
+      }
+      case 'generate_inventory_balance': {
+        const { args } = call;
+        const parameters = this.parseReportParameters(args.parameters);
+        const estimate = await session.inventoryBalanceGenerator.estimate(parameters, args.groupBy || [], this.compact(args.filters || {}), options);
+        return [{ query: 'Inventory balance', estimate }];
+      }
+      case 'inventory_variance': {
+        const { args } = call;
+        const groupBy = args.groupBy || [];
+        const filters = this.compact(args.filters || {});
+        const [, priorParameters, currentParameters] = this.varianceParameters(args);
+        const [prior, current] = await Promise.all([
+          session.inventoryBalanceGenerator.estimate(priorParameters, groupBy, filters, options),
+          session.inventoryBalanceGenerator.estimate(currentParameters, groupBy, filters, options),
+        ]);
+        return [
+          { query: `Inventory balance at ${args.priorAsOfDate}`, estimate: prior },
+          { query: `Inventory balance at ${args.currentAsOfDate}`, estimate: current },
+        ];
+      }
+      case 'run_sql_query': {
+        const { args } = call;
+        const parameters = this.parseReportParameters(args.parameters);
+        return [{ query: 'SQL query', estimate: await session.sqlPassthrough.estimate(args.sql, parameters, options) }];
+      }
+    }
+  }
+
+  // ========================================================================
+  // REPORT HELPERS
+  // ========================================================================
+
+  /**
+   * Run scope for a variance, and the same scope at each of its two as-of dates
+   */
+  private varianceParameters(args: InventoryVarianceArgs): [ReportParameters, ReportParameters, ReportParameters] {
+    const baseParameters = this.parseReportParameters(args.parameters);
+    const priorParameters: ReportParameters = { ...baseParameters, asOfDate: args.priorAsOfDate };
+    const currentParameters: ReportParameters = { ...baseParameters, asOfDate: args.currentAsOfDate };
+    delete priorParameters.asOfSEC;
+    delete currentParameters.asOfSEC;
+
+    return [baseParameters, priorParameters, currentParameters];
+  }
+
+  /**
+   * Typed error for a failed analytical query, keeping the client's suggestions
+   */
+  private toQueryError(result: QueryResult): Error {
+    const error = result.error!;
+    const data = { type: error.type, suggestions: error.suggestions || [] };
+
+    return error.type === 'COMPUTATION_ERROR'
+      ? new BigQueryExecutionError(error.message, data)
+      : new QueryParsingError(error.message, data);
+  }
+
+  /**
+   * One page of a report run directly. Cursors are scoped to the report's
+   * arguments, so they only resume the query they came from, and later pages
+   * are read from the first page's result instead of running the report again.
+   */
+  private async reportPage(
+    tool: string,
+    args: { pageSize: number; cursor?: string | undefined },
+    context: ToolContext,
+    run: () => Promise<ReportOutput>
+  ): Promise<ToolResult> {
+    const { pageSize, cursor, ...query } = args;
+    const scope = cursorScope({ tool, query });
+    const owner = context.sessionId ?? 'default';
+
+    let snapshot = cursor ? decodeCursor(cursor, scope).snapshot : undefined;
+    let output: ReportOutput;
+    if (snapshot) {
+      output = this.reportPages.get(owner, snapshot);
+    } else {
+      output = await run();
+      if (output.records.length > pageSize) {
+        snapshot = this.reportPages.save(owner, output);
+      }
+    }
+
+    return this.toToolResult(output, paginate(output.records, pageSize, scope, cursor, snapshot));
+  }
+
+  /**
+   * Tool result for one page of a finished report. Summaries cover the full result;
+   * so does the presentation (totals and the largest items, never every record),
+   * so it is only sent with the first page.
+   */
+  private toToolResult(output: ReportOutput, page: Page<any>, extra: Record<string, any> = {}): ToolResult {
+    let text = page.offset === 0 ? `${output.text}\n\n` : '';
+    text += page.items.length > 0
+      ? `**Records:** ${page.offset + 1}-${page.offset + page.items.length} of ${page.total.toLocaleString()}`
+      : `**Records:** 0 of ${page.total.toLocaleString()}`;
+    text += page.nextCursor ? ' (more available: pass nextCursor as cursor)' : '';
+    text += output.truncated
+      ? `\n\n⚠️ **Truncated:** the query matched more than ${output.rowLimit.rows.toLocaleString()} rows (${output.rowLimit.setting}); records and summaries cover only the first ones. Narrow the filters for a complete result.`
+      : '';
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text,
+        },
+        {
+          type: 'text',
+          text: JSON.stringify({
+            ...extra,
+            ...output.overview,
+            totalRecords: page.total,
+            truncated: output.truncated,
+            records: page.items,
+            nextCursor: page.nextCursor,
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Markdown overview of matching audit entries, with one line per entry on the page
+   */
+  private formatQueryAudit(entries: QueryAuditEntry[], page: Page<QueryAuditEntry>): string {
+    const billed = entries
+      .filter(entry => !entry.dryRun && !entry.cacheHit)
+      .reduce((sum, entry) => sum + (entry.bytesProcessed ?? 0), 0);
+    const failed = entries.filter(entry => entry.status !== 'succeeded').length;
+
+    let text = `📜 **Query Audit**\n\n**Matching queries:** ${entries.length.toLocaleString()}`;
+    text += ` (${failed} not succeeded, ${entries.filter(entry => entry.cacheHit).length} from cache)\n`;
+    text += `**Bytes processed:** ${BigQueryClient.formatBytes(billed)}\n\n`;
+
+    page.items.forEach(entry => {
+      const scope = entry.orgId ? `${entry.orgId} / ${entry.runId}` : entry.runId;
+      const source = entry.cacheHit ? 'cache' : entry.dryRun ? 'dry run' : entry.jobId ?? 'no job';
+      text += `- ${entry.timestamp} **${entry.tool ?? 'unknown tool'}** ${scope}: ${entry.status}, ${source}`;
+      text += entry.rowCount !== undefined ? `, ${entry.rowCount.toLocaleString()} rows` : '';
+      text += entry.bytesProcessed !== undefined ? `, ${BigQueryClient.formatBytes(entry.bytesProcessed)}` : '';
+      text += `, ${entry.durationMs}ms (${entry.caller ?? 'unknown caller'})\n`;
+    });
+
+    text += page.items.length > 0
+      ? `\n**Entries:** ${page.offset + 1}-${page.offset + page.items.length} of ${page.total.toLocaleString()}`
+      : `**Entries:** 0 of ${page.total.toLocaleString()}`;
+    text += page.nextCursor ? ' (more available: pass nextCursor as cursor)' : '';
+
+    return text;
+  }
+
+  /**
+   * Who a tool call's queries ran for, for the query audit log
+   */
+  private auditContext(context: ToolContext): QueryAuditContext {
+    return {
+      ...(context.tool ? { tool: context.tool } : {}),
+      ...(context.caller ? { caller: context.caller } : {}),
+    };
+  }
+
+  /**
+   * A report's row cap: its own setting, or MAX_QUERY_ROWS when that is lower
+   */
+  private rowLimit(setting: string, rows: number): ReportRowLimit {
+    const { maxRows } = this.config.query;
+    return rows < maxRows ? { setting, rows } : { setting: 'MAX_QUERY_ROWS', rows: maxRows };
+  }
+
+  /**
+   * Execution options for each of `generations` concurrent report runs. Progress is
+   * the sum of the stages every run has reached, so it only moves forward; all runs
+   * share the request's abort signal, row cap and per-call bytes-billed cap.
+   */
+  private reportOptions(
+    context: ToolContext,
+    generations: number,
+    rowLimit: ReportRowLimit,
+    maximumBytesBilled?: number
+  ): ReportExecutionOptions[] {
+    const { sendProgress, signal } = context;
+    const reached: number[] = new Array(generations).fill(0);
+    const total = REPORT_PROGRESS_STAGES.length * generations;
+
+    return reached.map((_, index) => {
+      const options: ReportExecutionOptions = {
+        audit: this.auditContext(context),
+        maxRows: rowLimit.rows,
+        ...(signal ? { signal } : {}),
+        ...(maximumBytesBilled !== undefined ? { maximumBytesBilled } : {}),
+      };
+      if (!sendProgress) {
+        return options;
+      }
+
+      return {
+        ...options,
+        onProgress: (stage, message) => {
+          reached[index] = Math.max(reached[index]!, REPORT_PROGRESS_STAGES.indexOf(stage) + 1);
+          sendProgress(reached.reduce((sum, value) => sum + value, 0), total, message);
+        },
+      };
+    });
+  }
+
+  /**
+   * Drop undefined entries so validated arguments satisfy exact optional types
+   */
+  private compact<T extends Record<string, any>>(value: T): { [K in keyof T]?: Exclude<T[K], undefined> } {
+    return Object.fromEntries(
+      Object.entries(value).filter(([, entry]) => entry !== undefined)
+    ) as { [K in keyof T]?: Exclude<T[K], undefined> };
+  }
+
+  private parseReportParameters(raw: any): ReportParameters {
+    if (!raw || typeof raw.runId !== 'string' || !raw.runId) {
+      throw new InvalidParamsError('parameters.runId is required');
+    }
+
+    const parameters: ReportParameters = { runId: raw.runId };
+    if (raw.orgId) parameters.orgId = raw.orgId;
+    if (raw.startDate) parameters.startDate = raw.startDate;
+    if (raw.endDate) parameters.endDate = raw.endDate;
+    if (raw.asOfDate) parameters.asOfDate = raw.asOfDate;
+    if (raw.asOfSEC !== undefined) parameters.asOfSEC = Number(raw.asOfSEC);
+
+    return parameters;
+  }
+
+  private async ensureDataSourceConfigured(session: ReportingSession): Promise<void> {
+    if (session.bigQueryClient.isConfigured()) {
+      return;
+    }
+
+    const { dataSource, bigquery } = this.config;
+
+    if (dataSource.defaultType === 'csv') {
+      const filePath = dataSource.csvPath;
+      if (!filePath) {
+        throw new DataSourceConfigurationError('Local data source is not configured. Set CSV_DATA_PATH or call configure_data_source');
+      }
+      await session.bigQueryClient.configureLocalFile(filePath);
+      return;
+    }
+
+    const { projectId, datasetId, tableId } = bigquery;
+
+    if (!projectId || !datasetId || !tableId) {
+      throw new DataSourceConfigurationError('BigQuery is not configured. Set GOOGLE_CLOUD_PROJECT_ID, BIGQUERY_DATASET_ID and BIGQUERY_TABLE_ID or call configure_data_source');
+    }
+
+    await session.bigQueryClient.configure({ projectId, datasetId, tableId, ...this.credentials() });
+  }
+
+  /**
+   * A key file named by the caller wins over GOOGLE_CREDENTIALS_JSON; with
+   * neither, the Google client library finds credentials itself
+   */
+  private credentials(keyFilename?: string): Pick<BigQueryConfig, 'keyFilename' | 'credentials'> {
+    if (keyFilename) {
+      return { keyFilename };
+    }
+    const { credentials } = this.config.bigquery;
+    return credentials ? { credentials } : {};
+  }
+
+  private publicDataSourceConfig(session: ReportingSession): Record<string, any> | null {
+    const source = session.bigQueryClient.getDataSource();
+    if (!source) {
+      return null;
+    }
+
+    if (source.type === 'bigquery') {
+      const { projectId, datasetId, tableId } = source.config as BigQueryConfig;
+      return { type: 'bigquery', projectId, datasetId, tableId };
+    }
+
+    return { type: 'csv', filePath: (source.config as { filePath: string }).filePath };
+  }
+
+  private describeDataSource(session: ReportingSession): string {
+    const config = this.publicDataSourceConfig(session);
+    if (!config) {
+      return '**Source:** not configured';
+    }
+
+    if (config.type === 'bigquery') {
+      return `**Source:** BigQuery\n**Project:** ${config.projectId}\n**Dataset:** ${config.datasetId}\n**Table:** ${config.tableId}`;
+    }
+
+    return `**Source:** Local file\n**Path:** ${config.filePath}`;
+  }
+
   async run(): Promise<void> {
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+    await this.connect(new StdioServerTransport());
     console.error('Reporting MCP Server running on stdio');
   }
+
+  /**
+   * Serve the MCP protocol over a transport, sharing this server's tools. The
+   * connection gets its own session: its data source and column mapping start
+   * from the server defaults and change only for its own calls.
+   */
+  async connect(transport: Transport, onClose?: () => void): Promise<Server> {
+    if (this.shuttingDown) {
+      throw new Error('Server is shutting down');
+    }
+
+    const sessionId = randomUUID();
+    this.sessions.set(sessionId, this.createSession());
+
+    // The protocol layer takes over transport.onclose, so session cleanup hooks in here
+    const server = this.createProtocolServer(sessionId);
+    server.onclose = () => {
+      this.protocolServers.delete(server);
+      this.sessions.delete(sessionId);
+      this.reportPages.release(sessionId);
+      onClose?.();
+    };
+
+    await server.connect(transport);
+    this.protocolServers.add(server);
+    return server;
+  }
+
+  /**
+   * Stop accepting tool calls, wait up to gracePeriodMs for in-flight calls,
+   * then cancel report jobs and BigQuery jobs still running and close the transport
+   */
+  async shutdown(gracePeriodMs: number = 10000): Promise<void> {
+    if (this.shuttingDown) {
+      return;
+    }
+    this.shuttingDown = true;
+
+    if (this.inFlightCalls.size > 0) {
+      console.error(`Draining ${this.inFlightCalls.size} in-flight request(s)...`);
+
+      let timer: NodeJS.Timeout | undefined;
+      await Promise.race([
+        Promise.allSettled(Array.from(this.inFlightCalls)),
+        new Promise(resolve => { timer = setTimeout(resolve, gracePeriodMs); })
+      ]);
+      clearTimeout(timer);
+    }
+
+    const abandoned = this.reportJobs.cancelAll();
+    if (abandoned > 0) {
+      console.error(`Cancelled ${abandoned} running report job(s)`);
+    }
+
+    // Jobs of report jobs whose session has closed were cancelled with the report job
+    const clients = [this.defaultSession, ...this.sessions.values()].map(session => session.bigQueryClient);
+    const cancelled = (await Promise.all(clients.map(client => client.cancelRunningJobs()))).reduce((sum, count) => sum + count, 0);
+    if (cancelled > 0) {
+      console.error(`Cancelled ${cancelled} running BigQuery job(s)`);
+    }
+
+    await Promise.all(Array.from(this.protocolServers).map(server => server.close()));
+  }
   
-  // Process a JSON-RPC request for HTTP API
-  async processRequest(request: any): Promise<any> {
+  /**
+   * Process a JSON-RPC payload for the HTTP API: a single request or a batch.
+   * Batch items run concurrently; notifications produce no response, so null
+   * means there is nothing to send back. Aborting `signal` (the HTTP client
+   * disconnected) cancels every tool call in the payload.
+   */
+  async processRequest(payload: any, signal?: AbortSignal): Promise<any | null> {
+    if (Array.isArray(payload)) {
+      if (payload.length === 0) {
+        return this.invalidRequest(null);
+      }
+
+      const responses = await Promise.all(payload.map(message => this.processMessage(message, signal)));
+      const sent = responses.filter(response => response !== null);
+      return sent.length > 0 ? sent : null;
+    }
+
+    return this.processMessage(payload, signal);
+  }
+
+  private async processMessage(message: any, signal?: AbortSignal): Promise<any | null> {
+    if (!message || typeof message !== 'object' || Array.isArray(message) ||
+        message.jsonrpc !== '2.0' || typeof message.method !== 'string' ||
+        ('id' in message && !this.isValidId(message.id))) {
+      const id = message && typeof message === 'object' && this.isValidId(message.id) ? message.id : null;
+      return this.invalidRequest(id);
+    }
+
+    // Notifications are still executed, but never answered
+    const response = await this.dispatchRequest(message, signal);
+    return 'id' in message ? response : null;
+  }
+
+  private isValidId(id: unknown): boolean {
+    return id === null || typeof id === 'string' || (typeof id === 'number' && Number.isFinite(id));
+  }
+
+  private invalidRequest(id: string | number | null): any {
+    return {
+      jsonrpc: '2.0',
+      id,
+      error: {
+        code: ErrorCodes.INVALID_REQUEST,
+        message: 'Invalid Request'
+      }
+    };
+  }
+
+  private async dispatchRequest(request: any, signal?: AbortSignal): Promise<any> {
     try {
       // Handle tools/list request
       if (request.method === 'tools/list') {
@@ -164,70 +1317,91 @@ export class ReportingMCPServer {
           jsonrpc: '2.0',
           id: request.id,
           result: {
-            tools: [
-              {
-                name: 'test_connection',
-                description: 'Test the MCP server connection and BigQuery setup',
-                inputSchema: {
-                  type: 'object',
-                  properties: {}
-                }
-              },
-              {
-                name: 'analyze_actions_data',
-                description: 'Analyze Actions Report data using natural language queries',
-                inputSchema: {
-                  type: 'object',
-                  properties: {
-                    query: {
-                      type: 'string',
-                      description: 'Natural language query'
-                    }
-                  },
-                  required: ['query']
-                }
-              }
-            ]
+            tools: this.toolRegistry.list()
           }
         };
       }
       
       // Handle tools/call request
       if (request.method === 'tools/call') {
-        const toolName = request.params?.name;
-        const args = request.params?.arguments || {};
-        
-        let result;
-        if (toolName === 'test_connection') {
-          result = await this.handleTestConnection();
-        } else if (toolName === 'analyze_actions_data') {
-          result = await this.handleAnalyzeData(args);
-        } else {
+        try {
+          const result = await this.callTool(request.params?.name, request.params?.arguments, signal ? { signal } : {});
           return {
             jsonrpc: '2.0',
             id: request.id,
-            result: {
-              content: [{
-                type: 'text',
-                text: `❌ Error: Unknown tool: ${toolName}`
-              }]
-            }
+            result
+          };
+        } catch (error) {
+          return {
+            jsonrpc: '2.0',
+            id: request.id,
+            error: toJsonRpcError(error)
           };
         }
-        
+      }
+      
+      // Handle resources/list request
+      if (request.method === 'resources/list') {
         return {
           jsonrpc: '2.0',
           id: request.id,
-          result
+          result: {
+            resources: this.schemaResources.list()
+          }
         };
       }
+
+      // Handle resources/read request
+      if (request.method === 'resources/read') {
+        try {
+          return {
+            jsonrpc: '2.0',
+            id: request.id,
+            result: this.schemaResources.read(request.params?.uri)
+          };
+        } catch (error) {
+          return {
+            jsonrpc: '2.0',
+            id: request.id,
+            error: toJsonRpcError(error)
+          };
+        }
+      }
+      
+      // Handle prompts/list request
+      if (request.method === 'prompts/list') {
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          result: {
+            prompts: this.workflowPrompts.list()
+          }
+        };
+      }
+
+      // Handle prompts/get request
+      if (request.method === 'prompts/get') {
+        try {
+          return {
+            jsonrpc: '2.0',
+            id: request.id,
+            result: this.workflowPrompts.get(request.params?.name, request.params?.arguments)
+          };
+        } catch (error) {
+          return {
+            jsonrpc: '2.0',
+            id: request.id,
+            error: toJsonRpcError(error)
+          };
+        }
+      }
       
       // Handle unknown method
       return {
         jsonrpc: '2.0',
         id: request.id,
         error: {
-          code: -32601,
+          code: ErrorCodes.METHOD_NOT_FOUND,
           message: 'Method not found'
         }
       };
@@ -237,22 +1411,10 @@ export class ReportingMCPServer {
         jsonrpc: '2.0',
         id: request.id,
         error: {
-          code: -32603,
+          code: ErrorCodes.INTERNAL_ERROR,
           message: 'Internal server error'
         }
       };
     }
   }
 }
-
-// Handle graceful shutdown
-process.on('SIGINT', () => {
-  console.error('Shutting down...');
-  process.exit(0);
-});
-
-const server = new ReportingMCPServer();
-server.run().catch((error) => {
-  console.error('Failed to start server:', error);
-  process.exit(1);
-});
\ No newline at end of file
@@ -9,71 +9,231 @@
  * - Query optimization and caching
  */
 
-import { BigQuery, Dataset, Table } from '@google-cloud/bigquery';
+import { BigQuery, Dataset, Job, Query, Table } from '@google-cloud/bigquery';
+import { randomUUID } from 'crypto';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { ColumnMapper } from './column-mapping.js';
+import { ServerConfig } from '../config.js';
+import { ParameterizedQuery, QueryParameters } from './query-parameters.js';
+import { ACTIONS_REPORT_TABLE, OrderItem, SelectItem, SelectQuery, SqlExpression, numeric, or, selectItem } from './sql-builder.js';
+import { QueryCache, QueryCacheStats, createQueryCache } from './query-cache.js';
+import { classifyBigQueryError, isDuplicateJob, isFailedJob, isTransientBigQueryError, withRetry } from './bigquery-errors.js';
+import { QueryAuditLog, QueryAuditOutcome } from './query-audit.js';
+import {
+  BigQueryTimeoutError,
+  DataSourceConfigurationError,
+  ErrorCodes,
+  QueryCostLimitError,
+  ReportingError,
+  RequestCancelledError,
+  throwIfCancelled
+} from '../errors.js';
 import { 
   BigQueryConfig, 
   ActionRecord, 
+  ColumnMappingValidation,
+  DataSource,
+  DataSourceField,
+  QueryAuditContext,
+  QueryCostEstimate,
   QueryParseResult, 
   QueryResult,
-  ReportParameters 
+  ReportExecutionOptions,
+  ReportParameters,
+  ReportRows
 } from '../types/actions-report.js';
 
+// What is known about a query job as it runs, for its audit entry
+interface QueryTrace {
+  jobId?: string;
+  bytesProcessed?: number;
+}
+
 export class BigQueryClient {
   private bigquery: BigQuery | null = null;
   private config: BigQueryConfig | null = null;
   private dataset: Dataset | null = null;
   private table: Table | null = null;
-  private queryCache: Map<string, { data: any; timestamp: number }> = new Map();
-  private readonly CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+  private dataSource: DataSource | null = null;
+  private localRecords: ActionRecord[] | null = null;
+  private rawLocalRecords: Record<string, any>[] | null = null;
+  private columnMapper: ColumnMapper = new ColumnMapper();
+  private queryCache: QueryCache;
+  private auditLog: QueryAuditLog;
+  private runningJobs: Set<Job> = new Set();
+  // Runs (org and runId) the data has shown complete; a complete run never changes
+  private completeRuns: Set<string> = new Set();
+  private settings: Pick<ServerConfig, 'bigquery' | 'dataSource' | 'queryCache' | 'query' | 'queryAudit' | 'cost'>;
 
-  constructor() {
-    // Initialize empty - configuration happens via configure()
+  constructor(
+    settings: Pick<ServerConfig, 'bigquery' | 'dataSource' | 'queryCache' | 'query' | 'queryAudit' | 'cost'>,
+    queryCache: QueryCache = createQueryCache(settings.queryCache),
+    auditLog: QueryAuditLog = new QueryAuditLog(settings.queryAudit)
+  ) {
+    // Server settings only; the data source is attached via configure()
+    this.settings = settings;
+    this.queryCache = queryCache;
+    this.auditLog = auditLog;
   }
 
   // ========================================================================
   // CONFIGURATION
   // ========================================================================
   
-  async configure(config: BigQueryConfig): Promise<void> {
-    this.config = config;
-    
+  /**
+   * Connect to a BigQuery table. A `bigquery` instance, if given, is used in
+   * place of one built from the config's credentials.
+   */
+  async configure(config: BigQueryConfig, client?: BigQuery): Promise<void> {
     try {
-      // Initialize BigQuery client
-      const options: any = {
-        projectId: config.projectId,
-      };
+      const bigquery = client ?? BigQueryClient.createBigQuery(config);
+      const dataset = bigquery.dataset(config.datasetId);
+      const table = dataset.table(config.tableId);
 
-      if (config.keyFilename) {
-        options.keyFilename = config.keyFilename;
-      } else if (config.credentials) {
-        options.credentials = config.credentials;
-      }
+      // Test connection before replacing the active source
+      await this.testConnection(table);
 
-      this.bigquery = new BigQuery(options);
-      this.dataset = this.bigquery.dataset(config.datasetId);
-      this.table = this.dataset.table(config.tableId);
-
-      // Test connection
-      await this.testConnection();
+      this.bigquery = bigquery;
+      this.dataset = dataset;
+      this.table = table;
+      this.config = config;
+      this.dataSource = { type: 'bigquery', config };
+      this.localRecords = null;
+      this.rawLocalRecords = null;
+      this.columnMapper = new ColumnMapper();
       
       console.log(`✅ BigQuery connected: ${config.projectId}.${config.datasetId}.${config.tableId}`);
     } catch (error) {
-      throw new Error(`Failed to configure BigQuery: ${error instanceof Error ? error.message : String(error)}`);
+      // Permission and missing-table failures keep their classified reason
+      if (error instanceof ReportingError) {
+        throw error;
+      }
+      throw new DataSourceConfigurationError(`Failed to configure BigQuery: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private static createBigQuery(config: BigQueryConfig): BigQuery {
+    const options: any = {
+      projectId: config.projectId,
+    };
+
+    if (config.keyFilename) {
+      options.keyFilename = config.keyFilename;
+    } else if (config.credentials) {
+      options.credentials = config.credentials;
+    }
+
+    return new BigQuery(options);
+  }
+
+  /**
+   * Use a local Actions Report file as the active data source
+   */
+  async configureLocalFile(filePath: string): Promise<void> {
+    const records = await this.loadFromCSV(filePath);
+
+    if (records.length === 0) {
+      throw new DataSourceConfigurationError(`Local data source ${filePath} contains no records`);
+    }
+
+    this.rawLocalRecords = records;
+    this.localRecords = records;
+    this.dataSource = { type: 'csv', config: { filePath } };
+    this.columnMapper = new ColumnMapper();
+  }
+
+  // ========================================================================
+  // COLUMN MAPPING
+  // ========================================================================
+
+  /**
+   * Validate a logical-to-physical column mapping against the active source schema
+   */
+  async validateColumnMapping(mapping: Record<string, string>): Promise<ColumnMappingValidation> {
+    return ColumnMapper.validate(mapping, await this.getPhysicalSchema());
+  }
+
+  /**
+   * Validate and activate a column mapping for the active source
+   */
+  async setColumnMapping(mapping: Record<string, string>): Promise<ColumnMappingValidation> {
+    const schema = await this.getPhysicalSchema();
+    const validation = ColumnMapper.validate(mapping, schema);
+
+    if (validation.valid) {
+      this.columnMapper = new ColumnMapper(mapping, schema);
+      if (this.rawLocalRecords) {
+        this.localRecords = this.rawLocalRecords.map(record => this.columnMapper.remapRecord(record));
+      }
+    }
+
+    return validation;
+  }
+
+  getColumnMapping(): Record<string, string> {
+    return this.columnMapper.getMapping();
+  }
+
+  async configureDataSource(source: DataSource): Promise<void> {
+    switch (source.type) {
+      case 'bigquery':
+        return this.configure(source.config as BigQueryConfig);
+      case 'csv':
+        return this.configureLocalFile((source.config as { filePath: string }).filePath);
+      default:
+        throw new DataSourceConfigurationError(`Unsupported data source type: ${(source as any).type}`);
     }
   }
 
-  private async testConnection(): Promise<void> {
+  isConfigured(): boolean {
+    return this.dataSource !== null;
+  }
+
+  isLocalSource(): boolean {
+    return this.dataSource?.type === 'csv';
+  }
+
+  getDataSource(): DataSource | null {
+    return this.dataSource;
+  }
+
+  /**
+   * Describe the columns available in the active data source
+   */
+  async getSchema(): Promise<DataSourceField[]> {
+    return this.getPhysicalSchema();
+  }
+
+  private async getPhysicalSchema(): Promise<DataSourceField[]> {
+    if (this.isLocalSource()) {
+      return this.inferLocalSchema(this.rawLocalRecords || []);
+    }
+
     if (!this.table) {
-      throw new Error('BigQuery table not configured');
+      throw new DataSourceConfigurationError('Data source not configured');
     }
 
+    const table = this.table;
+    let metadata: any;
     try {
-      const [metadata] = await this.table.getMetadata();
+      [metadata] = await withRetry(() => table.getMetadata(), this.settings.bigquery.retry, { label: 'BigQuery schema lookup' });
+    } catch (error) {
+      throw classifyBigQueryError(error, 'BigQuery schema lookup failed');
+    }
+    return (metadata.schema?.fields || []).map((field: any) => ({
+      name: field.name,
+      type: field.type,
+      ...(field.mode ? { mode: field.mode } : {})
+    }));
+  }
+
+  private async testConnection(table: Table): Promise<void> {
+    try {
+      const [metadata] = await withRetry(() => table.getMetadata(), this.settings.bigquery.retry, { label: 'BigQuery connection test' });
       console.log(`Table schema verified: ${metadata.schema?.fields?.length || 0} fields`);
     } catch (error) {
-      throw new Error(`BigQuery connection test failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw classifyBigQueryError(error, 'BigQuery connection test failed');
     }
   }
 
@@ -86,35 +246,65 @@ export class BigQueryClient {
    */
   async executeAnalyticalQuery(
     parseResult: QueryParseResult, 
-    parameters: ReportParameters
+    parameters: ReportParameters,
+    audit: QueryAuditContext = {}
   ): Promise<QueryResult> {
     const startTime = Date.now();
     
     try {
+      if (this.isLocalSource()) {
+        const localResults = this.runLocalAnalyticalQuery(parseResult, parameters);
+        const localData = this.formatAnalyticalResults(localResults, parseResult);
+
+        return {
+          success: true,
+          data: localData,
+          summary: this.generateResultSummary(localData, parseResult),
+          metadata: {
+            rows_processed: localResults.length,
+            execution_time_ms: Date.now() - startTime,
+            cached: false,
+            columns_used: parseResult.columns.map(col => col.mappedColumns).flat(),
+            truncated: false
+          }
+        };
+      }
+
       // Generate SQL from parsed query
-      const sql = this.generateAnalyticalSQL(parseResult, parameters);
+      const query = this.generateAnalyticalSQL(parseResult, parameters);
       
       // Check cache
-      const cacheKey = this.getCacheKey(sql, parameters);
-      const cached = this.getFromCache(cacheKey);
+      const cacheKey = this.getCacheKey(query);
+      const cached = await this.getCached(cacheKey);
       if (cached) {
+        await this.audit(query, parameters, { audit }, startTime, {
+          dryRun: false,
+          cacheHit: true,
+          status: 'succeeded',
+          rowCount: cached.length
+        });
+        const cachedData = this.formatAnalyticalResults(cached, parseResult);
         return {
           success: true,
-          data: cached,
+          data: cachedData,
+          summary: this.generateResultSummary(cachedData, parseResult),
           metadata: {
             rows_processed: cached.length,
             execution_time_ms: Date.now() - startTime,
             cached: true,
-            columns_used: parseResult.columns.map(col => col.mappedColumns).flat()
+            columns_used: parseResult.columns.map(col => col.mappedColumns).flat(),
+            truncated: false
           }
         };
       }
 
       // Execute query
-      const results = await this.executeQuery(sql);
+      const { rows: results, truncated } = await this.executeQuery(query, parameters, { audit }, row => row);
       
-      // Cache results
-      this.setCache(cacheKey, results);
+      // Cache complete results only
+      if (!truncated) {
+        await this.setCached(cacheKey, results, parameters, { audit });
+      }
 
       // Format results based on query intent
       const formattedData = this.formatAnalyticalResults(results, parseResult);
@@ -127,72 +317,151 @@ export class BigQueryClient {
           rows_processed: results.length,
           execution_time_ms: Date.now() - startTime,
           cached: false,
-          columns_used: parseResult.columns.map(col => col.mappedColumns).flat()
+          columns_used: parseResult.columns.map(col => col.mappedColumns).flat(),
+          truncated
         }
       };
 
     } catch (error) {
+      // Refused and classified BigQuery failures keep their own error codes
+      if (error instanceof ReportingError) {
+        throw error;
+      }
+
       return {
         success: false,
         error: {
           type: 'COMPUTATION_ERROR',
           message: error instanceof Error ? error.message : String(error),
-          suggestions: this.getErrorSuggestions(error)
+          suggestions: []
         },
         metadata: {
           rows_processed: 0,
           execution_time_ms: Date.now() - startTime,
           cached: false,
-          columns_used: []
+          columns_used: [],
+          truncated: false
         }
       };
     }
   }
 
   /**
-   * Execute predefined report queries
+   * Execute predefined report queries. The report parameters the SQL references
+   * (@runId, @orgId, @asOfSEC, @startDate, @endDate) are bound alongside the
+   * generator's own filter parameters.
+   *
+   * Each row goes through `transform` as its page arrives, so raw rows are never
+   * all held at once. The cache keeps the transformed rows of complete results;
+   * every report has its own SQL, so a key always belongs to one transform.
+   */
+  async executeReportQuery<T>(
+    query: ParameterizedQuery,
+    parameters: ReportParameters,
+    options: ReportExecutionOptions,
+    transform: (row: any) => T
+  ): Promise<ReportRows<T>> {
+    if (this.isLocalSource()) {
+      throw new DataSourceConfigurationError('SQL report queries are not supported for local file data sources');
+    }
+
+    const startedAt = Date.now();
+    const boundQuery = this.bindReportParameters(query, parameters);
+    const cacheKey = this.getCacheKey(boundQuery);
+    const cached = await this.getCached(cacheKey);
+    if (cached) {
+      await this.audit(boundQuery, parameters, options, startedAt, {
+        dryRun: false,
+        cacheHit: true,
+        status: 'succeeded',
+        rowCount: cached.length
+      });
+      options.onProgress?.('rows_received', `${cached.length} rows from the query cache`);
+      const maxRows = this.rowCap(options);
+      return { rows: cached.slice(0, maxRows) as T[], truncated: cached.length > maxRows };
+    }
+
+    const result = await this.executeQuery(boundQuery, parameters, options, transform);
+    if (!result.truncated) {
+      await this.setCached(cacheKey, result.rows, parameters, options);
+    }
+    return result;
+  }
+
+  /**
+   * Transform rows already in memory (local data sources), under the same
+   * row cap as BigQuery results
    */
-  async executeReportQuery(sql: string, parameters: ReportParameters): Promise<any[]> {
-    const parameterizedSQL = this.replaceParameters(sql, parameters);
-    return await this.executeQuery(parameterizedSQL);
+  limitRows<T>(rows: any[], transform: (row: any) => T, options: ReportExecutionOptions = {}): ReportRows<T> {
+    const maxRows = this.rowCap(options);
+    return { rows: rows.slice(0, maxRows).map(transform), truncated: rows.length > maxRows };
+  }
+
+  /**
+   * The report's own row cap, or MAX_QUERY_ROWS when that is lower
+   */
+  private rowCap(options: ReportExecutionOptions): number {
+    return Math.min(options.maxRows ?? Infinity, this.settings.query.maxRows);
+  }
+
+  /**
+   * Dry-run a report query: the bytes it would process, its on-demand cost and
+   * whether the bytes-billed limit would let it run
+   */
+  async estimateReportQuery(
+    query: ParameterizedQuery,
+    parameters: ReportParameters,
+    options: ReportExecutionOptions = {}
+  ): Promise<QueryCostEstimate> {
+    if (this.isLocalSource()) {
+      throw new DataSourceConfigurationError('Cost estimates are only available for BigQuery data sources');
+    }
+
+    const startedAt = Date.now();
+    const boundQuery = this.bindReportParameters(query, parameters);
+    const { maximumBytesBilled } = this.withCostLimit(parameters, options);
+
+    let estimate: QueryCostEstimate;
+    try {
+      estimate = await this.dryRun(boundQuery, maximumBytesBilled);
+    } catch (error) {
+      await this.auditFailure(boundQuery, parameters, options, startedAt, true, error);
+      throw error;
+    }
+
+    await this.audit(boundQuery, parameters, options, startedAt, {
+      dryRun: true,
+      cacheHit: false,
+      status: 'succeeded',
+      bytesProcessed: estimate.totalBytesProcessed
+    });
+    return estimate;
   }
 
   // ========================================================================
   // SQL GENERATION - Convert Parsed Queries to BigQuery SQL
   // ========================================================================
 
-  private generateAnalyticalSQL(parseResult: QueryParseResult, parameters: ReportParameters): string {
-    const { intent, aggregationType, columns, filters } = parseResult;
-    
-    // Build SELECT clause
-    const selectColumns = this.buildSelectClause(columns, aggregationType || 'sum');
-    
-    // Build FROM clause
-    const fromClause = this.buildFromClause();
-    
-    // Build WHERE clause
-    const whereClause = this.buildWhereClause(filters, parameters);
-    
-    // Build GROUP BY clause (if needed)
-    const groupByClause = this.buildGroupByClause(parseResult);
-    
-    // Build ORDER BY clause
-    const orderByClause = this.buildOrderByClause(parseResult);
+  private generateAnalyticalSQL(parseResult: QueryParseResult, parameters: ReportParameters): ParameterizedQuery {
+    const { aggregationType, columns, filters } = parseResult;
+    const params = new QueryParameters();
 
-    const sql = `
-      ${selectColumns}
-      ${fromClause}
-      ${whereClause}
-      ${groupByClause}
-      ${orderByClause}
-    `.trim().replace(/\s+/g, ' ');
+    const query = new SelectQuery()
+      .select(...this.buildSelectItems(columns, aggregationType || 'sum'))
+      .from(this.buildFromSource())
+      .where(...this.buildWhereConditions(filters, parameters, params))
+      .groupBy(...this.buildGroupByColumns(parseResult));
 
+    this.buildOrderBy(parseResult).forEach(item => query.orderBy(item.expression, item.direction));
+
+    const sql = query.toSQL();
     console.log('Generated SQL:', sql);
-    return sql;
+    return { sql, params };
   }
 
-  private buildSelectClause(columns: any[], aggregationType: string | undefined): string {
-    const selectParts: string[] = [];
+  private buildSelectItems(columns: any[], aggregationType: string | undefined): SelectItem[] {
+    const selectItems: SelectItem[] = [];
+    let aggregated = false;
     
     columns.forEach(columnMapping => {
       columnMapping.mappedColumns.forEach((column: string) => {
@@ -202,101 +471,91 @@ export class BigQueryClient {
           // Apply aggregation function
           switch (aggregationType) {
             case 'sum':
-              selectParts.push(`SUM(COALESCE(CAST(${column} AS BIGNUMERIC), 0)) as ${column}_sum`);
-              break;
             case 'avg':
-              selectParts.push(`AVG(COALESCE(CAST(${column} AS BIGNUMERIC), 0)) as ${column}_avg`);
-              break;
             case 'max':
-              selectParts.push(`MAX(COALESCE(CAST(${column} AS BIGNUMERIC), 0)) as ${column}_max`);
-              break;
             case 'min':
-              selectParts.push(`MIN(COALESCE(CAST(${column} AS BIGNUMERIC), 0)) as ${column}_min`);
+              selectItems.push(selectItem(`${aggregationType.toUpperCase()}(${numeric(column)})`, `${column}_${aggregationType}`));
+              aggregated = aggregated || aggregationType === 'sum' || aggregationType === 'avg';
               break;
           }
         } else if (aggregationType === 'count') {
-          selectParts.push(`COUNT(*) as transaction_count`);
+          selectItems.push(selectItem('COUNT(*)', 'transaction_count'));
+          aggregated = true;
         } else {
           // Non-aggregated column
-          selectParts.push(column);
+          selectItems.push(selectItem(column));
         }
       });
     });
 
     // Always include grouping columns for aggregations
-    if (selectParts.some(part => part.includes('SUM(') || part.includes('COUNT(') || part.includes('AVG('))) {
-      if (!selectParts.some(part => part === 'asset')) {
-        selectParts.unshift('asset');
-      }
+    if (aggregated && !selectItems.some(item => item.expression === 'asset' && !item.alias)) {
+      selectItems.unshift(selectItem('asset'));
     }
 
-    return `SELECT ${selectParts.join(', ')}`;
+    // No mapped columns (e.g. a pure filter query): return whole records
+    return selectItems.length > 0 ? selectItems : [selectItem('*')];
   }
 
-  private buildFromClause(): string {
+  private buildFromSource(): string {
     if (!this.config) {
-      throw new Error('BigQuery not configured');
+      throw new DataSourceConfigurationError('BigQuery not configured');
     }
     
-    return `FROM \`${this.config.projectId}.${this.config.datasetId}.${this.config.tableId}\``;
+    return this.getSourceReference();
   }
 
-  private buildWhereClause(filters: Record<string, any>, parameters: ReportParameters): string {
-    const conditions: string[] = [];
+  private buildWhereConditions(filters: Record<string, any>, parameters: ReportParameters, params: QueryParameters): SqlExpression[] {
+    const conditions: SqlExpression[] = [];
 
     // Required parameters
     if (parameters.runId) {
-      conditions.push(`runId = '${parameters.runId}'`);
+      conditions.push(`runId = ${params.string('runId', parameters.runId)}`);
     }
     
     if (parameters.orgId) {
-      conditions.push(`orgId = '${parameters.orgId}'`);
+      conditions.push(`orgId = ${params.string('orgId', parameters.orgId)}`);
     }
 
     // Asset filters
     if (filters.assets && filters.assets.length > 0) {
-      const assetList = filters.assets.map((asset: string) => `'${asset}'`).join(', ');
-      conditions.push(`asset IN (${assetList})`);
+      conditions.push(`asset IN UNNEST(${params.stringArray('assets', filters.assets)})`);
     }
 
     // Date filters
     if (filters.startDate) {
       const startTimestamp = Math.floor(new Date(filters.startDate).getTime() / 1000);
-      conditions.push(`timestampSEC >= ${startTimestamp}`);
+      conditions.push(`timestampSEC >= ${params.int('startSEC', startTimestamp)}`);
     }
     
     if (filters.endDate) {
       const endTimestamp = Math.floor(new Date(filters.endDate + ' 23:59:59').getTime() / 1000);
-      conditions.push(`timestampSEC <= ${endTimestamp}`);
+      conditions.push(`timestampSEC <= ${params.int('endSEC', endTimestamp)}`);
     }
 
     // Wallet filters
     if (filters.includeWallets && filters.includeWallets.length > 0) {
-      const walletList = filters.includeWallets.map((wallet: string) => `'${wallet}'`).join(', ');
-      conditions.push(`wallet IN (${walletList})`);
+      conditions.push(`wallet IN UNNEST(${params.stringArray('includeWallets', filters.includeWallets)})`);
     }
     
     if (filters.excludeWallets && filters.excludeWallets.length > 0) {
-      const walletList = filters.excludeWallets.map((wallet: string) => `'${wallet}'`).join(', ');
-      conditions.push(`(wallet IS NULL OR wallet NOT IN (${walletList}))`);
+      conditions.push(or('wallet IS NULL', `wallet NOT IN UNNEST(${params.stringArray('excludeWallets', filters.excludeWallets)})`));
     }
 
     // Action filters
     if (filters.actions && filters.actions.length > 0) {
-      const actionList = filters.actions.map((action: string) => `'${action}'`).join(', ');
-      conditions.push(`action IN (${actionList})`);
+      conditions.push(`action IN UNNEST(${params.stringArray('actions', filters.actions)})`);
     }
 
     // Status filters
     if (filters.status && filters.status.length > 0) {
-      const statusList = filters.status.map((status: string) => `'${status}'`).join(', ');
-      conditions.push(`status IN (${statusList})`);
+      conditions.push(`status IN UNNEST(${params.stringArray('statuses', filters.status)})`);
     }
 
-    return conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    return conditions;
   }
 
-  private buildGroupByClause(parseResult: QueryParseResult): string {
+  private buildGroupByColumns(parseResult: QueryParseResult): string[] {
     const { aggregationType, columns } = parseResult;
     
     // Only add GROUP BY for aggregation queries
@@ -315,86 +574,475 @@ export class BigQueryClient {
         });
       });
 
-      return groupColumns.length > 0 ? `GROUP BY ${groupColumns.join(', ')}` : '';
+      return groupColumns;
     }
 
-    return '';
+    return [];
   }
 
-  private buildOrderByClause(parseResult: QueryParseResult): string {
-    const { intent, aggregationType } = parseResult;
+  private buildOrderBy(parseResult: QueryParseResult): OrderItem[] {
+    const { aggregationType } = parseResult;
     
     if (aggregationType === 'sum' || aggregationType === 'count') {
       // Order by the aggregated values (descending for totals)
-      return 'ORDER BY 2 DESC'; // Second column is usually the aggregated value
+      return [{ expression: '2', direction: 'DESC' }]; // Second column is usually the aggregated value
     }
     
     // Default ordering
-    return 'ORDER BY asset ASC, timestampSEC DESC';
+    return [{ expression: 'asset', direction: 'ASC' }, { expression: 'timestampSEC', direction: 'DESC' }];
   }
 
   // ========================================================================
   // QUERY EXECUTION AND UTILITIES
   // ========================================================================
 
-  private async executeQuery(sql: string): Promise<any[]> {
+  /**
+   * Run a query after a dry run confirms it fits the bytes-billed limit in
+   * options (already resolved by withCostLimit); BigQuery enforces the same cap.
+   * A query still running after QUERY_TIMEOUT_MS is cancelled as if the
+   * request had been, and fails with BigQueryTimeoutError.
+   */
+  private async executeQuery<T>(
+    query: ParameterizedQuery,
+    parameters: ReportParameters,
+    requestOptions: ReportExecutionOptions,
+    transform: (row: any) => T
+  ): Promise<ReportRows<T>> {
     if (!this.bigquery) {
-      throw new Error('BigQuery client not initialized');
+      throw new DataSourceConfigurationError('BigQuery client not initialized');
+    }
+
+    const startedAt = Date.now();
+    const { timeoutMs, logQueries, slowQueryThresholdMs } = this.settings.query;
+    const deadline = AbortSignal.timeout(timeoutMs);
+    const options = this.withCostLimit(parameters, {
+      ...requestOptions,
+      signal: requestOptions.signal ? AbortSignal.any([requestOptions.signal, deadline]) : deadline
+    });
+    const { signal, maximumBytesBilled } = options;
+    // Filled in as the job runs, so failures are audited with what is known
+    const trace: QueryTrace = {};
+    let result: ReportRows<T>;
+
+    if (logQueries) {
+      console.log(`Running query:\n${query.sql}\nParameters: ${JSON.stringify(query.params.toJobOptions().params)}`);
     }
 
     try {
-      const [job] = await this.bigquery.createQueryJob({
-        query: sql,
-        location: 'US', // Adjust based on your dataset location
-        jobTimeoutMs: 60000, // 60 second timeout
+      throwIfCancelled(signal);
+
+      const estimate = await this.dryRun(query, maximumBytesBilled);
+      trace.bytesProcessed = estimate.totalBytesProcessed;
+      if (!estimate.withinLimit) {
+        throw new QueryCostLimitError(
+          `Query would process ${BigQueryClient.formatBytes(estimate.totalBytesProcessed)}, ` +
+          `above the ${BigQueryClient.formatBytes(maximumBytesBilled!)} bytes-billed limit`,
+          {
+            ...estimate,
+            suggestions: [
+              'Narrow the run with asset, subsidiary or date filters',
+              'Check the cost first with estimate_query_cost',
+              'Ask an administrator to raise the limit for this organization'
+            ]
+          }
+        );
+      }
+      throwIfCancelled(signal);
+
+      // A job that failed on BigQuery's side is finished, so rerunning it cannot double-bill
+      result = await withRetry(() => this.runQueryJob(query, options, transform, trace), this.settings.bigquery.retry, {
+        signal,
+        retryable: error => isFailedJob(error) && isTransientBigQueryError(error),
+        label: 'BigQuery job'
       });
+    } catch (error) {
+      const timedOut = error instanceof RequestCancelledError && deadline.aborted && !requestOptions.signal?.aborted;
+      const failure = timedOut
+        ? new BigQueryTimeoutError(`Query did not finish within QUERY_TIMEOUT_MS (${timeoutMs}ms) and was cancelled`, {
+          timeoutMs,
+          ...(trace.jobId ? { jobId: trace.jobId } : {}),
+          suggestions: ['Narrow the run with asset, subsidiary or date filters', 'Run the report with start_report_job']
+        })
+        : error instanceof ReportingError ? error : classifyBigQueryError(error, 'BigQuery execution failed');
+      if (!(error instanceof ReportingError)) {
+        console.error('BigQuery execution error:', error);
+      }
+
+      await this.auditFailure(query, parameters, options, startedAt, false, failure, trace);
+      throw failure;
+    }
+
+    const elapsedMs = Date.now() - startedAt;
+    if (slowQueryThresholdMs > 0 && elapsedMs >= slowQueryThresholdMs) {
+      console.warn(`Slow query: ${elapsedMs}ms${trace.jobId ? ` (job ${trace.jobId})` : ''}, over SLOW_QUERY_THRESHOLD_MS=${slowQueryThresholdMs}`);
+    }
+
+    await this.audit(query, parameters, options, startedAt, {
+      dryRun: false,
+      cacheHit: false,
+      status: 'succeeded',
+      ...trace,
+      rowCount: result.rows.length,
+      truncated: result.truncated
+    });
+    return result;
+  }
+
+  /**
+   * Create one query job and wait for its rows. Failed requests (creating the
+   * job, polling it while it runs) are retried; the running job is polled
+   * again rather than replaced.
+   */
+  private async runQueryJob<T>(
+    query: ParameterizedQuery,
+    options: ReportExecutionOptions,
+    transform: (row: any) => T,
+    trace: QueryTrace
+  ): Promise<ReportRows<T>> {
+    const bigquery = this.bigquery!;
+    const { signal, maximumBytesBilled } = options;
+
+    let job: Job | null = null;
+    let onAbort: (() => void) | null = null;
+
+    try {
+      job = await this.createQueryJob(bigquery, {
+        query: query.sql,
+        ...query.params.toJobOptions(),
+        ...(maximumBytesBilled !== undefined ? { maximumBytesBilled: String(maximumBytesBilled) } : {}),
+        location: this.settings.bigquery.location,
+        jobTimeoutMs: this.settings.bigquery.jobTimeoutMs,
+      }, { signal, label: 'BigQuery job creation' });
+      this.runningJobs.add(job);
+      if (job.id) {
+        trace.jobId = job.id;
+      }
 
       console.log(`Query job created: ${job.id}`);
+      options.onProgress?.('job_created', `BigQuery job ${job.id} created`);
+
+      // Cancelling the request cancels the job instead of leaving it to run out its timeout
+      const queryJob = job;
+      const cancelled = new Promise<never>((_, reject) => {
+        onAbort = () => {
+          queryJob.cancel()
+            .then(() => console.error(`Cancelled BigQuery job ${queryJob.id}`))
+            .catch(error => console.error(`Failed to cancel BigQuery job ${queryJob.id}:`, error));
+          reject(new RequestCancelledError('Request cancelled', { jobId: queryJob.id }));
+        };
+      });
+      if (signal) {
+        if (signal.aborted) {
+          onAbort!();
+        } else {
+          signal.addEventListener('abort', onAbort!, { once: true });
+        }
+      }
+
+      const maxRows = this.rowCap(options);
+      const result = await Promise.race([this.readQueryResults(queryJob, signal, transform, trace, maxRows), cancelled]);
+      console.log(`Query returned ${result.rows.length} rows${result.truncated ? ` (truncated at ${maxRows})` : ''}`);
+      options.onProgress?.('rows_received', `${result.rows.length} rows received${result.truncated ? ', truncated' : ''}`);
       
-      const [rows] = await job.getQueryResults();
-      console.log(`Query returned ${rows.length} rows`);
-      
-      return rows;
+      return result;
+    } finally {
+      if (onAbort) {
+        signal?.removeEventListener('abort', onAbort);
+      }
+      if (job) {
+        this.runningJobs.delete(job);
+      }
+    }
+  }
+
+  /**
+   * Create a query job under one jobId kept across retries, so a retry after a
+   * creation that reached BigQuery finds the existing job instead of starting
+   * a second one (and billing the query twice)
+   */
+  private async createQueryJob(
+    bigquery: BigQuery,
+    request: Query,
+    options: { signal?: AbortSignal | undefined; label: string }
+  ): Promise<Job> {
+    const jobId = `mcp_${randomUUID()}`;
+
+    return withRetry(async () => {
+      try {
+        const [job] = await bigquery.createQueryJob({ ...request, jobId });
+        return job;
+      } catch (error) {
+        // Dry runs are never stored, so only a real job can already exist
+        if (request.dryRun || !isDuplicateJob(error)) {
+          throw error;
+        }
+
+        console.log(`BigQuery job ${jobId} already exists; using it`);
+        const job = bigquery.job(jobId, { location: this.settings.bigquery.location });
+        await job.getMetadata();
+        return job;
+      }
+    }, this.settings.bigquery.retry, options);
+  }
+
+  /**
+   * Read a job's rows a page of BIGQUERY_MAX_RESULTS at a time, transforming
+   * each page before fetching the next, and stop once maxRows are kept.
+   * Each getQueryResults call waits only as long as BigQuery holds a request
+   * open; a job still running then answers jobComplete: false with no rows,
+   * so the same page is asked for again until the job finishes. Failed polls
+   * are retried against the same job.
+   */
+  private async readQueryResults<T>(
+    job: Job,
+    signal: AbortSignal | undefined,
+    transform: (row: any) => T,
+    trace: QueryTrace,
+    maxRows: number
+  ): Promise<ReportRows<T>> {
+    const rows: T[] = [];
+    let pageToken: string | undefined;
+
+    for (;;) {
+      // One row past the cap is enough to tell a truncated result from an exact fit
+      const maxResults = Math.min(this.settings.bigquery.maxResults, maxRows - rows.length + 1);
+      const [page, nextQuery, response] = await withRetry(
+        () => job.getQueryResults({ autoPaginate: false, maxResults, ...(pageToken ? { pageToken } : {}) }),
+        this.settings.bigquery.retry,
+        {
+          signal,
+          retryable: error => !isFailedJob(error) && isTransientBigQueryError(error),
+          label: `BigQuery job ${job.id} polling`
+        }
+      );
+
+      if (response?.jobComplete === false) {
+        continue;
+      }
+
+      // Bytes the finished job actually processed, in place of the dry-run estimate
+      if (response?.totalBytesProcessed !== undefined && response.totalBytesProcessed !== null) {
+        trace.bytesProcessed = Number(response.totalBytesProcessed);
+      }
+
+      for (const row of page) {
+        if (rows.length === maxRows) {
+          return { rows, truncated: true };
+        }
+        rows.push(transform(row));
+      }
+
+      pageToken = nextQuery?.pageToken;
+      if (!pageToken) {
+        return { rows, truncated: false };
+      }
+    }
+  }
+
+  /**
+   * Validate a query and measure what it would scan without running it
+   */
+  private async dryRun(query: ParameterizedQuery, maximumBytesBilled?: number): Promise<QueryCostEstimate> {
+    if (!this.bigquery) {
+      throw new DataSourceConfigurationError('BigQuery client not initialized');
+    }
+
+    const bigquery = this.bigquery;
+    let totalBytesProcessed: number;
+    try {
+      const job = await this.createQueryJob(bigquery, {
+        query: query.sql,
+        ...query.params.toJobOptions(),
+        location: this.settings.bigquery.location,
+        dryRun: true,
+      }, { label: 'BigQuery dry run' });
+      totalBytesProcessed = Number(job.metadata?.statistics?.totalBytesProcessed ?? 0);
     } catch (error) {
-      console.error('BigQuery execution error:', error);
-      throw error;
+      console.error('BigQuery dry run error:', error);
+      throw classifyBigQueryError(error, 'BigQuery dry run failed');
     }
+
+    const estimate: QueryCostEstimate = {
+      totalBytesProcessed,
+      estimatedCostUSD: totalBytesProcessed / 2 ** 40 * this.settings.cost.pricePerTiBUSD,
+      ...(maximumBytesBilled !== undefined ? { maximumBytesBilled } : {}),
+      withinLimit: maximumBytesBilled === undefined || totalBytesProcessed <= maximumBytesBilled
+    };
+    console.log(`Query dry run: ${BigQueryClient.formatBytes(totalBytesProcessed)} (~$${estimate.estimatedCostUSD.toFixed(4)})`);
+
+    return estimate;
   }
 
-  private replaceParameters(sql: string, parameters: ReportParameters): string {
-    let parameterizedSQL = sql;
-    
-    // Replace parameter placeholders
-    if (parameters.runId) {
-      parameterizedSQL = parameterizedSQL.replace(/@runId/g, `'${parameters.runId}'`);
+  /**
+   * Options carrying the effective bytes-billed limit: the org's limit (or the
+   * server default), tightened by a per-call limit but never loosened
+   */
+  private withCostLimit(parameters: ReportParameters, options: ReportExecutionOptions = {}): ReportExecutionOptions {
+    const { maximumBytesBilled: requested, ...rest } = options;
+    const { cost } = this.settings;
+    const orgLimit = parameters.orgId ? cost.orgMaximumBytesBilled?.[parameters.orgId] : undefined;
+    const configured = orgLimit ?? cost.maximumBytesBilled;
+    const limit = configured !== undefined && requested !== undefined
+      ? Math.min(configured, requested)
+      : configured ?? requested;
+
+    return limit !== undefined ? { ...rest, maximumBytesBilled: limit } : rest;
+  }
+
+  /**
+   * Append a query to the audit log. A query that cannot be audited fails, so
+   * no report is returned without its record.
+   */
+  private async audit(
+    query: ParameterizedQuery,
+    parameters: ReportParameters,
+    options: ReportExecutionOptions,
+    startedAt: number,
+    outcome: QueryAuditOutcome
+  ): Promise<void> {
+    const { tool, caller } = options.audit ?? {};
+
+    await this.auditLog.record({
+      timestamp: new Date(startedAt).toISOString(),
+      ...(tool ? { tool } : {}),
+      ...(caller ? { caller } : {}),
+      runId: parameters.runId,
+      ...(parameters.orgId ? { orgId: parameters.orgId } : {}),
+      sql: query.sql,
+      parameters: query.params.toJobOptions().params,
+      durationMs: Date.now() - startedAt,
+      ...outcome
+    });
+  }
+
+  /**
+   * Audit a failed query; the query's own error is what the caller sees, so a
+   * failed write here is only logged
+   */
+  private async auditFailure(
+    query: ParameterizedQuery,
+    parameters: ReportParameters,
+    options: ReportExecutionOptions,
+    startedAt: number,
+    dryRun: boolean,
+    error: unknown,
+    trace: QueryTrace = {}
+  ): Promise<void> {
+    const status = error instanceof RequestCancelledError ? 'cancelled'
+      : error instanceof QueryCostLimitError ? 'refused'
+        : 'failed';
+
+    try {
+      await this.audit(query, parameters, options, startedAt, {
+        dryRun,
+        cacheHit: false,
+        status,
+        ...trace,
+        error: {
+          code: error instanceof ReportingError ? error.code : ErrorCodes.INTERNAL_ERROR,
+          message: error instanceof Error ? error.message : String(error)
+        }
+      });
+    } catch (auditError) {
+      console.error('Failed to write query audit entry:', auditError);
+    }
+  }
+
+  /**
+   * Cancel every BigQuery job still running (used during shutdown)
+   */
+  async cancelRunningJobs(): Promise<number> {
+    const jobs = Array.from(this.runningJobs);
+
+    await Promise.all(jobs.map(async job => {
+      try {
+        await job.cancel();
+        console.error(`Cancelled BigQuery job ${job.id}`);
+      } catch (error) {
+        console.error(`Failed to cancel BigQuery job ${job.id}:`, error);
+      }
+    }));
+
+    return jobs.length;
+  }
+
+  /**
+   * Human-readable byte count (binary units, as BigQuery bills)
+   */
+  static formatBytes(bytes: number): string {
+    const units = ['B', 'KiB', 'MiB', 'GiB', 'TiB', 'PiB'];
+    let value = bytes;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+      value /= 1024;
+      unit++;
+    }
+    return `${unit === 0 ? value : value.toFixed(2)} ${units[unit]}`;
+  }
+
+  /**
+   * Resolve the as-of cutoff (end of day for asOfDate) as a Unix timestamp
+   */
+  static resolveAsOfSEC(parameters: ReportParameters): number | undefined {
+    if (parameters.asOfSEC) {
+      return parameters.asOfSEC;
+    }
+    if (parameters.asOfDate) {
+      return Math.floor(new Date(parameters.asOfDate + ' 23:59:59').getTime() / 1000);
+    }
+    return undefined;
+  }
+
+  /**
+   * Bind the report parameters a query references and resolve the table placeholder
+   */
+  private bindReportParameters(query: ParameterizedQuery, parameters: ReportParameters): ParameterizedQuery {
+    const { params } = query;
+    let parameterizedSQL = query.sql;
+    const references = (name: string) => new RegExp(`@${name}\\b`).test(query.sql);
+
+    if (parameters.runId && references('runId')) {
+      params.string('runId', parameters.runId);
     }
     
-    if (parameters.orgId) {
-      parameterizedSQL = parameterizedSQL.replace(/@orgId/g, `'${parameters.orgId}'`);
+    if (parameters.orgId && references('orgId')) {
+      params.string('orgId', parameters.orgId);
     }
     
-    if (parameters.asOfSEC) {
-      parameterizedSQL = parameterizedSQL.replace(/@asOfSEC/g, parameters.asOfSEC.toString());
-    } else if (parameters.asOfDate) {
-      const asOfSEC = Math.floor(new Date(parameters.asOfDate + ' 23:59:59').getTime() / 1000);
-      parameterizedSQL = parameterizedSQL.replace(/@asOfSEC/g, asOfSEC.toString());
+    const asOfSEC = BigQueryClient.resolveAsOfSEC(parameters);
+    if (asOfSEC !== undefined && references('asOfSEC')) {
+      params.int('asOfSEC', asOfSEC);
     }
     
-    if (parameters.startDate) {
-      parameterizedSQL = parameterizedSQL.replace(/@startDate/g, `'${parameters.startDate}'`);
+    if (parameters.startDate && references('startDate')) {
+      params.string('startDate', parameters.startDate);
     }
     
-    if (parameters.endDate) {
-      parameterizedSQL = parameterizedSQL.replace(/@endDate/g, `'${parameters.endDate}'`);
+    if (parameters.endDate && references('endDate')) {
+      params.string('endDate', parameters.endDate);
     }
 
-    // Replace table reference placeholder
-    if (this.config) {
+    // Replace table reference placeholder (column-mapped when a mapping is active)
+    if (this.config && !query.sourceResolved) {
       const tableRef = `${this.config.projectId}.${this.config.datasetId}.${this.config.tableId}`;
+      parameterizedSQL = parameterizedSQL.replace(/`\{ACTIONS_REPORT_TABLE\}`/g, () => this.getSourceReference());
       parameterizedSQL = parameterizedSQL.replace(/\{ACTIONS_REPORT_TABLE\}/g, tableRef);
     }
 
-    return parameterizedSQL;
+    return { sql: parameterizedSQL, params };
+  }
+
+  /**
+   * Actions Report table reference, wrapped in a projection when columns are mapped
+   */
+  getSourceReference(): string {
+    if (!this.config) {
+      throw new DataSourceConfigurationError('BigQuery not configured');
+    }
+
+    return this.columnMapper.buildSourceReference(
+      `${this.config.projectId}.${this.config.datasetId}.${this.config.tableId}`
+    );
   }
 
   // ========================================================================
@@ -513,28 +1161,94 @@ export class BigQueryClient {
   // CACHING AND OPTIMIZATION
   // ========================================================================
 
-  private getCacheKey(sql: string, parameters: ReportParameters): string {
-    return `${sql}_${JSON.stringify(parameters)}`;
+  getCacheStats(): QueryCacheStats {
+    return this.queryCache.stats();
+  }
+
+  /**
+   * Keys hold the resolved SQL (table reference and column projection included)
+   * and its parameters, so a new data source or mapping never hits old entries
+   */
+  private getCacheKey(query: ParameterizedQuery): string {
+    return `${query.sql}_${JSON.stringify(query.params.toJobOptions().params)}`;
   }
 
-  private getFromCache(key: string): any | null {
-    const cached = this.queryCache.get(key);
-    if (cached && (Date.now() - cached.timestamp) < this.CACHE_TTL) {
-      return cached.data;
+  /**
+   * Results of a run the data shows complete never change, so they are kept
+   * for QUERY_CACHE_RUN_TTL_MS; any other run may still be written. An empty
+   * result shows nothing about the run and is not worth checking it for.
+   */
+  private async cacheTtl(rows: any[], parameters: ReportParameters, options: ReportExecutionOptions): Promise<number> {
+    const { ttlMs, runTtlMs } = this.settings.queryCache;
+    if (runTtlMs <= ttlMs || rows.length === 0) {
+      return ttlMs;
     }
-    
-    if (cached) {
-      this.queryCache.delete(key); // Remove expired cache
+    return await this.isRunComplete(parameters, options) ? runTtlMs : ttlMs;
+  }
+
+  /**
+   * A run is complete once it has rows and every one of them has status
+   * 'complete'. Each run is checked against BigQuery until it is complete,
+   * and never again after that.
+   */
+  private async isRunComplete(parameters: ReportParameters, options: ReportExecutionOptions): Promise<boolean> {
+    const run = JSON.stringify([parameters.orgId ?? null, parameters.runId]);
+    if (this.completeRuns.has(run)) {
+      return true;
     }
-    
-    return null;
+
+    const sql = new SelectQuery()
+      .select(selectItem('COUNT(*)', 'rowCount'), selectItem(`COUNTIF(status IS NULL OR status != 'complete')`, 'openCount'))
+      .from(ACTIONS_REPORT_TABLE)
+      .where('runId = @runId', parameters.orgId ? 'orgId = @orgId' : undefined)
+      .toSQL();
+    const query = this.bindReportParameters({ sql, params: new QueryParameters() }, parameters);
+    // The check is audited with the report's caller, but reports no progress of its own
+    const { signal, maximumBytesBilled, audit } = options;
+    const checkOptions: ReportExecutionOptions = {
+      ...(signal ? { signal } : {}),
+      ...(maximumBytesBilled !== undefined ? { maximumBytesBilled } : {}),
+      ...(audit ? { audit } : {})
+    };
+
+    let complete: boolean;
+    try {
+      const { rows: [counts] } = await this.executeQuery(query, parameters, checkOptions, row => row);
+      complete = Number(counts?.rowCount ?? 0) > 0 && Number(counts?.openCount) === 0;
+    } catch (error) {
+      console.error(`Could not check whether run ${parameters.runId} is complete:`, error);
+      return false;
+    }
+
+    if (complete) {
+      this.completeRuns.add(run);
+    }
+    return complete;
   }
 
-  private setCache(key: string, data: any): void {
-    this.queryCache.set(key, {
-      data,
-      timestamp: Date.now()
-    });
+  // A failing cache only costs a query, never the report
+
+  private async getCached(key: string): Promise<any[] | undefined> {
+    try {
+      return await this.queryCache.get(key);
+    } catch (error) {
+      console.error('Query cache read failed:', error);
+      return undefined;
+    }
+  }
+
+  private async setCached(key: string, rows: any[], parameters: ReportParameters, options: ReportExecutionOptions): Promise<void> {
+    // Nothing to check the run for when the cache would not keep the rows
+    const { maxSize, maxRows } = this.settings.queryCache;
+    if (maxSize === 0 || rows.length > maxRows) {
+      return;
+    }
+
+    try {
+      await this.queryCache.set(key, rows, await this.cacheTtl(rows, parameters, options));
+    } catch (error) {
+      console.error('Query cache write failed:', error);
+    }
   }
 
   // ========================================================================
@@ -555,56 +1269,192 @@ export class BigQueryClient {
     };
   }
 
-  private getErrorSuggestions(error: any): string[] {
-    const suggestions: string[] = [];
-    
-    if (error.message?.includes('permission')) {
-      suggestions.push('Check BigQuery IAM permissions');
-      suggestions.push('Verify service account has BigQuery Data Viewer role');
-    }
-    
-    if (error.message?.includes('not found')) {
-      suggestions.push('Verify table name and dataset configuration');
-      suggestions.push('Check if the specified runId exists');
-    }
-    
-    if (error.message?.includes('timeout')) {
-      suggestions.push('Try reducing the date range');
-      suggestions.push('Add more specific filters to reduce data volume');
-    }
-    
-    return suggestions;
-  }
-
   // ========================================================================
   // CSV FALLBACK SUPPORT
   // ========================================================================
 
   async loadFromCSV(filePath: string): Promise<ActionRecord[]> {
     try {
-      const csvContent = await fs.readFile(filePath, 'utf-8');
-      // Basic CSV parsing (in production, use a proper CSV library like papaparse)
-      const lines = csvContent.split('\n');
-      const headers = lines[0]?.split(',') || [];
+      const csvContent = await fs.readFile(filePath, this.settings.dataSource.csvEncoding);
+      const lines = csvContent.split(/\r?\n/);
+      const headers = this.parseCSVLine(lines[0] || '').map(header => header.trim());
       const records: ActionRecord[] = [];
       
       for (let i = 1; i < lines.length; i++) {
         if (lines[i]?.trim()) {
-          const values = lines[i]?.split(',') || [];
+          const values = this.parseCSVLine(lines[i] || '');
           const record: any = {};
           
           headers.forEach((header, index) => {
-            record[header.trim()] = values[index]?.trim();
+            record[header] = values[index]?.trim();
           });
           
           records.push(record as ActionRecord);
         }
       }
       
-      console.log(`✅ Loaded ${records.length} records from CSV: ${filePath}`);
+      console.log(`✅ Loaded ${records.length} records from CSV: ${path.basename(filePath)}`);
       return records;
     } catch (error) {
-      throw new Error(`Failed to load CSV: ${error instanceof Error ? error.message : String(error)}`);
+      throw new DataSourceConfigurationError(`Failed to load CSV: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Split a CSV line, honoring double-quoted fields and escaped quotes
+   */
+  private parseCSVLine(line: string): string[] {
+    const values: string[] = [];
+    let current = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+
+      if (inQuotes) {
+        if (char === '"' && line[i + 1] === '"') {
+          current += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          current += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        values.push(current);
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+
+    values.push(current);
+    return values;
+  }
+
+  private inferLocalSchema(records: Record<string, any>[]): DataSourceField[] {
+    const columns = new Set<string>();
+    records.forEach(record => Object.keys(record).forEach(column => columns.add(column)));
+
+    return Array.from(columns).map(column => {
+      const sample = records
+        .map(record => (record as any)[column])
+        .find(value => value !== undefined && value !== null && value !== '');
+
+      let type = 'STRING';
+      if (sample !== undefined) {
+        if (/^(true|false)$/i.test(String(sample))) {
+          type = 'BOOLEAN';
+        } else if (!isNaN(Number(sample))) {
+          type = 'NUMERIC';
+        }
+      }
+
+      return { name: column, type };
+    });
+  }
+
+  /**
+   * Records from the local data source scoped to runId/orgId and, when requested, the as-of cutoff
+   */
+  getLocalRecords(parameters: ReportParameters, options: { applyAsOf?: boolean } = {}): ActionRecord[] {
+    if (!this.localRecords) {
+      throw new DataSourceConfigurationError('Local data source not configured');
     }
+
+    const asOfSEC = options.applyAsOf ? BigQueryClient.resolveAsOfSEC(parameters) : undefined;
+
+    return this.localRecords.filter(record => {
+      if (record.runId !== parameters.runId) return false;
+      if (parameters.orgId && record.orgId !== parameters.orgId) return false;
+      if (asOfSEC !== undefined && Number(record.timestampSEC) > asOfSEC) return false;
+      return true;
+    });
+  }
+
+  /**
+   * In-memory equivalent of generateAnalyticalSQL for local data sources
+   */
+  private runLocalAnalyticalQuery(parseResult: QueryParseResult, parameters: ReportParameters): any[] {
+    const { aggregationType, columns, filters } = parseResult;
+    const toNumber = (value: any): number => {
+      const parsed = parseFloat(value);
+      return isNaN(parsed) ? 0 : parsed;
+    };
+
+    const startTimestamp = filters.startDate ? Math.floor(new Date(filters.startDate).getTime() / 1000) : undefined;
+    const endTimestamp = filters.endDate ? Math.floor(new Date(filters.endDate + ' 23:59:59').getTime() / 1000) : undefined;
+
+    const records = this.getLocalRecords(parameters).filter(record => {
+      const timestampSEC = Number(record.timestampSEC);
+      if (filters.assets?.length && !filters.assets.includes(record.asset)) return false;
+      if (startTimestamp !== undefined && timestampSEC < startTimestamp) return false;
+      if (endTimestamp !== undefined && timestampSEC > endTimestamp) return false;
+      if (filters.includeWallets?.length && !filters.includeWallets.includes(record.wallet)) return false;
+      if (filters.excludeWallets?.length && record.wallet && filters.excludeWallets.includes(record.wallet)) return false;
+      if (filters.actions?.length && !filters.actions.includes(record.action)) return false;
+      if (filters.status?.length && !filters.status.includes(record.status)) return false;
+      return true;
+    });
+
+    const mappedColumns: string[] = columns.map(col => col.mappedColumns).flat();
+    const aggregateColumns = mappedColumns.filter(column => this.getColumnMetadata(column)?.aggregatable);
+    const isAggregation = aggregationType === 'count' || aggregateColumns.length > 0;
+
+    if (!isAggregation) {
+      return records
+        .map(record => Object.fromEntries(mappedColumns.map(column => [column, (record as any)[column]])))
+        .sort((a: any, b: any) => String(a.asset ?? '').localeCompare(String(b.asset ?? '')));
+    }
+
+    const groupColumns = ['asset', ...mappedColumns.filter(column => column !== 'asset' && !this.getColumnMetadata(column)?.aggregatable)];
+    const groups = new Map<string, ActionRecord[]>();
+    records.forEach(record => {
+      const key = groupColumns.map(column => String((record as any)[column] ?? '')).join('|');
+      const group = groups.get(key);
+      if (group) {
+        group.push(record);
+      } else {
+        groups.set(key, [record]);
+      }
+    });
+
+    const rows = Array.from(groups.values()).map(groupRecords => {
+      const row: any = {};
+      groupColumns.forEach(column => { row[column] = (groupRecords[0] as any)[column]; });
+
+      if (aggregationType === 'count') {
+        row.transaction_count = groupRecords.length;
+        return row;
+      }
+
+      aggregateColumns.forEach(column => {
+        const values = groupRecords.map(record => toNumber((record as any)[column]));
+        switch (aggregationType) {
+          case 'avg':
+            row[`${column}_avg`] = values.reduce((sum, value) => sum + value, 0) / values.length;
+            break;
+          case 'max':
+            row[`${column}_max`] = Math.max(...values);
+            break;
+          case 'min':
+            row[`${column}_min`] = Math.min(...values);
+            break;
+          default:
+            row[`${column}_sum`] = values.reduce((sum, value) => sum + value, 0);
+        }
+      });
+      return row;
+    });
+
+    // Mirror ORDER BY 2 DESC for sums and counts
+    if (aggregationType === 'sum' || aggregationType === 'count') {
+      const valueKey = aggregationType === 'count' ? 'transaction_count' : `${aggregateColumns[0]}_sum`;
+      rows.sort((a, b) => toNumber(b[valueKey]) - toNumber(a[valueKey]));
+    }
+
+    return rows;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,241 @@
+/**
+ * BigQuery Errors - Retries and Classification of BigQuery Failures
+ *
+ * Handles:
+ * - Telling transient failures (rate limits, backend errors, dropped
+ *   connections) from permanent ones, using BigQuery's error reasons and HTTP
+ *   status rather than message text
+ * - Retrying transient failures with jittered exponential backoff
+ * - Recognising a retried job creation that BigQuery already accepted
+ * - Converting everything else to a typed ReportingError with a stable
+ *   data.reason and suggestions for that cause
+ */
+
+import {
+  BigQueryExecutionError,
+  BigQueryInvalidQueryError,
+  BigQueryPermissionError,
+  BigQueryQuotaError,
+  BigQueryTableNotFoundError,
+  BigQueryTimeoutError,
+  BigQueryUnavailableError,
+  QueryCostLimitError,
+  ReportingError,
+  RequestCancelledError,
+  throwIfCancelled
+} from '../errors.js';
+import { RetrySettings } from '../config.js';
+
+// Reasons BigQuery documents as safe to retry
+const TRANSIENT_REASONS = new Set([
+  'backendError',
+  'internalError',
+  'rateLimitExceeded',
+  'jobBackendError',
+  'jobInternalError',
+  'jobRateLimitExceeded',
+  'tableUnavailable'
+]);
+
+const TRANSIENT_STATUS_CODES = new Set([429, 500, 502, 503, 504]);
+
+const NETWORK_ERROR_CODES = new Set(['ECONNRESET', 'ETIMEDOUT', 'ESOCKETTIMEDOUT', 'EPIPE', 'EAI_AGAIN']);
+
+/**
+ * BigQuery's reasons for a failure: the request's errors, plus the job's
+ * errorResult when the job itself failed
+ */
+function failureReasons(error: any): string[] {
+  const reasons = (Array.isArray(error?.errors) ? error.errors : [])
+    .map((detail: any) => detail?.reason)
+    .filter((reason: unknown): reason is string => typeof reason === 'string');
+  const jobReason = error?.response?.status?.errorResult?.reason;
+
+  return typeof jobReason === 'string' ? [jobReason, ...reasons] : reasons;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Whether retrying the same request could succeed
+ */
+export function isTransientBigQueryError(error: unknown): boolean {
+  if (error instanceof ReportingError) {
+    return false;
+  }
+
+  const reasons = failureReasons(error);
+  if (reasons.length > 0) {
+    return reasons.every(reason => TRANSIENT_REASONS.has(reason));
+  }
+
+  const code = (error as any)?.code;
+  return typeof code === 'number' ? TRANSIENT_STATUS_CODES.has(code) : NETWORK_ERROR_CODES.has(code);
+}
+
+/**
+ * Whether the error is a finished job's failure (as opposed to a failed
+ * request), so running the query again starts a fresh job
+ */
+export function isFailedJob(error: unknown): boolean {
+  const status = (error as any)?.response?.status;
+  return Boolean(status?.errorResult || status?.errors);
+}
+
+/**
+ * Whether creating a job failed because a job with its jobId already exists,
+ * i.e. an earlier attempt that looked failed actually reached BigQuery
+ */
+export function isDuplicateJob(error: unknown): boolean {
+  return (error as any)?.code === 409 || failureReasons(error).includes('duplicate');
+}
+
+/**
+ * Typed error for a BigQuery failure; `action` prefixes the message
+ * (e.g. "BigQuery execution failed")
+ */
+export function classifyBigQueryError(error: unknown, action: string): ReportingError {
+  if (error instanceof ReportingError) {
+    return error;
+  }
+
+  const reasons = failureReasons(error);
+  const code = (error as any)?.code;
+  const message = `${action}: ${errorMessage(error)}`;
+  const data = reasons.length > 0 ? { bigQueryReasons: reasons } : {};
+  const has = (...candidates: string[]) => candidates.some(candidate => reasons.includes(candidate));
+
+  if (has('bytesBilledLimitExceeded')) {
+    return new QueryCostLimitError(message, {
+      ...data,
+      suggestions: ['Check the cost first with estimate_query_cost', 'Narrow the run with asset, subsidiary or date filters']
+    });
+  }
+
+  if (has('timeout') || /timed out|timeout exceeded/i.test(errorMessage(error))) {
+    return new BigQueryTimeoutError(message, {
+      ...data,
+      suggestions: [
+        'Narrow the date range or add asset and subsidiary filters',
+        'Run the report as a background job with start_report_job',
+        'Raise BIGQUERY_JOB_TIMEOUT_MS if long reports are expected'
+      ]
+    });
+  }
+
+  if (has('quotaExceeded', 'billingNotEnabled')) {
+    return new BigQueryQuotaError(message, {
+      ...data,
+      suggestions: [
+        'Wait for the project quota to reset, or request a higher quota',
+        'Reduce concurrent report runs and background jobs',
+        'Check that billing is enabled for the project'
+      ]
+    });
+  }
+
+  if (has('rateLimitExceeded', 'jobRateLimitExceeded') || (reasons.length === 0 && code === 429)) {
+    return new BigQueryUnavailableError(message, {
+      ...data,
+      suggestions: ['BigQuery is rate limiting this project; retry in a minute', 'Reduce concurrent report runs and background jobs']
+    });
+  }
+
+  if (has('accessDenied', 'forbidden', 'authError') || (reasons.length === 0 && (code === 401 || code === 403))) {
+    return new BigQueryPermissionError(message, {
+      ...data,
+      suggestions: [
+        'Grant the service account BigQuery Data Viewer on the dataset and BigQuery Job User on the project',
+        'Check GOOGLE_APPLICATION_CREDENTIALS points at the intended service account'
+      ]
+    });
+  }
+
+  if (has('notFound') || (reasons.length === 0 && code === 404)) {
+    return new BigQueryTableNotFoundError(message, {
+      ...data,
+      suggestions: [
+        'Verify the project, dataset and table with configure_data_source',
+        'Check BIGQUERY_LOCATION matches the dataset location'
+      ]
+    });
+  }
+
+  if (has('invalidQuery', 'invalid')) {
+    return new BigQueryInvalidQueryError(message, {
+      ...data,
+      suggestions: [
+        'Check the active column mapping against the table with validate_column_mapping',
+        'Confirm the table follows the Actions Report schema'
+      ]
+    });
+  }
+
+  if (isTransientBigQueryError(error)) {
+    return new BigQueryUnavailableError(message, {
+      ...data,
+      suggestions: ['BigQuery had a temporary backend error; retry shortly']
+    });
+  }
+
+  return new BigQueryExecutionError(message, data);
+}
+
+// ============================================================================
+// RETRIES
+// ============================================================================
+
+export interface RetryOptions {
+  signal?: AbortSignal | undefined;
+  // Which failures to retry (default: isTransientBigQueryError)
+  retryable?: (error: unknown) => boolean;
+  // Label for the retry log line
+  label?: string;
+}
+
+/**
+ * Run an operation, retrying retryable failures with full-jitter exponential
+ * backoff; the last failure is rethrown as-is once attempts run out
+ */
+export async function withRetry<T>(operation: () => Promise<T>, settings: RetrySettings, options: RetryOptions = {}): Promise<T> {
+  const { signal, retryable = isTransientBigQueryError, label = 'BigQuery request' } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    throwIfCancelled(signal);
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= settings.maxAttempts || !retryable(error)) {
+        throw error;
+      }
+
+      const delayMs = backoffDelay(attempt, settings);
+      console.error(`${label} failed (${errorMessage(error)}); retry ${attempt}/${settings.maxAttempts - 1} in ${delayMs}ms`);
+      await sleep(delayMs, signal);
+    }
+  }
+}
+
+/**
+ * Random delay up to the exponential ceiling for this attempt
+ */
+function backoffDelay(attempt: number, settings: RetrySettings): number {
+  const ceiling = Math.min(settings.maxDelayMs, settings.initialDelayMs * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,163 @@
+/**
+ * Column Mapping Service - Physical to Logical Column Translation
+ *
+ * Handles:
+ * - Mapping client-specific Actions Report headers to ActionRecord fields
+ * - Rewriting the Actions Report source so every SQL builder sees logical names
+ * - Renaming local file records to logical names
+ * - Validating a mapping against the live data source schema
+ */
+
+import {
+  ACTION_RECORD_FIELDS,
+  ActionRecord,
+  ColumnMappingValidation,
+  DataSourceField,
+  REQUIRED_ACTION_FIELDS
+} from '../types/actions-report.js';
+
+// BigQuery column types compatible with each logical field type.
+// Numeric and boolean fields are CAST by the report SQL, so STRING columns are accepted.
+const COMPATIBLE_TYPES: Record<'string' | 'number' | 'boolean', string[]> = {
+  string: ['STRING'],
+  number: ['INTEGER', 'INT64', 'FLOAT', 'FLOAT64', 'NUMERIC', 'BIGNUMERIC', 'STRING'],
+  boolean: ['BOOLEAN', 'BOOL', 'STRING']
+};
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export class ColumnMapper {
+  private mapping: Record<string, string>;
+  // Lowercased column name -> the schema's spelling
+  private schemaNames: Map<string, string>;
+
+  /**
+   * Columns are matched to the schema case-insensitively, as validate() and
+   * BigQuery match them, and stored under the schema's spelling, which is
+   * what local file records are keyed by.
+   *
+   * @param mapping logical ActionRecord field -> physical column name
+   * @param schema  schema of the data source the mapping applies to
+   */
+  constructor(mapping: Record<string, string> = {}, schema: DataSourceField[] = []) {
+    this.schemaNames = new Map(schema.map(field => [field.name.toLowerCase(), field.name]));
+    // Identity entries carry no information and would only complicate the projection
+    this.mapping = Object.fromEntries(
+      Object.entries(mapping)
+        .map(([field, column]) => [field, this.schemaNames.get(column.toLowerCase()) ?? column])
+        .filter(([field, column]) => field !== column)
+    );
+  }
+
+  getMapping(): Record<string, string> {
+    return { ...this.mapping };
+  }
+
+  isEmpty(): boolean {
+    return Object.keys(this.mapping).length === 0;
+  }
+
+  /**
+   * Physical column that holds a logical field
+   */
+  toPhysical(field: string): string {
+    return this.mapping[field] || field;
+  }
+
+  // ========================================================================
+  // SOURCE REWRITING
+  // ========================================================================
+
+  /**
+   * FROM-clause source for the Actions Report table with mapped columns aliased to logical names
+   */
+  buildSourceReference(tableRef: string): string {
+    if (this.isEmpty()) {
+      return `\`${tableRef}\``;
+    }
+
+    // By lowercased name, since BigQuery refuses a column listed twice in EXCEPT
+    const excluded = new Map<string, string>();
+
+    Object.entries(this.mapping).forEach(([field, column]) => {
+      excluded.set(column.toLowerCase(), column);
+      // A physical column already named like the logical field would collide with the alias
+      const existing = this.schemaNames.get(field.toLowerCase());
+      if (existing) {
+        excluded.set(field.toLowerCase(), existing);
+      }
+    });
+
+    const aliases = Object.entries(this.mapping)
+      .map(([field, column]) => `${column} AS ${field}`)
+      .join(', ');
+
+    return `(SELECT * EXCEPT(${Array.from(excluded.values()).join(', ')}), ${aliases} FROM \`${tableRef}\`)`;
+  }
+
+  /**
+   * Rename a raw local file record to logical field names
+   */
+  remapRecord(raw: Record<string, any>): ActionRecord {
+    if (this.isEmpty()) {
+      return raw as ActionRecord;
+    }
+
+    const record: Record<string, any> = { ...raw };
+    Object.values(this.mapping).forEach(column => { delete record[column]; });
+    Object.entries(this.mapping).forEach(([field, column]) => { record[field] = raw[column]; });
+
+    return record as ActionRecord;
+  }
+
+  // ========================================================================
+  // VALIDATION
+  // ========================================================================
+
+  /**
+   * Validate a mapping against a data source schema
+   */
+  static validate(mapping: Record<string, string>, schema: DataSourceField[]): ColumnMappingValidation {
+    const schemaByName = new Map(schema.map(field => [field.name.toLowerCase(), field]));
+    const result: ColumnMappingValidation = {
+      valid: true,
+      mapping,
+      unknownFields: [],
+      invalidColumns: [],
+      missingColumns: [],
+      typeMismatches: []
+    };
+
+    Object.entries(mapping).forEach(([field, column]) => {
+      if (!(field in ACTION_RECORD_FIELDS)) {
+        result.unknownFields.push(field);
+      }
+      if (typeof column !== 'string' || !IDENTIFIER_PATTERN.test(column)) {
+        result.invalidColumns.push(String(column));
+      }
+    });
+
+    Object.entries(ACTION_RECORD_FIELDS).forEach(([field, expectedType]) => {
+      const column = mapping[field] || field;
+      const physical = schemaByName.get(column.toLowerCase());
+
+      if (!physical) {
+        if (REQUIRED_ACTION_FIELDS.includes(field as keyof ActionRecord) || field in mapping) {
+          result.missingColumns.push({ field, column });
+        }
+        return;
+      }
+
+      if (!COMPATIBLE_TYPES[expectedType].includes(physical.type.toUpperCase())) {
+        result.typeMismatches.push({ field, column, expectedType, actualType: physical.type });
+      }
+    });
+
+    result.valid = result.unknownFields.length === 0 &&
+      result.invalidColumns.length === 0 &&
+      result.missingColumns.length === 0 &&
+      result.typeMismatches.length === 0;
+
+    return result;
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Query Audit Log - Append-Only Record of Every BigQuery Query
+ *
+ * Handles:
+ * - One JSON line per query BigQueryClient runs, dry-runs or answers from the
+ *   query cache: who asked, for which run, the final SQL and its parameters,
+ *   and what BigQuery did with it
+ * - Searching the log by time range, org and run for get_query_audit
+ *
+ * The file is only ever opened for appending; entries are never rewritten or
+ * removed by the server. Rotation and retention belong to the log pipeline.
+ */
+
+import { randomUUID } from 'crypto';
+import { createReadStream } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createInterface } from 'readline';
+import { QueryAuditSettings } from '../config.js';
+
+export type QueryAuditStatus = 'succeeded' | 'failed' | 'refused' | 'cancelled';
+
+export interface QueryAuditEntry {
+  id: string;
+  // ISO 8601 time the query started
+  timestamp: string;
+  // Tool the query ran for, and the MCP client that called it
+  tool?: string;
+  caller?: string;
+  runId: string;
+  orgId?: string;
+  // SQL as sent to BigQuery, and the values bound to its @parameters
+  sql: string;
+  parameters: Record<string, unknown>;
+  dryRun: boolean;
+  cacheHit: boolean;
+  jobId?: string;
+  bytesProcessed?: number;
+  rowCount?: number;
+  truncated?: boolean;
+  durationMs: number;
+  status: QueryAuditStatus;
+  error?: { code: number; message: string };
+}
+
+// What BigQueryClient knows about how a query ran, once it has finished
+export type QueryAuditOutcome = Pick<QueryAuditEntry, 'dryRun' | 'cacheHit' | 'status'> &
+  Partial<Pick<QueryAuditEntry, 'jobId' | 'bytesProcessed' | 'rowCount' | 'truncated' | 'error'>>;
+
+export interface QueryAuditFilter {
+  // Inclusive bounds on the entry timestamp
+  from?: Date;
+  to?: Date;
+  orgId?: string;
+  runId?: string;
+}
+
+export class QueryAuditLog {
+  private settings: QueryAuditSettings;
+  // Appends are chained so concurrent queries never interleave within a line
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(settings: QueryAuditSettings) {
+    this.settings = settings;
+  }
+
+  get enabled(): boolean {
+    return this.settings.enabled;
+  }
+
+  /**
+   * Append an entry; resolves once it is written
+   */
+  record(entry: Omit<QueryAuditEntry, 'id'>): Promise<void> {
+    if (!this.settings.enabled) {
+      return Promise.resolve();
+    }
+
+    const line = `${JSON.stringify({ id: randomUUID(), ...entry })}\n`;
+    const write = this.pending.then(async () => {
+      await fs.mkdir(path.dirname(this.settings.path), { recursive: true });
+      await fs.appendFile(this.settings.path, line, { flag: 'a' });
+    });
+    // A failed write is reported to its own caller, not to the next one
+    this.pending = write.catch(() => undefined);
+
+    return write;
+  }
+
+  /**
+   * Entries matching the filter, oldest first
+   */
+  async search(filter: QueryAuditFilter): Promise<QueryAuditEntry[]> {
+    await this.pending;
+
+    let input;
+    try {
+      await fs.access(this.settings.path);
+      input = createReadStream(this.settings.path, 'utf8');
+    } catch {
+      return [];
+    }
+
+    const from = filter.from?.getTime();
+    const to = filter.to?.getTime();
+    const matches: QueryAuditEntry[] = [];
+
+    for await (const line of createInterface({ input, crlfDelay: Infinity })) {
+      if (!line.trim()) {
+        continue;
+      }
+
+      let entry: QueryAuditEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        console.error(`Skipping unreadable query audit line: ${line.slice(0, 80)}`);
+        continue;
+      }
+
+      const time = Date.parse(entry.timestamp);
+      if ((from !== undefined && time < from) || (to !== undefined && time > to)) {
+        continue;
+      }
+      if ((filter.orgId && entry.orgId !== filter.orgId) || (filter.runId && entry.runId !== filter.runId)) {
+        continue;
+      }
+
+      matches.push(entry);
+    }
+
+    return matches;
+  }
+}
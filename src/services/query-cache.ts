@@ -0,0 +1,308 @@
+/**
+ * Query Cache - Bounded Storage for Query Results
+ *
+ * Handles:
+ * - A common interface so BigQueryClient can use any cache implementation
+ * - An in-memory LRU cache and a file-backed cache that survives restarts
+ * - Per-entry expiry: results of a completed run are kept long-term, while
+ *   anything else expires quickly (the client picks the TTL)
+ * - Hit, miss and eviction statistics
+ *
+ * Both implementations hold at most QUERY_CACHE_MAX_SIZE entries and
+ * QUERY_CACHE_MAX_ROWS rows in total, and evict the least recently used entry
+ * first; a result with more rows than that is not cached. A size of 0 disables
+ * caching.
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { QueryCacheSettings } from '../config.js';
+
+export interface QueryCacheStats {
+  type: 'memory' | 'file';
+  size: number;
+  maxSize: number;
+  rows: number;
+  maxRows: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+  // hits / (hits + misses), 0 before the first lookup
+  hitRate: number;
+}
+
+export interface QueryCache {
+  get(key: string): Promise<any[] | undefined>;
+  set(key: string, rows: any[], ttlMs: number): Promise<void>;
+  clear(): Promise<void>;
+  stats(): QueryCacheStats;
+}
+
+/**
+ * The cache QUERY_CACHE_TYPE selects
+ */
+export function createQueryCache(settings: QueryCacheSettings): QueryCache {
+  return settings.type === 'file'
+    ? new FileQueryCache(settings.directory, settings.maxSize, settings.maxRows)
+    : new LruQueryCache(settings.maxSize, settings.maxRows);
+}
+
+interface CacheCounters {
+  hits: number;
+  misses: number;
+  evictions: number;
+}
+
+interface CacheLimits {
+  maxSize: number;
+  maxRows: number;
+}
+
+function summarize(type: QueryCacheStats['type'], size: number, rows: number, limits: CacheLimits, counters: CacheCounters): QueryCacheStats {
+  const lookups = counters.hits + counters.misses;
+  return {
+    type,
+    size,
+    maxSize: limits.maxSize,
+    rows,
+    maxRows: limits.maxRows,
+    ...counters,
+    hitRate: lookups > 0 ? counters.hits / lookups : 0
+  };
+}
+
+// ============================================================================
+// IN-MEMORY LRU CACHE
+// ============================================================================
+
+export class LruQueryCache implements QueryCache {
+  // Map order is recency order: the first entry is the least recently used
+  private entries: Map<string, { rows: any[]; expiresAt: number }> = new Map();
+  private counters: CacheCounters = { hits: 0, misses: 0, evictions: 0 };
+  private limits: CacheLimits;
+  private rowCount = 0;
+
+  constructor(maxSize: number, maxRows: number = Infinity) {
+    this.limits = { maxSize, maxRows };
+  }
+
+  async get(key: string): Promise<any[] | undefined> {
+    const entry = this.entries.get(key);
+
+    if (!entry || entry.expiresAt <= Date.now()) {
+      this.delete(key);
+      this.counters.misses++;
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.counters.hits++;
+    return entry.rows;
+  }
+
+  async set(key: string, rows: any[], ttlMs: number): Promise<void> {
+    this.delete(key);
+    if (!fits(rows.length, this.limits)) {
+      return;
+    }
+
+    while (this.entries.size >= this.limits.maxSize || this.rowCount + rows.length > this.limits.maxRows) {
+      this.delete(this.entries.keys().next().value!);
+      this.counters.evictions++;
+    }
+
+    this.entries.set(key, { rows, expiresAt: Date.now() + ttlMs });
+    this.rowCount += rows.length;
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+    this.rowCount = 0;
+  }
+
+  stats(): QueryCacheStats {
+    return summarize('memory', this.entries.size, this.rowCount, this.limits, this.counters);
+  }
+
+  private delete(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.rowCount -= entry.rows.length;
+    }
+  }
+}
+
+/**
+ * Whether an entry of this many rows may be cached at all
+ */
+function fits(rows: number, limits: CacheLimits): boolean {
+  return limits.maxSize > 0 && rows <= limits.maxRows;
+}
+
+// ============================================================================
+// FILE-BACKED CACHE
+// ============================================================================
+
+/**
+ * One JSON file per entry, named by a hash of the key, the entry's expiry and
+ * its row count. Recency is the file's modification time, so eviction order
+ * survives restarts.
+ */
+export class FileQueryCache implements QueryCache {
+  private directory: string;
+  private limits: CacheLimits;
+  private counters: CacheCounters = { hits: 0, misses: 0, evictions: 0 };
+  // Key hash -> entry, least recently used first; read from disk on first use
+  private index: Map<string, FileEntry> | null = null;
+  private loading: Promise<Map<string, FileEntry>> | null = null;
+
+  constructor(directory: string, maxSize: number, maxRows: number = Infinity) {
+    this.directory = directory;
+    this.limits = { maxSize, maxRows };
+  }
+
+  async get(key: string): Promise<any[] | undefined> {
+    const index = await this.load();
+    const hash = this.hash(key);
+    const indexed = index.get(hash);
+
+    if (indexed === undefined) {
+      this.counters.misses++;
+      return undefined;
+    }
+    if (indexed.expiresAt <= Date.now()) {
+      await this.remove(index, hash);
+      this.counters.misses++;
+      return undefined;
+    }
+
+    const filePath = this.filePath(hash, indexed);
+    let entry: { key: string; rows: any[] };
+    try {
+      entry = JSON.parse(await fs.readFile(filePath, 'utf8'));
+    } catch {
+      // Deleted or corrupted outside the server: treat as a miss
+      await this.remove(index, hash);
+      this.counters.misses++;
+      return undefined;
+    }
+
+    // Different keys with the same hash never share an entry
+    if (entry.key !== key) {
+      this.counters.misses++;
+      return undefined;
+    }
+
+    index.delete(hash);
+    index.set(hash, indexed);
+    const now = new Date();
+    await fs.utimes(filePath, now, now).catch(() => undefined);
+
+    this.counters.hits++;
+    return entry.rows;
+  }
+
+  async set(key: string, rows: any[], ttlMs: number): Promise<void> {
+    if (this.limits.maxSize === 0) {
+      return;
+    }
+
+    const index = await this.load();
+    const hash = this.hash(key);
+    const entry = { expiresAt: Date.now() + ttlMs, rows: rows.length };
+
+    await this.remove(index, hash);
+    if (!fits(entry.rows, this.limits)) {
+      return;
+    }
+    while (index.size >= this.limits.maxSize || rowsIn(index) + entry.rows > this.limits.maxRows) {
+      await this.remove(index, index.keys().next().value!);
+      this.counters.evictions++;
+    }
+
+    // Write then rename, so a reader never sees a partial file
+    const target = this.filePath(hash, entry);
+    const temporary = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify({ key, rows }));
+    await fs.rename(temporary, target);
+    index.set(hash, entry);
+  }
+
+  async clear(): Promise<void> {
+    const index = await this.load();
+    for (const hash of Array.from(index.keys())) {
+      await this.remove(index, hash);
+    }
+  }
+
+  stats(): QueryCacheStats {
+    return summarize('file', this.index?.size ?? 0, this.index ? rowsIn(this.index) : 0, this.limits, this.counters);
+  }
+
+  private load(): Promise<Map<string, FileEntry>> {
+    if (!this.loading) {
+      this.loading = this.readIndex().then(index => (this.index = index));
+    }
+    return this.loading;
+  }
+
+  private async readIndex(): Promise<Map<string, FileEntry>> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const entries = await Promise.all((await fs.readdir(this.directory)).map(async file => {
+      const filePath = path.join(this.directory, file);
+      // Entries written before row counts were kept in the name cannot be counted
+      if (/^[0-9a-f]{64}\.\d+\.json$/.test(file)) {
+        await fs.rm(filePath, { force: true });
+        return null;
+      }
+
+      const match = /^([0-9a-f]{64})\.(\d+)\.(\d+)\.json$/.exec(file);
+      if (!match) {
+        return null;
+      }
+      const stat = await fs.stat(filePath).catch(() => null);
+      return stat ? { hash: match[1]!, entry: { expiresAt: Number(match[2]), rows: Number(match[3]) }, usedAt: stat.mtimeMs } : null;
+    }));
+
+    const index = new Map<string, FileEntry>();
+    entries
+      .filter((entry): entry is { hash: string; entry: FileEntry; usedAt: number } => entry !== null)
+      .sort((a, b) => a.usedAt - b.usedAt)
+      .forEach(({ hash, entry }) => index.set(hash, entry));
+
+    return index;
+  }
+
+  private async remove(index: Map<string, FileEntry>, hash: string): Promise<void> {
+    const entry = index.get(hash);
+    if (entry === undefined) {
+      return;
+    }
+
+    index.delete(hash);
+    await fs.rm(this.filePath(hash, entry), { force: true });
+  }
+
+  private hash(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+  }
+
+  private filePath(hash: string, entry: FileEntry): string {
+    return path.join(this.directory, `${hash}.${entry.expiresAt}.${entry.rows}.json`);
+  }
+}
+
+interface FileEntry {
+  expiresAt: number;
+  rows: number;
+}
+
+function rowsIn(index: Map<string, FileEntry>): number {
+  let rows = 0;
+  index.forEach(entry => (rows += entry.rows));
+  return rows;
+}
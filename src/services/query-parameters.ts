@@ -0,0 +1,88 @@
+/**
+ * Query Parameters - Typed BigQuery Named Parameters
+ *
+ * User-supplied values (runId, orgId, assets, wallets, inventories,
+ * subsidiaries, ...) never become part of the SQL text. Builders reference
+ * them as @name placeholders and collect the values here, together with an
+ * explicit BigQuery type for each, so createQueryJob binds them server-side.
+ */
+
+export type QueryParameterType = 'STRING' | 'INT64' | 'FLOAT64' | ['STRING'];
+
+// Generated SQL plus the parameters it references
+export interface ParameterizedQuery {
+  sql: string;
+  params: QueryParameters;
+  // The SQL already names its data source; {ACTIONS_REPORT_TABLE} is left as written
+  sourceResolved?: boolean;
+}
+
+const PARAMETER_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export class QueryParameters {
+  private values: Map<string, unknown> = new Map();
+  private types: Map<string, QueryParameterType> = new Map();
+
+  /**
+   * Bind a string and return its placeholder
+   */
+  string(name: string, value: string): string {
+    return this.bind(name, String(value), 'STRING');
+  }
+
+  /**
+   * Bind an integer (e.g. a Unix timestamp) and return its placeholder
+   */
+  int(name: string, value: number): string {
+    if (!Number.isSafeInteger(value)) {
+      throw new Error(`Query parameter ${name} must be an integer`);
+    }
+    return this.bind(name, value, 'INT64');
+  }
+
+  /**
+   * Bind a number and return its placeholder
+   */
+  number(name: string, value: number): string {
+    if (!Number.isFinite(value)) {
+      throw new Error(`Query parameter ${name} must be a finite number`);
+    }
+    return this.bind(name, value, 'FLOAT64');
+  }
+
+  /**
+   * Bind an array of strings and return its placeholder, for `IN UNNEST(@name)`
+   */
+  stringArray(name: string, values: string[]): string {
+    return this.bind(name, values.map(value => String(value)), ['STRING']);
+  }
+
+  has(name: string): boolean {
+    return this.values.has(name);
+  }
+
+  /**
+   * Named values and types in the shape createQueryJob expects
+   */
+  toJobOptions(): { params: Record<string, unknown>; types: Record<string, QueryParameterType> } {
+    return {
+      params: Object.fromEntries(this.values),
+      types: Object.fromEntries(this.types)
+    };
+  }
+
+  private bind(name: string, value: unknown, type: QueryParameterType): string {
+    if (!PARAMETER_NAME.test(name)) {
+      throw new Error(`Invalid query parameter name: ${name}`);
+    }
+
+    const existing = this.values.get(name);
+    if (this.values.has(name) && JSON.stringify(existing) !== JSON.stringify(value)) {
+      throw new Error(`Query parameter ${name} is already bound to a different value`);
+    }
+
+    this.values.set(name, value);
+    this.types.set(name, type);
+    return `@${name}`;
+  }
+}
@@ -0,0 +1,248 @@
+/**
+ * SQL Builder - Typed Construction of Report and Analytical Queries
+ *
+ * Handles:
+ * - SELECT statements assembled clause by clause: CTEs, select expressions,
+ *   joins, filters, group-bys and ordering
+ * - Expression helpers for the patterns the reports repeat (numeric columns,
+ *   sums, COALESCE across join sides, AND/OR groups)
+ * - One deterministic layout for the rendered SQL, so the same inputs always
+ *   produce the same text (query cache keys and snapshot tests depend on it)
+ *
+ * Values never pass through here: builders bind them with QueryParameters and
+ * hand the builder the @name placeholder.
+ */
+
+// A SQL expression or condition, e.g. "runId = @runId" or "SUM(qty)"
+export type SqlExpression = string;
+
+export type JoinType = 'INNER' | 'LEFT' | 'FULL OUTER' | 'CROSS';
+
+export type SortDirection = 'ASC' | 'DESC';
+
+export interface SelectItem {
+  expression: SqlExpression;
+  alias?: string;
+}
+
+export interface JoinClause {
+  type: JoinType;
+  source: string;
+  alias?: string;
+  // Omitted for CROSS JOIN only
+  on?: SqlExpression;
+}
+
+export interface OrderItem {
+  expression: SqlExpression;
+  direction?: SortDirection;
+}
+
+interface CommonTableExpression {
+  name: string;
+  query: SelectQuery;
+}
+
+// Placeholder BigQueryClient replaces with the configured (column-mapped) table
+export const ACTIONS_REPORT_TABLE = '`{ACTIONS_REPORT_TABLE}`';
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+function assertIdentifier(name: string, kind: string): void {
+  if (!IDENTIFIER.test(name)) {
+    throw new Error(`Invalid SQL ${kind}: ${name}`);
+  }
+}
+
+function indent(lines: string[]): string[] {
+  return lines.map(line => `  ${line}`);
+}
+
+// ============================================================================
+// EXPRESSION HELPERS
+// ============================================================================
+
+/**
+ * A column as BIGNUMERIC, with NULL counted as 0
+ */
+export function numeric(column: string): SqlExpression {
+  return `IFNULL(CAST(${column} AS BIGNUMERIC), 0)`;
+}
+
+export function sum(expression: SqlExpression): SqlExpression {
+  return `SUM(${expression})`;
+}
+
+export function coalesce(...expressions: SqlExpression[]): SqlExpression {
+  return `COALESCE(${expressions.join(', ')})`;
+}
+
+/**
+ * Conditions that must all hold; empty entries are skipped
+ */
+export function and(...conditions: Array<SqlExpression | undefined>): SqlExpression {
+  const present = conditions.filter((condition): condition is SqlExpression => Boolean(condition));
+  return present.length > 1 ? `(${present.join(' AND ')})` : present[0] ?? 'TRUE';
+}
+
+/**
+ * Conditions of which any may hold, parenthesized so they combine safely with AND
+ */
+export function or(...conditions: SqlExpression[]): SqlExpression {
+  return conditions.length > 1 ? `(${conditions.join(' OR ')})` : conditions[0] ?? 'FALSE';
+}
+
+export function selectItem(expression: SqlExpression, alias?: string): SelectItem {
+  return alias === undefined ? { expression } : { expression, alias };
+}
+
+// ============================================================================
+// SELECT QUERY
+// ============================================================================
+
+export class SelectQuery {
+  private ctes: CommonTableExpression[] = [];
+  private items: SelectItem[] = [];
+  private valueExpression: SqlExpression | null = null;
+  private source: { from: string; alias?: string } | null = null;
+  private joins: JoinClause[] = [];
+  private conditions: SqlExpression[] = [];
+  private groupings: SqlExpression[] = [];
+  private havingConditions: SqlExpression[] = [];
+  private ordering: OrderItem[] = [];
+
+  /**
+   * Add a named subquery to the WITH clause, in order
+   */
+  with(name: string, query: SelectQuery): this {
+    assertIdentifier(name, 'CTE name');
+    if (this.ctes.some(cte => cte.name === name)) {
+      throw new Error(`Duplicate CTE: ${name}`);
+    }
+    this.ctes.push({ name, query });
+    return this;
+  }
+
+  /**
+   * Add select expressions; a plain string selects it under its own name
+   */
+  select(...items: Array<SelectItem | SqlExpression>): this {
+    items.forEach(item => {
+      const selected = typeof item === 'string' ? { expression: item } : item;
+      if (selected.alias !== undefined) {
+        assertIdentifier(selected.alias, 'alias');
+      }
+      this.items.push(selected);
+    });
+    return this;
+  }
+
+  /**
+   * SELECT AS VALUE: one value per row instead of columns
+   */
+  selectAsValue(expression: SqlExpression): this {
+    this.valueExpression = expression;
+    return this;
+  }
+
+  from(source: string, alias?: string): this {
+    if (alias !== undefined) {
+      assertIdentifier(alias, 'alias');
+    }
+    this.source = alias === undefined ? { from: source } : { from: source, alias };
+    return this;
+  }
+
+  join(join: JoinClause): this {
+    if (join.alias !== undefined) {
+      assertIdentifier(join.alias, 'alias');
+    }
+    if ((join.type === 'CROSS') !== (join.on === undefined)) {
+      throw new Error(`${join.type} JOIN ${join.source} ${join.type === 'CROSS' ? 'takes no' : 'needs an'} ON condition`);
+    }
+    this.joins.push(join);
+    return this;
+  }
+
+  /**
+   * Add WHERE conditions, all of which must hold; empty entries are skipped
+   */
+  where(...conditions: Array<SqlExpression | undefined>): this {
+    this.conditions.push(...conditions.filter((condition): condition is SqlExpression => Boolean(condition)));
+    return this;
+  }
+
+  groupBy(...expressions: SqlExpression[]): this {
+    this.groupings.push(...expressions);
+    return this;
+  }
+
+  /**
+   * Add HAVING conditions, all of which must hold; empty entries are skipped
+   */
+  having(...conditions: Array<SqlExpression | undefined>): this {
+    this.havingConditions.push(...conditions.filter((condition): condition is SqlExpression => Boolean(condition)));
+    return this;
+  }
+
+  orderBy(expression: SqlExpression, direction?: SortDirection): this {
+    this.ordering.push(direction === undefined ? { expression } : { expression, direction });
+    return this;
+  }
+
+  toSQL(): string {
+    return this.render().join('\n');
+  }
+
+  private render(): string[] {
+    if (!this.valueExpression && this.items.length === 0) {
+      throw new Error('SELECT query has no select expressions');
+    }
+
+    const lines: string[] = [];
+
+    this.ctes.forEach((cte, index) => {
+      lines.push(`${index === 0 ? 'WITH ' : ''}${cte.name} AS (`);
+      lines.push(...indent(cte.query.render()));
+      lines.push(index < this.ctes.length - 1 ? '),' : ')');
+    });
+
+    if (this.valueExpression) {
+      lines.push(`SELECT AS VALUE ${this.valueExpression}`);
+    } else {
+      lines.push('SELECT');
+      this.items.forEach((item, index) => {
+        const separator = index < this.items.length - 1 ? ',' : '';
+        lines.push(`  ${item.expression}${item.alias ? ` AS ${item.alias}` : ''}${separator}`);
+      });
+    }
+
+    if (this.source) {
+      lines.push(`FROM ${this.source.from}${this.source.alias ? ` AS ${this.source.alias}` : ''}`);
+    }
+
+    this.joins.forEach(join => {
+      const target = `${join.source}${join.alias ? ` AS ${join.alias}` : ''}`;
+      lines.push(`${join.type} JOIN ${target}${join.on ? ` ON ${join.on}` : ''}`);
+    });
+
+    lines.push(...this.renderConditions('WHERE', this.conditions));
+
+    if (this.groupings.length > 0) {
+      lines.push(`GROUP BY ${this.groupings.join(', ')}`);
+    }
+
+    lines.push(...this.renderConditions('HAVING', this.havingConditions));
+
+    if (this.ordering.length > 0) {
+      const order = this.ordering.map(item => `${item.expression}${item.direction ? ` ${item.direction}` : ''}`);
+      lines.push(`ORDER BY ${order.join(', ')}`);
+    }
+
+    return lines;
+  }
+
+  private renderConditions(keyword: 'WHERE' | 'HAVING', conditions: SqlExpression[]): string[] {
+    return conditions.map((condition, index) => (index === 0 ? `${keyword} ${condition}` : `  AND ${condition}`));
+  }
+}
@@ -0,0 +1,445 @@
+/**
+ * SQL Passthrough - Guarded Ad-Hoc SELECTs Against the Actions Report
+ *
+ * Handles:
+ * - Tokenizing user SQL and rejecting anything but a single read-only
+ *   SELECT (or WITH ... SELECT) whose every table reference is the
+ *   {ACTIONS_REPORT_TABLE} placeholder, a CTE it defines, a subquery or UNNEST
+ * - Scoping every reference to the table to the requested runId and orgId,
+ *   whatever the SQL itself filters on
+ * - Running the scoped query through BigQueryClient, so the bytes-billed cap,
+ *   MAX_QUERY_ROWS, the query cache and the audit log apply as for reports
+ *
+ * The checks work on tokens, not a full grammar: they accept a subset of
+ * BigQuery SQL that is known to be safe and reject the rest.
+ */
+
+import { BigQueryClient } from './bigquery-client.js';
+import { ParameterizedQuery, QueryParameters } from './query-parameters.js';
+import { DataSourceConfigurationError, QueryParsingError } from '../errors.js';
+import { QueryCostEstimate, ReportExecutionOptions, ReportParameters, ReportRows } from '../types/actions-report.js';
+
+export const PASSTHROUGH_TABLE = '{ACTIONS_REPORT_TABLE}';
+
+type TokenType = 'word' | 'quoted' | 'string' | 'number' | 'param' | 'table' | 'punct';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  start: number;
+  end: number;
+}
+
+// Statements and clauses that write, run scripts or read outside the query's FROM items
+const FORBIDDEN_WORDS = new Set([
+  'INSERT', 'UPDATE', 'DELETE', 'MERGE', 'TRUNCATE',
+  'CREATE', 'DROP', 'ALTER', 'GRANT', 'REVOKE', 'EXPORT', 'LOAD',
+  'CALL', 'EXECUTE', 'DECLARE', 'SET', 'BEGIN', 'COMMIT', 'ROLLBACK', 'ASSERT', 'RAISE', 'RETURN',
+  'TABLE', 'MODEL', 'EXTERNAL_QUERY'
+]);
+
+// Keywords after which a FROM clause's comma no longer separates FROM items
+const FROM_CLAUSE_END = new Set([
+  'SELECT', 'WHERE', 'GROUP', 'HAVING', 'QUALIFY', 'WINDOW', 'ORDER', 'LIMIT', 'UNION', 'INTERSECT', 'EXCEPT'
+]);
+
+// A CTE name; quoted names with dots would be read as table paths
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// Parameters the server binds; user SQL may reference these and nothing else
+const SCOPE_PARAMETERS = new Set(['runid', 'orgid']);
+
+const SUGGESTIONS = [
+  `Write a single SELECT that reads only from ${PASSTHROUGH_TABLE}, e.g. SELECT asset, SUM(assetUnitAdj) AS qty FROM ${PASSTHROUGH_TABLE} GROUP BY asset`,
+  'Unnest array columns with CROSS JOIN UNNEST(...) rather than a comma join on the column',
+  'runId and orgId filters are added by the server; there is no need to repeat them'
+];
+
+function reject(message: string, token?: Token): never {
+  throw new QueryParsingError(`SQL rejected: ${message}`, {
+    ...(token ? { position: token.start } : {}),
+    suggestions: SUGGESTIONS
+  });
+}
+
+// ============================================================================
+// TOKENIZER
+// ============================================================================
+
+function tokenize(sql: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const push = (type: TokenType, value: string, start: number) => {
+    tokens.push({ type, value, start, end: i });
+  };
+
+  while (i < sql.length) {
+    const start = i;
+    const char = sql[i]!;
+    const rest = sql.slice(i);
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (rest.startsWith('--') || char === '#') {
+      const newline = sql.indexOf('\n', i);
+      i = newline === -1 ? sql.length : newline + 1;
+    } else if (rest.startsWith('/*')) {
+      const close = sql.indexOf('*/', i + 2);
+      if (close === -1) {
+        reject('unterminated comment', { type: 'punct', value: '/*', start, end: start + 2 });
+      }
+      i = close + 2;
+    } else if (rest.startsWith(PASSTHROUGH_TABLE)) {
+      i += PASSTHROUGH_TABLE.length;
+      push('table', PASSTHROUGH_TABLE, start);
+    } else if (char === '`') {
+      const close = sql.indexOf('`', i + 1);
+      if (close === -1) {
+        reject('unterminated quoted identifier', { type: 'punct', value: '`', start, end: start + 1 });
+      }
+      const name = sql.slice(i + 1, close);
+      // BigQuery reads escapes inside quoted identifiers; rather than lex them, refuse them
+      if (name.includes('\\')) {
+        reject('backslashes are not allowed in quoted identifiers', { type: 'quoted', value: name, start, end: close + 1 });
+      }
+      i = close + 1;
+      push(name === PASSTHROUGH_TABLE ? 'table' : 'quoted', name, start);
+    } else if (/^(?:[rRbB]|[rR][bB]|[bB][rR])?['"]/.test(rest)) {
+      i = readString(sql, i);
+      push('string', sql.slice(start, i), start);
+    } else if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(sql[i + 1] ?? ''))) {
+      const match = /^0[xX][0-9a-fA-F]+|^(?:[0-9]*\.?[0-9]+|[0-9]+\.)(?:[eE][+-]?[0-9]+)?/.exec(rest)!;
+      i += match[0].length;
+      push('number', match[0], start);
+    } else if (rest.startsWith('@@')) {
+      reject('system variables are not allowed', { type: 'param', value: '@@', start, end: start + 2 });
+    } else if (char === '@') {
+      const match = /^@([A-Za-z_][A-Za-z0-9_]*)/.exec(rest);
+      if (!match) {
+        reject('malformed query parameter', { type: 'param', value: '@', start, end: start + 1 });
+      }
+      i += match[0].length;
+      push('param', match[1]!, start);
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(rest)!;
+      i += match[0].length;
+      push('word', match[0], start);
+    } else if (char === '{' || char === '}') {
+      reject(`unexpected "${char}"; the only placeholder is ${PASSTHROUGH_TABLE}`, { type: 'punct', value: char, start, end: start + 1 });
+    } else {
+      i++;
+      push('punct', char, start);
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Index just past the string literal starting at `start` (prefixes and
+ * triple quotes included). As in BigQuery's lexer, a backslash keeps the next
+ * character inside the literal even in raw strings.
+ */
+function readString(sql: string, start: number): number {
+  let i = start;
+  while (/[rRbB]/.test(sql[i]!)) {
+    i++;
+  }
+
+  const quote = sql[i]!;
+  const delimiter = sql.startsWith(quote.repeat(3), i) ? quote.repeat(3) : quote;
+  i += delimiter.length;
+
+  while (i < sql.length) {
+    if (sql[i] === '\\') {
+      i += 2;
+    } else if (sql.startsWith(delimiter, i)) {
+      return i + delimiter.length;
+    } else if (delimiter.length === 1 && sql[i] === '\n') {
+      break;
+    } else {
+      i++;
+    }
+  }
+
+  reject('unterminated string literal', { type: 'string', value: quote, start, end: start + 1 });
+}
+
+// ============================================================================
+// VALIDATION AND SCOPING
+// ============================================================================
+
+const isWord = (token: Token | undefined, ...words: string[]) =>
+  token?.type === 'word' && words.includes(token.value.toUpperCase());
+
+const isPunct = (token: Token | undefined, value: string) => token?.type === 'punct' && token.value === value;
+
+/**
+ * Index of the bracket closing the one at `open`
+ */
+function closingIndex(tokens: Token[], open: number): number {
+  let depth = 0;
+  for (let i = open; i < tokens.length; i++) {
+    if (isPunct(tokens[i], '(') || isPunct(tokens[i], '[')) depth++;
+    if (isPunct(tokens[i], ')') || isPunct(tokens[i], ']')) depth--;
+    if (depth === 0) return i;
+  }
+  reject('unbalanced parentheses', tokens[open]);
+}
+
+/**
+ * Names of the CTEs the query defines, in any WITH clause
+ */
+function cteNames(tokens: Token[]): Set<string> {
+  const names = new Set<string>();
+
+  tokens.forEach((token, index) => {
+    if (!isWord(token, 'WITH') || isPunct(tokens[index - 1], '.')) {
+      return;
+    }
+
+    let i = isWord(tokens[index + 1], 'RECURSIVE') ? index + 2 : index + 1;
+    while (
+      (tokens[i]?.type === 'word' || tokens[i]?.type === 'quoted') &&
+      isWord(tokens[i + 1], 'AS') &&
+      isPunct(tokens[i + 2], '(')
+    ) {
+      if (IDENTIFIER.test(tokens[i]!.value)) {
+        names.add(tokens[i]!.value.toLowerCase());
+      }
+      const close = closingIndex(tokens, i + 2);
+      if (!isPunct(tokens[close + 1], ',')) break;
+      i = close + 2;
+    }
+  });
+
+  return names;
+}
+
+/**
+ * Check a single SELECT statement that reads only from the Actions Report
+ * table, and return it with every table reference replaced by `source`
+ * scoped to @runId and @orgId. Only the references the checks accepted are
+ * replaced; the placeholder is never substituted anywhere else.
+ */
+export function scopePassthroughSQL(sql: string, source: string): string {
+  const tokens = tokenize(sql);
+
+  // One statement, optionally ending in a semicolon
+  const semicolon = tokens.findIndex(token => isPunct(token, ';'));
+  if (semicolon !== -1 && semicolon !== tokens.length - 1) {
+    reject('only a single statement is allowed', tokens[semicolon]);
+  }
+  const statement = semicolon === -1 ? tokens : tokens.slice(0, -1);
+
+  if (!isWord(statement[0], 'SELECT', 'WITH')) {
+    reject('the query must be a SELECT statement', statement[0]);
+  }
+
+  statement.forEach((token, index) => {
+    const qualified = isPunct(statement[index - 1], '.');
+    if (token.type === 'word' && !qualified && FORBIDDEN_WORDS.has(token.value.toUpperCase())) {
+      reject(`${token.value.toUpperCase()} is not allowed in a read-only query`, token);
+    }
+    if (token.type === 'param' && !SCOPE_PARAMETERS.has(token.value.toLowerCase())) {
+      reject(`unknown query parameter @${token.value}; only @runId and @orgId are bound`, token);
+    }
+  });
+
+  const ctes = cteNames(statement);
+  const tableRefs = new Set<number>();
+
+  /**
+   * What may follow FROM, JOIN or a FROM-clause comma. Returns whether it
+   * opens a parenthesized FROM item.
+   */
+  const checkFromItem = (index: number, allowQuery: boolean): boolean => {
+    const token = statement[index];
+    if (token?.type === 'table') {
+      if (isPunct(statement[index + 1], '.')) {
+        reject(`${PASSTHROUGH_TABLE} cannot be qualified`, token);
+      }
+      tableRefs.add(index);
+      return false;
+    }
+    if (isPunct(token, '(')) {
+      return true;
+    }
+    if (isWord(token, 'UNNEST') && isPunct(statement[index + 1], '(')) {
+      return false;
+    }
+    if (allowQuery && isWord(token, 'SELECT', 'WITH')) {
+      return false;
+    }
+    if (
+      token && (token.type === 'word' || token.type === 'quoted') &&
+      IDENTIFIER.test(token.value) &&
+      ctes.has(token.value.toLowerCase()) &&
+      !isPunct(statement[index + 1], '.') &&
+      !isPunct(statement[index + 1], '(')
+    ) {
+      return false;
+    }
+    reject(`only ${PASSTHROUGH_TABLE}, CTEs defined in the query, subqueries and UNNEST may be read`, token ?? statement[index - 1]);
+  };
+
+  // One frame per open bracket: the word that opened it, and whether its
+  // commas separate FROM items
+  const frames: { opener: string | null; inFrom: boolean }[] = [{ opener: null, inFrom: false }];
+  let nextFrameInFrom = false;
+
+  statement.forEach((token, index) => {
+    const frame = frames[frames.length - 1]!;
+    const previous = statement[index - 1];
+
+    if (isPunct(token, '(') || isPunct(token, '[')) {
+      const opener = previous?.type === 'word' ? previous.value.toUpperCase() : null;
+      frames.push({ opener, inFrom: nextFrameInFrom });
+      if (nextFrameInFrom) {
+        nextFrameInFrom = checkFromItem(index + 1, true);
+      }
+      return;
+    }
+    if (isPunct(token, ')') || isPunct(token, ']')) {
+      if (frames.length === 1) {
+        reject('unbalanced parentheses', token);
+      }
+      frames.pop();
+      return;
+    }
+
+    if (token.type === 'word' && !isPunct(previous, '.')) {
+      const word = token.value.toUpperCase();
+
+      if (FROM_CLAUSE_END.has(word)) {
+        frame.inFrom = false;
+      }
+
+      // FROM inside EXTRACT(... FROM ...) and IS [NOT] DISTINCT FROM is not a FROM clause
+      const isExpression = frame.opener === 'EXTRACT' || (isWord(previous, 'DISTINCT') && isWord(statement[index - 2], 'IS', 'NOT'));
+      if ((word === 'FROM' && !isExpression) || word === 'JOIN') {
+        frame.inFrom = frame.inFrom || word === 'FROM';
+        nextFrameInFrom = checkFromItem(index + 1, false);
+      }
+      return;
+    }
+
+    if (isPunct(token, ',') && frame.inFrom) {
+      nextFrameInFrom = checkFromItem(index + 1, false);
+    }
+  });
+
+  if (frames.length !== 1) {
+    reject('unbalanced parentheses', statement[statement.length - 1]);
+  }
+
+  statement.forEach((token, index) => {
+    if (token.type === 'table' && !tableRefs.has(index)) {
+      reject(`${PASSTHROUGH_TABLE} may only appear as a FROM or JOIN item`, token);
+    }
+  });
+  if (tableRefs.size === 0) {
+    reject(`the query must read from ${PASSTHROUGH_TABLE}`);
+  }
+
+  // Rebuild the statement with each table reference replaced by its scoped rows
+  const scoped = `(SELECT * FROM ${source} WHERE runId = @runId AND orgId = @orgId)`;
+  let result = '';
+  let position = statement[0]!.start;
+  Array.from(tableRefs).sort((a, b) => a - b).forEach(index => {
+    const token = statement[index]!;
+    result += `${sql.slice(position, token.start)}${scoped}`;
+    position = token.end;
+  });
+  result += sql.slice(position, statement[statement.length - 1]!.end);
+
+  return result;
+}
+
+// ============================================================================
+// EXECUTION
+// ============================================================================
+
+/**
+ * JSON-safe copy of a BigQuery value: NUMERIC as a decimal string, dates and
+ * timestamps as their ISO text, BYTES as base64, structs and arrays recursively
+ */
+function toPlainValue(value: any): unknown {
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(toPlainValue);
+  }
+  if (Buffer.isBuffer(value)) {
+    return value.toString('base64');
+  }
+  if (value.constructor !== Object) {
+    if ('value' in value) return value.value;
+    if (typeof value.toJSON === 'function') return value.toJSON();
+  }
+  return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, toPlainValue(entry)]));
+}
+
+export class SqlPassthrough {
+  private bigQueryClient: BigQueryClient;
+
+  constructor(bigQueryClient: BigQueryClient) {
+    this.bigQueryClient = bigQueryClient;
+  }
+
+  /**
+   * Validate, scope and run the query; rows come back as plain JSON values
+   */
+  async run(
+    sql: string,
+    parameters: ReportParameters,
+    options: ReportExecutionOptions = {}
+  ): Promise<ReportRows<Record<string, unknown>>> {
+    const query = this.buildQuery(sql);
+    options.onProgress?.('sql_built', 'SQL validated and scoped to the run');
+
+    const result = await this.bigQueryClient.executeReportQuery(
+      query,
+      parameters,
+      options,
+      row => toPlainValue(row) as Record<string, unknown>
+    );
+    options.onProgress?.('transform_done', `${result.rows.length} rows returned`);
+
+    return result;
+  }
+
+  /**
+   * Dry-run the scoped query to see what it would scan
+   */
+  async estimate(sql: string, parameters: ReportParameters, options: ReportExecutionOptions = {}): Promise<QueryCostEstimate> {
+    return this.bigQueryClient.estimateReportQuery(this.buildQuery(sql), parameters, options);
+  }
+
+  formatForPresentation(sql: string, rows: Record<string, unknown>[]): string {
+    const columns = rows.length > 0 ? Object.keys(rows[0]!) : [];
+
+    let output = '🧮 **SQL Query Results**\n\n';
+    output += `**Rows:** ${rows.length.toLocaleString()}\n`;
+    output += columns.length > 0 ? `**Columns:** ${columns.join(', ')}\n` : '';
+    output += `\n\`\`\`sql\n${sql.trim()}\n\`\`\``;
+
+    return output;
+  }
+
+  private buildQuery(sql: string): ParameterizedQuery {
+    if (this.bigQueryClient.isLocalSource()) {
+      throw new DataSourceConfigurationError('SQL passthrough needs a BigQuery data source', {
+        suggestions: ['Switch to a BigQuery table with configure_data_source']
+      });
+    }
+
+    return {
+      sql: scopePassthroughSQL(sql, this.bigQueryClient.getSourceReference()),
+      params: new QueryParameters(),
+      sourceResolved: true
+    };
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Pagination - Opaque Cursors over Report Records
+ *
+ * Cursors encode the offset of the next page and the scope of the result they
+ * were issued for (a job ID, or a fingerprint of the report arguments), so a
+ * cursor replayed against a different query is rejected instead of silently
+ * returning the wrong page.
+ *
+ * A report run directly is kept server-side under a snapshot ID carried in its
+ * cursors, so later pages come from the same run rather than a re-run whose
+ * rows (relative date cutoffs, "latest" runs, uncached truncated results) may
+ * have moved.
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import { InvalidParamsError } from '../errors.js';
+
+export interface Page<T> {
+  items: T[];
+  offset: number;
+  total: number;
+  nextCursor?: string;
+}
+
+export interface CursorPosition {
+  offset: number;
+  // Server-side snapshot the pages are read from
+  snapshot?: string;
+}
+
+export function encodeCursor(offset: number, scope: string, snapshot?: string): string {
+  return Buffer.from(JSON.stringify({ offset, scope, ...(snapshot ? { snapshot } : {}) })).toString('base64url');
+}
+
+export function decodeCursor(cursor: string, scope: string): CursorPosition {
+  let decoded: any;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    decoded = null;
+  }
+
+  if (!decoded || !Number.isInteger(decoded.offset) || decoded.offset < 0 ||
+      (decoded.snapshot !== undefined && typeof decoded.snapshot !== 'string')) {
+    throw new InvalidParamsError('Invalid cursor', { cursor });
+  }
+  if (decoded.scope !== scope) {
+    throw new InvalidParamsError('Cursor was issued for a different query; repeat the original arguments with it', { cursor });
+  }
+
+  return { offset: decoded.offset, ...(decoded.snapshot ? { snapshot: decoded.snapshot } : {}) };
+}
+
+/**
+ * Fingerprint of a query's arguments, independent of key order
+ */
+export function cursorScope(value: unknown): string {
+  return createHash('sha256').update(canonicalJson(value)).digest('base64url').slice(0, 16);
+}
+
+/**
+ * Slice one page of items starting at the cursor (or the beginning); the
+ * snapshot, if any, is carried into the next cursor
+ */
+export function paginate<T>(items: T[], pageSize: number, scope: string, cursor?: string, snapshot?: string): Page<T> {
+  const offset = cursor ? decodeCursor(cursor, scope).offset : 0;
+  if (offset > items.length) {
+    throw new InvalidParamsError('Cursor is past the end of the result', { cursor });
+  }
+
+  const end = offset + pageSize;
+  return {
+    items: items.slice(offset, end),
+    offset,
+    total: items.length,
+    ...(end < items.length ? { nextCursor: encodeCursor(end, scope, snapshot) } : {})
+  };
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+// ============================================================================
+// RESULT SNAPSHOTS
+// ============================================================================
+
+export interface SnapshotStoreOptions {
+  // How long a result stays pageable after its first page
+  ttlMs: number;
+  // Records kept across all snapshots; the oldest are dropped first
+  maxRecords: number;
+}
+
+interface Snapshot<T> {
+  owner: string;
+  result: T;
+  records: number;
+  expiresAt: number;
+}
+
+/**
+ * Results held between page requests, each readable only by the session that
+ * produced it
+ */
+export class SnapshotStore<T extends { records: unknown[] }> {
+  // Insertion order is age order, so eviction starts from the front
+  private snapshots: Map<string, Snapshot<T>> = new Map();
+  private records = 0;
+  private options: SnapshotStoreOptions;
+
+  constructor(options: SnapshotStoreOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Keep a result and return the snapshot ID for its cursors
+   */
+  save(owner: string, result: T): string {
+    this.sweep();
+
+    const id = randomUUID();
+    const records = result.records.length;
+    // A result larger than the cap is still kept, alone
+    for (const [oldId, snapshot] of this.snapshots) {
+      if (this.records + records <= this.options.maxRecords) {
+        break;
+      }
+      this.remove(oldId, snapshot);
+    }
+
+    this.snapshots.set(id, { owner, result, records, expiresAt: Date.now() + this.options.ttlMs });
+    this.records += records;
+    return id;
+  }
+
+  get(owner: string, id: string): T {
+    this.sweep();
+
+    const snapshot = this.snapshots.get(id);
+    if (!snapshot || snapshot.owner !== owner) {
+      throw new InvalidParamsError('Cursor has expired; run the report again without a cursor', { snapshot: id });
+    }
+    return snapshot.result;
+  }
+
+  /**
+   * Drop every snapshot a closed session held
+   */
+  release(owner: string): void {
+    this.snapshots.forEach((snapshot, id) => {
+      if (snapshot.owner === owner) {
+        this.remove(id, snapshot);
+      }
+    });
+  }
+
+  /**
+   * Drop snapshots past their expiry
+   */
+  private sweep(): void {
+    const now = Date.now();
+    this.snapshots.forEach((snapshot, id) => {
+      if (snapshot.expiresAt <= now) {
+        this.remove(id, snapshot);
+      }
+    });
+  }
+
+  private remove(id: string, snapshot: Snapshot<T>): void {
+    this.snapshots.delete(id);
+    this.records -= snapshot.records;
+  }
+}
@@ -0,0 +1,214 @@
+/**
+ * Tool Registry - Single Source of Truth for MCP Tools
+ *
+ * Handles:
+ * - Declaring each tool once (name, description, input schema, handler)
+ * - Generating the tools/list response for every transport
+ * - Validating tool arguments before dispatch (-32602 on failure)
+ * - Hiding tools turned off by feature flags, and refusing calls to them
+ * - Mapping untyped handler failures to the tool's documented error code
+ */
+
+import { z } from 'zod';
+import { ErrorCodes, InvalidParamsError, ReportingError, throwIfCancelled } from '../errors.js';
+
+export interface ToolResult {
+  [key: string]: unknown;
+  content: Array<{ type: 'text'; text: string }>;
+}
+
+// Per-call facilities supplied by the transport
+export interface ToolContext {
+  // Sends an MCP progress notification for the request's progress token
+  sendProgress?: (progress: number, total: number, message: string) => void;
+  // Aborted when the client cancels the request or disconnects
+  signal?: AbortSignal;
+  // Tool being run, set by the registry
+  tool?: string;
+  // MCP client that made the call, for the query audit log
+  caller?: string;
+  // Server session holding the caller's data source and column mapping
+  sessionId?: string;
+}
+
+export interface ToolDefinition<TArgs = any> {
+  name: string;
+  description: string;
+  schema: z.ZodType<TArgs, z.ZodTypeDef, any>;
+  handler: (args: TArgs, context: ToolContext) => Promise<ToolResult>;
+  // Code reported for failures that are not already a typed ReportingError
+  errorCode?: number;
+  // Disabled tools are left out of tools/list and refused when called (default true)
+  enabled?: boolean;
+}
+
+export interface ToolDescriptor {
+  name: string;
+  description: string;
+  inputSchema: Record<string, any>;
+}
+
+/**
+ * Tools keyed by name; TArgsMap gives each tool's validated argument type, so
+ * register() and parse() are checked against it
+ */
+export class ToolRegistry<TArgsMap extends object = Record<string, any>> {
+  private tools: Map<string, ToolDefinition> = new Map();
+
+  register<TName extends keyof TArgsMap & string>(tool: ToolDefinition<TArgsMap[TName]> & { name: TName }): this {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool already registered: ${tool.name}`);
+    }
+
+    this.tools.set(tool.name, tool as ToolDefinition);
+    return this;
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  /**
+   * tools/list payload, identical for stdio and HTTP
+   */
+  list(): ToolDescriptor[] {
+    return Array.from(this.tools.values()).filter(tool => tool.enabled !== false).map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: toJsonSchema(tool.schema)
+    }));
+  }
+
+  /**
+   * Validate a tool's arguments without running it, throwing InvalidParamsError on failure
+   */
+  parse<TName extends keyof TArgsMap & string>(name: TName, rawArgs: unknown): TArgsMap[TName] {
+    // The schema registered under this name produced the value
+    return this.validate(name, rawArgs) as TArgsMap[TName];
+  }
+
+  private validate(name: string, rawArgs: unknown): unknown {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new InvalidParamsError(`Unknown tool: ${name}`);
+    }
+    if (tool.enabled === false) {
+      throw new InvalidParamsError(`Tool ${name} is disabled on this server`, { tool: name });
+    }
+
+    const parsed = tool.schema.safeParse(rawArgs ?? {});
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map(issue => ({
+        path: issue.path.join('.') || '(root)',
+        message: issue.message
+      }));
+
+      throw new InvalidParamsError(
+        `Invalid arguments for ${name}: ${issues.map(issue => `${issue.path}: ${issue.message}`).join('; ')}`,
+        { issues }
+      );
+    }
+
+    return parsed.data;
+  }
+
+  /**
+   * Validate arguments and run a tool, throwing ReportingError on failure
+   */
+  async call(name: string, rawArgs: unknown, context: ToolContext = {}): Promise<ToolResult> {
+    const args = this.validate(name, rawArgs);
+    const tool = this.tools.get(name)!;
+
+    throwIfCancelled(context.signal);
+
+    try {
+      return await tool.handler(args, { ...context, tool: name });
+    } catch (error) {
+      if (error instanceof ReportingError) {
+        throw error;
+      }
+
+      throw new ReportingError(
+        tool.errorCode ?? ErrorCodes.INTERNAL_ERROR,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+}
+
+// ============================================================================
+// JSON SCHEMA GENERATION
+// ============================================================================
+
+/**
+ * Convert the zod subset used by tool schemas to JSON Schema for tools/list
+ */
+export function toJsonSchema(schema: z.ZodTypeAny): Record<string, any> {
+  const jsonSchema = convert(schema);
+  if (schema.description && !jsonSchema.description) {
+    jsonSchema.description = schema.description;
+  }
+  return jsonSchema;
+}
+
+function convert(schema: z.ZodTypeAny): Record<string, any> {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return toJsonSchema(schema.unwrap());
+  }
+
+  if (schema instanceof z.ZodDefault) {
+    return { ...toJsonSchema(schema.removeDefault()), default: schema._def.defaultValue() };
+  }
+
+  if (schema instanceof z.ZodEffects) {
+    return toJsonSchema(schema.innerType());
+  }
+
+  if (schema instanceof z.ZodObject) {
+    const properties: Record<string, any> = {};
+    const required: string[] = [];
+
+    Object.entries(schema.shape as Record<string, z.ZodTypeAny>).forEach(([key, value]) => {
+      properties[key] = toJsonSchema(value);
+      if (!value.isOptional()) {
+        required.push(key);
+      }
+    });
+
+    return {
+      type: 'object',
+      properties,
+      ...(required.length > 0 ? { required } : {})
+    };
+  }
+
+  if (schema instanceof z.ZodRecord) {
+    return { type: 'object', additionalProperties: toJsonSchema(schema.valueSchema) };
+  }
+
+  if (schema instanceof z.ZodArray) {
+    return { type: 'array', items: toJsonSchema(schema.element) };
+  }
+
+  if (schema instanceof z.ZodEnum) {
+    return { type: 'string', enum: [...schema.options] };
+  }
+
+  if (schema instanceof z.ZodString) {
+    const pattern = schema._def.checks.find(check => check.kind === 'regex');
+    return {
+      type: 'string',
+      ...(pattern && pattern.kind === 'regex' ? { pattern: pattern.regex.source } : {})
+    };
+  }
+
+  if (schema instanceof z.ZodNumber) {
+    return { type: schema.isInt ? 'integer' : 'number' };
+  }
+
+  if (schema instanceof z.ZodBoolean) {
+    return { type: 'boolean' };
+  }
+
+  return {};
+}
@@ -0,0 +1,267 @@
+/**
+ * Tool Input Schemas - Argument Validation for MCP Tools
+ *
+ * Each schema validates the raw tools/call arguments and doubles as the
+ * source for the JSON Schema advertised in tools/list.
+ */
+
+import { z } from 'zod';
+
+// ============================================================================
+// SHARED FIELDS
+// ============================================================================
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const dateString = (description: string) =>
+  z.string()
+    .regex(DATE_PATTERN, 'must be a date in YYYY-MM-DD format')
+    .refine(value => {
+      const date = new Date(`${value}T00:00:00Z`);
+      return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+    }, 'must be a valid calendar date')
+    .describe(description);
+
+// ISO 8601 date or timestamp; a bare date means midnight UTC
+const timestamp = (description: string) =>
+  z.string()
+    .refine(value => !isNaN(Date.parse(value)), 'must be an ISO 8601 date or timestamp')
+    .describe(description);
+
+const runId = z.string().min(1, 'runId is required').describe('Calculation run identifier');
+const orgId = z.string().min(1).optional().describe('Organization identifier');
+const assetList = z.array(z.string().min(1)).optional().describe('Asset symbols to include');
+
+const runScope = z.object({
+  runId,
+  orgId
+});
+
+// Queries built from free-form input (natural language, SQL) must never read across organizations
+const orgRunScope = z.object({
+  runId,
+  orgId: z.string().min(1, 'orgId is required').describe('Organization identifier')
+});
+
+const asOfParameters = z.object({
+  runId,
+  orgId,
+  asOfDate: dateString('Report as-of date (YYYY-MM-DD)').optional(),
+  asOfSEC: z.number().int().nonnegative().optional().describe('Report as-of Unix timestamp (overrides asOfDate)')
+});
+
+const inventoryFilters = z.object({
+  assets: assetList,
+  inventories: z.array(z.string().min(1)).optional().describe('Inventories to include'),
+  subsidiaries: z.array(z.string().min(1)).optional().describe('Subsidiaries to include'),
+  minValue: z.number().nonnegative().optional().describe('Minimum absolute carrying value'),
+  excludeZeroBalances: z.boolean().optional().describe('Exclude zero balances (default true)')
+}).optional().describe('Optional inventory filters');
+
+const inventoryGroupBy = z.array(z.enum(['asset', 'inventory', 'subsidiary']))
+  .optional()
+  .describe('Additional grouping dimensions');
+
+// Report results are returned a page of records at a time; totals always cover the full result
+const paging = {
+  pageSize: z.number().int().min(1).max(1000).default(100).describe('Records per page (default 100, max 1000)'),
+  cursor: z.string().min(1).optional().describe('nextCursor from the previous page; repeat the other arguments unchanged')
+};
+
+// Per-call bytes-billed cap; the server and org limits still apply
+const maximumBytesBilled = z.number().int().positive().optional()
+  .describe('Refuse the query if it would process more bytes than this (can only lower the configured limit)');
+
+const ascending = z.boolean().optional().describe('Sort ascending (default descending when sortBy is given)');
+
+// ============================================================================
+// TOOL SCHEMAS
+// ============================================================================
+
+export const testConnectionSchema = z.object({});
+
+export const configureDataSourceSchema = z.object({
+  type: z.enum(['bigquery', 'csv']).describe('Type of data source'),
+  config: z.object({
+    projectId: z.string().min(1).optional().describe('Google Cloud project ID (BigQuery)'),
+    datasetId: z.string().min(1).optional().describe('BigQuery dataset ID'),
+    tableId: z.string().min(1).optional().describe('BigQuery table ID'),
+    keyFilename: z.string().min(1).optional().describe('Path to a service account key file (BigQuery)'),
+    filePath: z.string().min(1).optional().describe('Path to a local Actions Report CSV file (csv)')
+  }).describe('Configuration for the data source')
+}).superRefine((args, ctx) => {
+  const required = args.type === 'bigquery' ? ['projectId', 'datasetId', 'tableId'] as const : ['filePath'] as const;
+  required.forEach(key => {
+    if (!args.config[key]) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['config', key],
+        message: `${key} is required for ${args.type} data sources`
+      });
+    }
+  });
+});
+
+export const validateColumnMappingSchema = z.object({
+  mapping: z.record(z.string())
+    .describe('Actions Report field -> physical column name (e.g. {"asset": "cryptocurrency_symbol"})'),
+  apply: z.boolean().optional()
+    .describe('Activate the mapping for this session if it is valid (default: AUTO_CONFIRM_MAPPINGS, false unless set)')
+});
+
+export const analyzeActionsDataSchema = z.object({
+  query: z.string().trim().min(1, 'query is required').describe('Natural language query'),
+  parameters: orgRunScope.describe('Run scoping for the query')
+});
+
+export const lotsReportSchema = z.object({
+  parameters: asOfParameters.describe('Report parameters'),
+  filters: z.object({
+    assets: assetList,
+    minQty: z.number().nonnegative().optional().describe('Minimum remaining quantity per lot'),
+    maxAge: z.number().int().positive().optional().describe('Only lots acquired within this many days, counted back from the start of today (UTC)'),
+    onlyImpaired: z.boolean().optional().describe('Only include lots with impairment expense')
+  }).optional().describe('Optional lot filters'),
+  sortBy: z.enum(['age', 'value', 'qty', 'asset']).optional()
+    .describe('Sort key (default newest lots first)'),
+  ascending,
+  maximumBytesBilled,
+  ...paging
+});
+
+export const valuationRollforwardSchema = z.object({
+  parameters: z.object({
+    runId,
+    orgId,
+    startDate: dateString('Period start date (YYYY-MM-DD)'),
+    endDate: dateString('Period end date (YYYY-MM-DD)')
+  }).refine(parameters => parameters.startDate <= parameters.endDate, {
+    message: 'startDate must not be after endDate',
+    path: ['endDate']
+  }).describe('Report parameters'),
+  groupBy: z.array(z.enum(['asset', 'subsidiary', 'inventory', 'wallet']))
+    .optional()
+    .describe('Additional grouping dimensions'),
+  filters: z.object({
+    assets: assetList,
+    subsidiaries: z.array(z.string().min(1)).optional().describe('Subsidiaries to include'),
+    minValue: z.number().optional().describe('Minimum ending carrying value')
+  }).optional().describe('Optional rollforward filters'),
+  thresholds: z.object({
+    costBasisChangeThreshold: z.number().nonnegative().optional().describe('Acquisition/disposal threshold (default 10000)'),
+    gainLossThreshold: z.number().nonnegative().optional().describe('Realized gain/loss threshold (default 5000)'),
+    impairmentThreshold: z.number().nonnegative().optional().describe('Impairment expense threshold (default 1000)')
+  }).optional().describe('Overrides for significant movement detection (USD)'),
+  maximumBytesBilled,
+  ...paging
+});
+
+export const inventoryBalanceSchema = z.object({
+  parameters: asOfParameters.describe('Report parameters'),
+  groupBy: inventoryGroupBy,
+  filters: inventoryFilters,
+  sortBy: z.enum(['asset', 'value', 'qty', 'costBasis', 'inventory']).optional()
+    .describe('Sort key (default asset, then inventory, ascending)'),
+  ascending,
+  maximumBytesBilled,
+  ...paging
+});
+
+export const inventoryVarianceSchema = z.object({
+  parameters: runScope.describe('Report parameters'),
+  priorAsOfDate: dateString('Prior as-of date (YYYY-MM-DD)'),
+  currentAsOfDate: dateString('Current as-of date (YYYY-MM-DD)'),
+  groupBy: inventoryGroupBy,
+  filters: inventoryFilters,
+  maximumBytesBilled,
+  ...paging
+}).refine(args => args.priorAsOfDate <= args.currentAsOfDate, {
+  message: 'priorAsOfDate must not be after currentAsOfDate',
+  path: ['priorAsOfDate']
+});
+
+export const runSqlQuerySchema = z.object({
+  sql: z.string().min(1, 'sql is required').max(100000)
+    .describe('A single SELECT reading only from {ACTIONS_REPORT_TABLE}; the server scopes it to the run'),
+  parameters: orgRunScope.describe('Run scope applied to every read of the table'),
+  maximumBytesBilled,
+  ...paging
+});
+
+export const REPORT_JOB_TOOLS = [
+  'generate_lots_report',
+  'generate_valuation_rollforward',
+  'generate_inventory_balance',
+  'inventory_variance',
+  'run_sql_query'
+] as const;
+
+export type ReportJobTool = typeof REPORT_JOB_TOOLS[number];
+
+const jobId = z.string().min(1, 'jobId is required').describe('Report job identifier returned by start_report_job');
+
+export const startReportJobSchema = z.object({
+  tool: z.enum(REPORT_JOB_TOOLS).describe('Report tool to run in the background'),
+  arguments: z.record(z.string(), z.any()).default({}).describe('Arguments for the report tool, as for a direct call')
+});
+
+export const estimateQueryCostSchema = z.object({
+  tool: z.enum(REPORT_JOB_TOOLS).describe('Report tool whose queries to estimate'),
+  arguments: z.record(z.string(), z.any()).default({}).describe('Arguments for the report tool, as for a direct call')
+});
+
+export const getReportJobSchema = z.object({
+  jobId
+});
+
+export const getReportResultSchema = z.object({
+  jobId,
+  ...paging
+});
+
+export const getQueryAuditSchema = z.object({
+  from: timestamp('Earliest query start to include (e.g. 2025-01-01 or 2025-01-01T09:00:00Z)').optional(),
+  to: timestamp('Latest query start to include; a bare date includes that whole day').optional(),
+  orgId,
+  runId: z.string().min(1).optional().describe('Calculation run identifier'),
+  ...paging
+}).refine(args => !args.from || !args.to || Date.parse(args.from) <= Date.parse(args.to), {
+  message: 'from must not be after to',
+  path: ['to']
+});
+
+export type TestConnectionArgs = z.infer<typeof testConnectionSchema>;
+export type ConfigureDataSourceArgs = z.infer<typeof configureDataSourceSchema>;
+export type ValidateColumnMappingArgs = z.infer<typeof validateColumnMappingSchema>;
+export type AnalyzeActionsDataArgs = z.infer<typeof analyzeActionsDataSchema>;
+export type LotsReportArgs = z.infer<typeof lotsReportSchema>;
+export type ValuationRollforwardArgs = z.infer<typeof valuationRollforwardSchema>;
+export type InventoryBalanceArgs = z.infer<typeof inventoryBalanceSchema>;
+export type InventoryVarianceArgs = z.infer<typeof inventoryVarianceSchema>;
+export type RunSqlQueryArgs = z.infer<typeof runSqlQuerySchema>;
+export type StartReportJobArgs = z.infer<typeof startReportJobSchema>;
+export type EstimateQueryCostArgs = z.infer<typeof estimateQueryCostSchema>;
+export type GetReportJobArgs = z.infer<typeof getReportJobSchema>;
+export type GetReportResultArgs = z.infer<typeof getReportResultSchema>;
+export type GetQueryAuditArgs = z.infer<typeof getQueryAuditSchema>;
+
+// Validated arguments of every tool, by tool name
+export interface ToolArgs {
+  test_connection: TestConnectionArgs;
+  configure_data_source: ConfigureDataSourceArgs;
+  validate_column_mapping: ValidateColumnMappingArgs;
+  analyze_actions_data: AnalyzeActionsDataArgs;
+  generate_lots_report: LotsReportArgs;
+  generate_valuation_rollforward: ValuationRollforwardArgs;
+  generate_inventory_balance: InventoryBalanceArgs;
+  inventory_variance: InventoryVarianceArgs;
+  run_sql_query: RunSqlQueryArgs;
+  estimate_query_cost: EstimateQueryCostArgs;
+  start_report_job: StartReportJobArgs;
+  get_report_job: GetReportJobArgs;
+  get_report_result: GetReportResultArgs;
+  get_query_audit: GetQueryAuditArgs;
+}
+
+// A report tool with its validated arguments; narrowing on `tool` types `args`
+export type ReportToolCall = { [T in ReportJobTool]: { tool: T; args: ToolArgs[T] } }[ReportJobTool];
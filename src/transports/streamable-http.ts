@@ -0,0 +1,306 @@
+/**
+ * Streamable HTTP Transport - MCP over a Single HTTP Endpoint
+ *
+ * Server side of the MCP Streamable HTTP transport for one session:
+ * - POST carries client messages; requests are answered on that POST, either
+ *   as a text/event-stream or, for clients that only accept JSON, as one JSON body
+ * - GET opens a standalone SSE stream for server notifications
+ * - Every response carries the session's Mcp-Session-Id header
+ * - Dropping a POST before its responses are written cancels those requests
+ * - A cancelled request gets no response, so its POST stops waiting for one
+ *
+ * Session creation, lookup and DELETE are handled by http-server.ts.
+ */
+
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  JSONRPCError,
+  JSONRPCMessage,
+  JSONRPCMessageSchema,
+  JSONRPCNotification,
+  JSONRPCRequest,
+  JSONRPCResponse
+} from '@modelcontextprotocol/sdk/types.js';
+import { ErrorCodes } from '../errors.js';
+
+export const SESSION_HEADER = 'Mcp-Session-Id';
+
+type RequestId = string | number;
+
+interface PostStream {
+  res: ServerResponse;
+  mode: 'sse' | 'json';
+  batch: boolean;
+  pending: Set<RequestId>;
+  collected: JSONRPCMessage[];
+}
+
+export class StreamableHTTPServerTransport implements Transport {
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  readonly sessionId: string;
+  private standaloneStream: ServerResponse | null = null;
+  private streamsByRequest: Map<RequestId, PostStream> = new Map();
+  private streamsByProgressToken: Map<RequestId, PostStream> = new Map();
+  private closed = false;
+
+  constructor(sessionId: string) {
+    this.sessionId = sessionId;
+  }
+
+  async start(): Promise<void> {
+    // Streams are opened per HTTP request; nothing to do until the first POST
+  }
+
+  // ========================================================================
+  // HTTP ENTRY POINTS
+  // ========================================================================
+
+  /**
+   * Handle a POST carrying one message or a batch (already JSON-parsed)
+   */
+  async handlePost(req: IncomingMessage, res: ServerResponse, body: unknown): Promise<void> {
+    const batch = Array.isArray(body);
+    const rawMessages: unknown[] = batch ? (body as unknown[]) : [body];
+    const messages: JSONRPCMessage[] = [];
+
+    for (const raw of rawMessages) {
+      const parsed = JSONRPCMessageSchema.safeParse(raw);
+      if (!parsed.success) {
+        this.writeJson(res, 400, {
+          jsonrpc: '2.0',
+          id: null,
+          error: { code: ErrorCodes.INVALID_REQUEST, message: 'Invalid JSON-RPC message' }
+        });
+        return;
+      }
+      messages.push(parsed.data);
+    }
+
+    const requests = messages.filter(isRequest);
+
+    // Notifications and responses only: acknowledge and dispatch
+    if (requests.length === 0) {
+      res.writeHead(202, { [SESSION_HEADER]: this.sessionId }).end();
+      messages.forEach(message => this.dispatch(message));
+      return;
+    }
+
+    const accept = req.headers.accept || '';
+    const stream: PostStream = {
+      res,
+      mode: accept.includes('text/event-stream') ? 'sse' : 'json',
+      batch,
+      pending: new Set(requests.map(request => request.id)),
+      collected: []
+    };
+
+    requests.forEach(request => {
+      this.streamsByRequest.set(request.id, stream);
+      const progressToken = request.params?._meta?.progressToken;
+      if (progressToken !== undefined) {
+        this.streamsByProgressToken.set(progressToken, stream);
+      }
+    });
+
+    if (stream.mode === 'sse') {
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        [SESSION_HEADER]: this.sessionId
+      });
+    }
+
+    res.on('close', () => {
+      // Requests still unanswered when the client drops the POST are cancelled
+      const abandoned = Array.from(stream.pending);
+      this.releaseStream(stream);
+      abandoned.forEach(requestId => this.onmessage?.({
+        jsonrpc: '2.0',
+        method: 'notifications/cancelled',
+        params: { requestId, reason: 'Client disconnected' }
+      }));
+    });
+
+    messages.forEach(message => this.dispatch(message));
+  }
+
+  /**
+   * Handle a GET opening the standalone notification stream
+   */
+  handleGet(req: IncomingMessage, res: ServerResponse): void {
+    if (!(req.headers.accept || '').includes('text/event-stream')) {
+      this.writeJson(res, 406, {
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: ErrorCodes.INVALID_REQUEST, message: 'Client must accept text/event-stream' }
+      });
+      return;
+    }
+
+    if (this.standaloneStream) {
+      this.writeJson(res, 409, {
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: ErrorCodes.INVALID_REQUEST, message: 'A notification stream is already open for this session' }
+      });
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      [SESSION_HEADER]: this.sessionId
+    });
+    res.flushHeaders();
+
+    this.standaloneStream = res;
+    res.on('close', () => {
+      if (this.standaloneStream === res) {
+        this.standaloneStream = null;
+      }
+    });
+  }
+
+  // ========================================================================
+  // TRANSPORT INTERFACE
+  // ========================================================================
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (this.closed) {
+      throw new Error('Not connected');
+    }
+
+    if (isResponse(message)) {
+      const stream = this.streamsByRequest.get(message.id);
+      if (!stream) {
+        // The client went away before the result was ready
+        return;
+      }
+
+      this.streamsByRequest.delete(message.id);
+      stream.pending.delete(message.id);
+
+      if (stream.mode === 'sse') {
+        writeEvent(stream.res, message);
+      } else {
+        stream.collected.push(message);
+      }
+
+      if (stream.pending.size === 0) {
+        this.finishStream(stream);
+      }
+      return;
+    }
+
+    // Progress goes to the stream of the request that asked for it; anything else to the standalone stream
+    const progressToken = (message as any).params?.progressToken;
+    const requestStream = progressToken !== undefined ? this.streamsByProgressToken.get(progressToken) : undefined;
+
+    if (requestStream && requestStream.mode === 'sse') {
+      writeEvent(requestStream.res, message);
+    } else if (this.standaloneStream) {
+      writeEvent(this.standaloneStream, message);
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+
+    new Set(this.streamsByRequest.values()).forEach(stream => stream.res.end());
+    this.streamsByRequest.clear();
+    this.streamsByProgressToken.clear();
+    this.standaloneStream?.end();
+    this.standaloneStream = null;
+
+    this.onclose?.();
+  }
+
+  // ========================================================================
+  // STREAM HELPERS
+  // ========================================================================
+
+  private dispatch(message: JSONRPCMessage): void {
+    if (isCancellation(message)) {
+      this.cancelRequest(message.params.requestId);
+    }
+    this.onmessage?.(message);
+  }
+
+  /**
+   * Stop waiting for a cancelled request's response, which the server never
+   * sends, and finish its POST once nothing else on it is pending
+   */
+  private cancelRequest(requestId: RequestId): void {
+    const stream = this.streamsByRequest.get(requestId);
+    if (!stream) {
+      return;
+    }
+
+    this.streamsByRequest.delete(requestId);
+    stream.pending.delete(requestId);
+    if (stream.pending.size === 0) {
+      this.finishStream(stream);
+    }
+  }
+
+  private finishStream(stream: PostStream): void {
+    if (stream.mode === 'sse') {
+      stream.res.end();
+    } else if (stream.collected.length === 0) {
+      // Every request on the POST was cancelled
+      stream.res.writeHead(202, { [SESSION_HEADER]: this.sessionId }).end();
+    } else {
+      const single = stream.collected[0];
+      this.writeJson(stream.res, 200, stream.batch ? stream.collected : single);
+    }
+    this.releaseStream(stream);
+  }
+
+  private releaseStream(stream: PostStream): void {
+    stream.pending.forEach(id => this.streamsByRequest.delete(id));
+    this.streamsByProgressToken.forEach((candidate, token) => {
+      if (candidate === stream) {
+        this.streamsByProgressToken.delete(token);
+      }
+    });
+  }
+
+  private writeJson(res: ServerResponse, status: number, body: unknown): void {
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+
+    res.writeHead(status, { 'Content-Type': 'application/json', [SESSION_HEADER]: this.sessionId });
+    res.end(JSON.stringify(body));
+  }
+}
+
+function isRequest(message: JSONRPCMessage): message is JSONRPCRequest {
+  return 'method' in message && 'id' in message;
+}
+
+function isCancellation(message: JSONRPCMessage): message is JSONRPCNotification & { params: { requestId: RequestId } } {
+  if (!('method' in message) || 'id' in message || message.method !== 'notifications/cancelled') {
+    return false;
+  }
+  const requestId = message.params?.requestId;
+  return typeof requestId === 'string' || typeof requestId === 'number';
+}
+
+function isResponse(message: JSONRPCMessage): message is JSONRPCResponse | JSONRPCError {
+  return 'id' in message && ('result' in message || 'error' in message);
+}
+
+function writeEvent(res: ServerResponse, message: JSONRPCMessage): void {
+  res.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+}
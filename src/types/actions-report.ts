@@ -77,6 +77,61 @@ export interface ActionRecord {
   isTrade?: boolean;
 }
 
+// Logical type of every ActionRecord field, used for column mapping validation
+export const ACTION_RECORD_FIELDS: Record<keyof ActionRecord, 'string' | 'number' | 'boolean'> = {
+  orgId: 'string',
+  runId: 'string',
+  txnId: 'string',
+  eventId: 'string',
+  lotId: 'string',
+  timestampSEC: 'number',
+  timestamp: 'string',
+  lotAcquisitionTimestampSEC: 'number',
+  action: 'string',
+  status: 'string',
+  asset: 'string',
+  assetId: 'string',
+  assetUnitAdj: 'number',
+  assetBalance: 'number',
+  costBasisAcquired: 'number',
+  costBasisRelieved: 'number',
+  originalCostBasisDisposed: 'number',
+  shortTermGainLoss: 'number',
+  longTermGainLoss: 'number',
+  undatedGainLoss: 'number',
+  fairMarketValueDisposed: 'number',
+  carryingValue: 'number',
+  txnExchangeRate: 'number',
+  impairmentExpense: 'number',
+  impairmentReversal: 'number',
+  impairmentExpenseDisposed: 'number',
+  fairValueAdjustmentUpward: 'number',
+  fairValueAdjustmentDownward: 'number',
+  revaluationAdjustmentUpward: 'number',
+  revaluationAdjustmentDownward: 'number',
+  category: 'string',
+  categoryCode: 'string',
+  categoryType: 'string',
+  inventory: 'string',
+  subsidiaryId: 'string',
+  wallet: 'string',
+  toWallet: 'string',
+  fromWallet: 'string',
+  isInternalTransfer: 'boolean',
+  transferLotId: 'string',
+  originalLotId: 'string',
+  description: 'string',
+  metadata: 'string',
+  baseCurrency: 'string',
+  isFee: 'boolean',
+  isTrade: 'boolean'
+};
+
+// Fields every Actions Report source must provide
+export const REQUIRED_ACTION_FIELDS: (keyof ActionRecord)[] = [
+  'orgId', 'runId', 'txnId', 'eventId', 'timestampSEC', 'action', 'status', 'asset', 'assetId'
+];
+
 // ============================================================================
 // DERIVATIVE REPORTS - Data Structures
 // ============================================================================
@@ -216,6 +271,8 @@ export interface QueryResult {
     execution_time_ms: number;
     cached: boolean;
     columns_used: string[];
+    // Rows stopped at MAX_QUERY_ROWS
+    truncated: boolean;
   };
 }
 
@@ -447,6 +504,21 @@ export interface DataSource {
   config: BigQueryConfig | { filePath: string };
 }
 
+export interface DataSourceField {
+  name: string;
+  type: string;
+  mode?: string;
+}
+
+export interface ColumnMappingValidation {
+  valid: boolean;
+  mapping: Record<string, string>;
+  unknownFields: string[];
+  invalidColumns: string[];
+  missingColumns: Array<{ field: string; column: string }>;
+  typeMismatches: Array<{ field: string; column: string; expectedType: string; actualType: string }>;
+}
+
 export interface ReportParameters {
   runId: string;
   orgId?: string;
@@ -454,4 +526,73 @@ export interface ReportParameters {
   endDate?: string;
   asOfDate?: string;
   asOfSEC?: number;
+}
+
+// Stages reported while a report is generated, in order
+export type ReportProgressStage = 'sql_built' | 'job_created' | 'rows_received' | 'transform_done';
+
+export const REPORT_PROGRESS_STAGES: ReportProgressStage[] = ['sql_built', 'job_created', 'rows_received', 'transform_done'];
+
+export type ReportProgressCallback = (stage: ReportProgressStage, message: string) => void;
+
+// Who a query ran for, recorded in the query audit log
+export interface QueryAuditContext {
+  tool?: string;
+  caller?: string;
+}
+
+export interface ReportExecutionOptions {
+  onProgress?: ReportProgressCallback;
+  // Aborting cancels the BigQuery job and fails the report with RequestCancelledError
+  signal?: AbortSignal;
+  // Per-call bytes-billed cap; can only tighten the org or server limit
+  maximumBytesBilled?: number;
+  // The report's own row cap; can only tighten MAX_QUERY_ROWS
+  maxRows?: number;
+  audit?: QueryAuditContext;
+}
+
+// A query's rows, transformed as each page arrived and capped at the report's row limit
+export interface ReportRows<T> {
+  rows: T[];
+  // More rows matched than the cap allows; rows holds the first ones
+  truncated: boolean;
+}
+
+// The row cap a report ran under and the setting it came from
+export interface ReportRowLimit {
+  setting: string;
+  rows: number;
+}
+
+// Dry-run result for one query: what it would scan and whether the cap allows it
+export interface QueryCostEstimate {
+  totalBytesProcessed: number;
+  estimatedCostUSD: number;
+  maximumBytesBilled?: number;
+  withinLimit: boolean;
+}
+
+// Bytes-billed caps applied to every BigQuery job; unset means no cap
+export interface QueryCostLimits {
+  maximumBytesBilled?: number;
+  orgMaximumBytesBilled?: Record<string, number>;
+  // On-demand price used for estimates
+  pricePerTiBUSD: number;
+}
+
+// How many of the largest items a report's presentation lists; every record is in the paged records
+export const PRESENTATION_TOP_ITEMS = 10;
+
+// A finished report, kept whole so it can be returned directly or paged from the job store
+export interface ReportOutput {
+  // Markdown summary of the full result: totals and the largest PRESENTATION_TOP_ITEMS items
+  text: string;
+  // Parameters, summaries and other figures computed over the full result
+  overview: Record<string, any>;
+  // The report's rows, in report order
+  records: any[];
+  // A query hit rowLimit, so records and summaries cover only part of the result
+  truncated: boolean;
+  rowLimit: ReportRowLimit;
 }
\ No newline at end of file
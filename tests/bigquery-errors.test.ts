@@ -0,0 +1,164 @@
+/**
+ * How BigQuery failures are classified into typed errors, and which of them
+ * withRetry tries again.
+ */
+
+import {
+  BigQueryErrorReasons,
+  BigQueryExecutionError,
+  BigQueryInvalidQueryError,
+  BigQueryPermissionError,
+  BigQueryQuotaError,
+  BigQueryTableNotFoundError,
+  BigQueryTimeoutError,
+  BigQueryUnavailableError,
+  ErrorCodes,
+  QueryCostLimitError,
+  RequestCancelledError
+} from '../src/errors';
+import { classifyBigQueryError, isDuplicateJob, isTransientBigQueryError, withRetry } from '../src/services/bigquery-errors';
+
+// No waiting between attempts
+const RETRY = { maxAttempts: 3, initialDelayMs: 0, maxDelayMs: 0 };
+
+/**
+ * An error shaped like the ones @google-cloud/bigquery throws
+ */
+function apiError(message: string, code?: number | string, reasons: string[] = []): Error {
+  return Object.assign(new Error(message), {
+    ...(code !== undefined ? { code } : {}),
+    errors: reasons.map(reason => ({ reason, message }))
+  });
+}
+
+function failingTimes(failures: unknown[]): { operation: () => Promise<string>; calls: () => number } {
+  let calls = 0;
+  return {
+    operation: async () => {
+      const failure = failures[calls++];
+      if (failure !== undefined) {
+        throw failure;
+      }
+      return 'done';
+    },
+    calls: () => calls
+  };
+}
+
+describe('classifyBigQueryError', () => {
+  it.each([
+    ['bytesBilledLimitExceeded', apiError('limit', 400, ['bytesBilledLimitExceeded']), QueryCostLimitError],
+    ['a timeout reason', apiError('slow', 400, ['timeout']), BigQueryTimeoutError],
+    ['a timed out message', apiError('Query timed out'), BigQueryTimeoutError],
+    ['quotaExceeded', apiError('quota', 403, ['quotaExceeded']), BigQueryQuotaError],
+    ['rateLimitExceeded', apiError('slow down', 403, ['rateLimitExceeded']), BigQueryUnavailableError],
+    ['a bare 429', apiError('too many', 429), BigQueryUnavailableError],
+    ['accessDenied', apiError('denied', 403, ['accessDenied']), BigQueryPermissionError],
+    ['a bare 401', apiError('unauthenticated', 401), BigQueryPermissionError],
+    ['notFound', apiError('missing', 404, ['notFound']), BigQueryTableNotFoundError],
+    ['invalidQuery', apiError('bad sql', 400, ['invalidQuery']), BigQueryInvalidQueryError],
+    ['backendError', apiError('oops', 500, ['backendError']), BigQueryUnavailableError],
+    ['a dropped connection', apiError('socket hang up', 'ECONNRESET'), BigQueryUnavailableError],
+    ['anything else', new Error('strange'), BigQueryExecutionError]
+  ])('classifies %s', (_case, error, expected) => {
+    const classified = classifyBigQueryError(error, 'BigQuery execution failed');
+
+    expect(classified).toBeInstanceOf(expected);
+    expect(classified.message).toBe(`BigQuery execution failed: ${error.message}`);
+  });
+
+  it('prefers the reason of a failed job over its HTTP status', () => {
+    const error = Object.assign(apiError('job failed', 400), {
+      response: { status: { errorResult: { reason: 'notFound', message: 'Not found: Table' } } }
+    });
+
+    const classified = classifyBigQueryError(error, 'BigQuery execution failed');
+
+    expect(classified).toBeInstanceOf(BigQueryTableNotFoundError);
+    expect(classified.code).toBe(ErrorCodes.DATA_SOURCE_CONFIGURATION);
+    expect(classified.data).toMatchObject({ reason: BigQueryErrorReasons.TABLE_NOT_FOUND, bigQueryReasons: ['notFound'] });
+    expect(classified.data?.suggestions).toEqual(expect.arrayContaining([expect.any(String)]));
+  });
+
+  it('returns typed errors unchanged', () => {
+    const error = new RequestCancelledError();
+
+    expect(classifyBigQueryError(error, 'BigQuery execution failed')).toBe(error);
+  });
+});
+
+describe('isTransientBigQueryError', () => {
+  it('retries only when every reason is transient', () => {
+    expect(isTransientBigQueryError(apiError('busy', 500, ['backendError', 'rateLimitExceeded']))).toBe(true);
+    expect(isTransientBigQueryError(apiError('mixed', 500, ['backendError', 'invalidQuery']))).toBe(false);
+    expect(isTransientBigQueryError(apiError('unavailable', 503))).toBe(true);
+    expect(isTransientBigQueryError(apiError('bad request', 400))).toBe(false);
+    expect(isTransientBigQueryError(new RequestCancelledError())).toBe(false);
+  });
+});
+
+describe('isDuplicateJob', () => {
+  it('recognises a job that already exists', () => {
+    expect(isDuplicateJob(apiError('Already Exists: Job project:US.mcp_1', 409, ['duplicate']))).toBe(true);
+    expect(isDuplicateJob(apiError('conflict', 409))).toBe(true);
+    expect(isDuplicateJob(apiError('busy', 500, ['backendError']))).toBe(false);
+  });
+});
+
+describe('withRetry', () => {
+  it('retries transient failures until the operation succeeds', async () => {
+    const { operation, calls } = failingTimes([apiError('busy', 503), apiError('busy', 500, ['backendError'])]);
+
+    await expect(withRetry(operation, RETRY)).resolves.toBe('done');
+    expect(calls()).toBe(3);
+  });
+
+  it('rethrows the last failure once attempts run out', async () => {
+    const last = apiError('still busy', 503);
+    const { operation, calls } = failingTimes([apiError('busy', 503), apiError('busy', 503), last]);
+
+    await expect(withRetry(operation, RETRY)).rejects.toBe(last);
+    expect(calls()).toBe(3);
+  });
+
+  it('does not retry permanent failures', async () => {
+    const denied = apiError('denied', 403, ['accessDenied']);
+    const { operation, calls } = failingTimes([denied]);
+
+    await expect(withRetry(operation, RETRY)).rejects.toBe(denied);
+    expect(calls()).toBe(1);
+  });
+
+  it('uses the caller\'s test for what to retry', async () => {
+    const { operation, calls } = failingTimes([apiError('busy', 503)]);
+
+    await expect(withRetry(operation, RETRY, { retryable: () => false })).rejects.toThrow('busy');
+    expect(calls()).toBe(1);
+  });
+
+  it('stops when the request is cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const { operation, calls } = failingTimes([]);
+
+    await expect(withRetry(operation, RETRY, { signal: controller.signal })).rejects.toBeInstanceOf(RequestCancelledError);
+    expect(calls()).toBe(0);
+  });
+
+  it('cancels the wait between attempts', async () => {
+    // Always wait the full backoff ceiling
+    const random = jest.spyOn(Math, 'random').mockReturnValue(1);
+    const controller = new AbortController();
+    const { operation, calls } = failingTimes([apiError('busy', 503)]);
+
+    try {
+      const retried = withRetry(operation, { maxAttempts: 2, initialDelayMs: 60000, maxDelayMs: 60000 }, { signal: controller.signal });
+      setTimeout(() => controller.abort(), 10);
+
+      await expect(retried).rejects.toBeInstanceOf(RequestCancelledError);
+      expect(calls()).toBe(1);
+    } finally {
+      random.mockRestore();
+    }
+  });
+});
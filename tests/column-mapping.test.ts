@@ -0,0 +1,46 @@
+/**
+ * A mapped column is matched to the schema regardless of case, and both the
+ * BigQuery source and local file records use the schema's spelling.
+ */
+
+import { ColumnMapper } from '../src/services/column-mapping';
+import { DataSourceField } from '../src/types/actions-report';
+
+const SCHEMA: DataSourceField[] = [
+  { name: 'Cryptocurrency_Symbol', type: 'STRING' },
+  { name: 'Asset', type: 'STRING' },
+  { name: 'runId', type: 'STRING' }
+];
+
+describe('ColumnMapper', () => {
+  it('accepts a column spelled in a different case', () => {
+    const validation = ColumnMapper.validate({ asset: 'cryptocurrency_symbol' }, SCHEMA);
+
+    expect(validation.missingColumns).not.toContainEqual(expect.objectContaining({ field: 'asset' }));
+    expect(validation.typeMismatches).toEqual([]);
+  });
+
+  it('renames local records by the schema spelling of the column', () => {
+    const mapper = new ColumnMapper({ asset: 'cryptocurrency_symbol' }, SCHEMA);
+
+    expect(mapper.getMapping()).toEqual({ asset: 'Cryptocurrency_Symbol' });
+    expect(mapper.remapRecord({ Cryptocurrency_Symbol: 'BTC', runId: 'run-1' })).toEqual({ asset: 'BTC', runId: 'run-1' });
+  });
+
+  it('projects the BigQuery source with the same column', () => {
+    const mapper = new ColumnMapper({ asset: 'cryptocurrency_symbol' }, SCHEMA);
+
+    expect(mapper.buildSourceReference('project.dataset.actions')).toBe(
+      '(SELECT * EXCEPT(Cryptocurrency_Symbol, Asset), Cryptocurrency_Symbol AS asset FROM `project.dataset.actions`)'
+    );
+  });
+
+  it('renames a column that differs from its field only in case, excluding it once', () => {
+    const mapper = new ColumnMapper({ asset: 'ASSET' }, SCHEMA);
+
+    expect(mapper.remapRecord({ Asset: 'ETH' })).toEqual({ asset: 'ETH' });
+    expect(mapper.buildSourceReference('project.dataset.actions')).toBe(
+      '(SELECT * EXCEPT(Asset), Asset AS asset FROM `project.dataset.actions`)'
+    );
+  });
+});
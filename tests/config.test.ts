@@ -0,0 +1,93 @@
+/**
+ * loadConfig's validation: every invalid setting stops startup, and all of
+ * them are reported together rather than one per restart.
+ */
+
+import { ConfigurationError, loadConfig } from '../src/config';
+
+function problemsFor(env: NodeJS.ProcessEnv): string[] {
+  try {
+    loadConfig(env);
+  } catch (error) {
+    expect(error).toBeInstanceOf(ConfigurationError);
+    return (error as ConfigurationError).problems;
+  }
+
+  throw new Error('loadConfig accepted an invalid configuration');
+}
+
+describe('loadConfig', () => {
+  it('uses the documented defaults for an empty environment', () => {
+    const config = loadConfig({});
+
+    expect(config.bigquery.jobTimeoutMs).toBe(60000);
+    expect(config.dataSource.csvEncoding).toBe('utf8');
+    expect(config.logging.level).toBe('info');
+    expect(config.http.transport).toBe('stdio');
+    expect(config.features.sqlPassthrough).toBe(false);
+    expect(config.query.timeoutMs).toBe(120000);
+    expect(config.reportLimits).toEqual({ lots: 50000, rollforwardAssets: 1000, inventoryRecords: 10000 });
+    expect(config.http.rateLimit).toEqual({ windowMs: 60000, maxRequests: 100 });
+    expect(config.columnMapping.autoConfirm).toBe(false);
+    expect(config.server).toEqual({ name: 'reporting-mcp-server', version: '1.0.0' });
+  });
+
+  it('decodes a base64 service account key', () => {
+    const key = { type: 'service_account', client_email: 'reports@project.iam.gserviceaccount.com', private_key: 'KEY' };
+    const config = loadConfig({ GOOGLE_CREDENTIALS_JSON: Buffer.from(JSON.stringify(key)).toString('base64') });
+
+    expect(config.bigquery.credentials).toEqual(key);
+  });
+
+  it('accepts the spellings it normalizes', () => {
+    const config = loadConfig({
+      CSV_ENCODING: 'UTF-8',
+      LOG_LEVEL: 'WARN',
+      MCP_SERVER_TRANSPORT: 'HTTP',
+      ENABLE_SQL_PASSTHROUGH: 'yes',
+      QUERY_AUDIT_ENABLED: 'off'
+    });
+
+    expect(config.dataSource.csvEncoding).toBe('utf8');
+    expect(config.logging.level).toBe('warn');
+    expect(config.http.transport).toBe('http');
+    expect(config.features.sqlPassthrough).toBe(true);
+    expect(config.queryAudit.enabled).toBe(false);
+  });
+
+  it.each([
+    ['a non-numeric integer', { BIGQUERY_JOB_TIMEOUT_MS: 'soon' }, 'BIGQUERY_JOB_TIMEOUT_MS'],
+    ['a fractional integer', { MAX_QUERY_ROWS: '10.5' }, 'MAX_QUERY_ROWS'],
+    ['a value below the minimum', { BIGQUERY_MAX_RESULTS: '0' }, 'BIGQUERY_MAX_RESULTS must be at least 1'],
+    ['a value above the maximum', { CURRENCY_DECIMAL_PLACES: '21' }, 'CURRENCY_DECIMAL_PLACES must be at most 20'],
+    ['a port out of range', { MCP_SERVER_PORT: '70000' }, 'MCP_SERVER_PORT must be at most 65535'],
+    ['a flag that is not a boolean', { ENABLE_LOTS_REPORT: 'maybe' }, 'ENABLE_LOTS_REPORT must be true or false'],
+    ['an unknown transport', { MCP_SERVER_TRANSPORT: 'websocket' }, 'MCP_SERVER_TRANSPORT must be one of stdio, http, both'],
+    ['an unknown log level', { LOG_LEVEL: 'trace' }, 'LOG_LEVEL must be one of error, warn, info, debug'],
+    ['an unsupported CSV encoding', { CSV_ENCODING: 'ebcdic' }, 'CSV_ENCODING must be one of'],
+    ['a relative health check path', { HEALTH_CHECK_ENDPOINT: 'health' }, 'HEALTH_CHECK_ENDPOINT must be a path starting with /'],
+    ['a malformed per-org byte limit', { MAX_BYTES_BILLED_BY_ORG: '{"org_1": -5}' }, 'MAX_BYTES_BILLED_BY_ORG must be a JSON object'],
+    ['a service account key that is not base64 JSON', { GOOGLE_CREDENTIALS_JSON: '{"client_email": "x"}' }, 'GOOGLE_CREDENTIALS_JSON must be a base64-encoded service account key'],
+    ['a CSV default source without a file', { DEFAULT_DATA_SOURCE_TYPE: 'csv' }, 'CSV_DATA_PATH must be set when DEFAULT_DATA_SOURCE_TYPE is csv']
+  ])('refuses %s', (_case, env, problem) => {
+    const problems = problemsFor(env);
+
+    expect(problems).toHaveLength(1);
+    expect(problems[0]).toContain(problem);
+  });
+
+  it('lists every invalid setting in one error', () => {
+    const env = {
+      BIGQUERY_JOB_TIMEOUT_MS: 'soon',
+      LOG_LEVEL: 'loud',
+      ENABLE_NATURAL_LANGUAGE: 'sometimes'
+    };
+
+    expect(() => loadConfig(env)).toThrow(/Invalid configuration:\n {2}- BIGQUERY_JOB_TIMEOUT_MS/);
+    expect(problemsFor(env)).toEqual([
+      expect.stringContaining('BIGQUERY_JOB_TIMEOUT_MS'),
+      expect.stringContaining('LOG_LEVEL'),
+      expect.stringContaining('ENABLE_NATURAL_LANGUAGE')
+    ]);
+  });
+});
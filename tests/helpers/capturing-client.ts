@@ -0,0 +1,99 @@
+/**
+ * A BigQueryClient connected to a fake BigQuery that records every query job
+ * it is asked to create, every page it is asked for and every job it is asked
+ * to cancel. Query jobs return no rows unless the test scripts their pages.
+ */
+
+import { BigQuery } from '@google-cloud/bigquery';
+import { ServerConfig } from '../../src/config';
+import { BigQueryClient } from '../../src/services/bigquery-client';
+
+export interface CapturedJob {
+  query: string;
+  params?: Record<string, unknown>;
+  types?: Record<string, unknown>;
+  dryRun?: boolean;
+  maximumBytesBilled?: string;
+}
+
+export interface PageRequest {
+  jobId: string;
+  maxResults?: number;
+  pageToken?: string;
+}
+
+/**
+ * One getQueryResults response
+ */
+export interface FakePage {
+  rows?: Record<string, unknown>[];
+  pageToken?: string;
+  // false while the job is still running
+  jobComplete?: boolean;
+  totalBytesProcessed?: string;
+}
+
+export interface CapturingClientOptions {
+  // What every dry run reports it would process
+  bytesProcessed?: number;
+  // The responses each query job gives, in order; the last one repeats
+  pages?: FakePage[] | ((job: CapturedJob) => FakePage[]);
+  // Runs as each page is read, before it is returned
+  onPage?: (request: PageRequest) => void;
+}
+
+export interface CapturingClient {
+  client: BigQueryClient;
+  jobs: CapturedJob[];
+  pageRequests: PageRequest[];
+  cancelledJobs: string[];
+}
+
+const SOURCE = { projectId: 'project', datasetId: 'dataset', tableId: 'actions' };
+
+export async function createCapturingClient(
+  config: ServerConfig,
+  options: CapturingClientOptions = {}
+): Promise<CapturingClient> {
+  const { bytesProcessed = 1024, pages = [{}], onPage } = options;
+  const jobs: CapturedJob[] = [];
+  const pageRequests: PageRequest[] = [];
+  const cancelledJobs: string[] = [];
+  const table = { getMetadata: async () => [{ schema: { fields: [] } }] };
+
+  const bigquery = {
+    dataset: () => ({ table: () => table }),
+    createQueryJob: async (job: CapturedJob) => {
+      jobs.push(job);
+      const id = `job-${jobs.length}`;
+      const jobPages = typeof pages === 'function' ? pages(job) : pages;
+      let read = 0;
+
+      return [{
+        id,
+        metadata: { statistics: { totalBytesProcessed: String(bytesProcessed) } },
+        getQueryResults: async (query: Omit<PageRequest, 'jobId'>) => {
+          const request = { jobId: id, ...query };
+          pageRequests.push(request);
+          onPage?.(request);
+          // Like a real request, an answer takes a turn of the event loop, so timers can fire while a job runs
+          await new Promise(resolve => setImmediate(resolve));
+
+          const page = jobPages[Math.min(read++, jobPages.length - 1)]!;
+          const { rows = [], pageToken, ...response } = page;
+          const nextQuery = pageToken ? { ...query, pageToken } : page.jobComplete === false ? { ...query } : null;
+          return [rows, nextQuery, response];
+        },
+        cancel: async () => {
+          cancelledJobs.push(id);
+        }
+      }];
+    }
+  };
+
+  const client = new BigQueryClient(config);
+  // Only the calls the client makes are faked
+  await client.configure(SOURCE, bigquery as unknown as BigQuery);
+
+  return { client, jobs, pageRequests, cancelledJobs };
+}
@@ -0,0 +1,183 @@
+/**
+ * Every query BigQueryClient runs, or answers from the cache, leaves one entry
+ * in the audit log, whether it succeeded or not; get_query_audit searches the
+ * log by time, org and run.
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { loadConfig } from '../src/config';
+import { QueryAuditEntry, QueryAuditLog } from '../src/services/query-audit';
+import { ACTIONS_REPORT_TABLE } from '../src/services/sql-builder';
+import { ParameterizedQuery, QueryParameters } from '../src/services/query-parameters';
+import { ReportingMCPServer } from '../src/server';
+import { CapturingClientOptions, createCapturingClient } from './helpers/capturing-client';
+
+const PARAMETERS = { runId: 'run-1', orgId: 'org-1' };
+const AUDIT = { tool: 'generate_lots_report', caller: 'analyst-client/1.0' };
+
+let directory: string;
+let auditPath: string;
+
+beforeEach(async () => {
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), 'query-audit-'));
+  auditPath = path.join(directory, 'query-audit.jsonl');
+});
+
+afterEach(async () => {
+  await fs.rm(directory, { recursive: true, force: true });
+});
+
+function query(): ParameterizedQuery {
+  return { sql: `SELECT asset FROM ${ACTIONS_REPORT_TABLE} WHERE runId = @runId AND orgId = @orgId`, params: new QueryParameters() };
+}
+
+async function auditedClient(env: NodeJS.ProcessEnv, options: CapturingClientOptions = {}) {
+  const config = loadConfig({ QUERY_AUDIT_LOG_PATH: auditPath, ...env });
+  return createCapturingClient(config, options);
+}
+
+async function readLog(): Promise<QueryAuditEntry[]> {
+  const text = await fs.readFile(auditPath, 'utf8');
+  return text.trim().split('\n').map(line => JSON.parse(line));
+}
+
+describe('query audit entries', () => {
+  it('records a query that ran, with who asked and what BigQuery did', async () => {
+    const { client } = await auditedClient({ QUERY_CACHE_MAX_SIZE: '0' }, { bytesProcessed: 2048, pages: [{ rows: [{ asset: 'BTC' }] }] });
+
+    await client.executeReportQuery(query(), PARAMETERS, { audit: AUDIT }, row => row);
+
+    expect(await readLog()).toEqual([{
+      id: expect.any(String),
+      timestamp: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T/),
+      tool: 'generate_lots_report',
+      caller: 'analyst-client/1.0',
+      runId: 'run-1',
+      orgId: 'org-1',
+      sql: expect.stringContaining('SELECT asset FROM'),
+      parameters: { runId: 'run-1', orgId: 'org-1' },
+      durationMs: expect.any(Number),
+      dryRun: false,
+      cacheHit: false,
+      status: 'succeeded',
+      bytesProcessed: 2048,
+      jobId: 'job-2',
+      rowCount: 1,
+      truncated: false
+    }]);
+  });
+
+  it('records a failed query with its error', async () => {
+    const { client } = await auditedClient({ QUERY_CACHE_MAX_SIZE: '0' }, {
+      onPage: () => { throw new Error('Query exceeded resource limits'); }
+    });
+
+    await expect(client.executeReportQuery(query(), PARAMETERS, { audit: AUDIT }, row => row)).rejects.toThrow();
+
+    expect(await readLog()).toEqual([expect.objectContaining({
+      status: 'failed',
+      jobId: 'job-2',
+      error: { code: expect.any(Number), message: expect.stringContaining('Query exceeded resource limits') }
+    })]);
+  });
+
+  it('records a query refused by the bytes-billed limit', async () => {
+    const { client } = await auditedClient({ MAX_BYTES_BILLED: '1000' }, { bytesProcessed: 5000 });
+
+    await expect(client.executeReportQuery(query(), PARAMETERS, { audit: AUDIT }, row => row)).rejects.toThrow();
+
+    expect(await readLog()).toEqual([expect.objectContaining({ status: 'refused', bytesProcessed: 5000, error: expect.objectContaining({ code: -32005 }) })]);
+  });
+
+  it('records a cache hit without a job', async () => {
+    const { client, jobs } = await auditedClient({});
+
+    await client.executeReportQuery(query(), PARAMETERS, { audit: AUDIT }, row => row);
+    await client.executeReportQuery(query(), PARAMETERS, { audit: AUDIT }, row => row);
+
+    const [first, second] = await readLog();
+    expect(first).toMatchObject({ cacheHit: false, jobId: 'job-2' });
+    expect(second).toMatchObject({ cacheHit: true, status: 'succeeded', rowCount: 0, tool: 'generate_lots_report' });
+    expect(second).not.toHaveProperty('jobId');
+    expect(jobs.filter(job => !job.dryRun)).toHaveLength(1);
+  });
+
+  it('writes nothing when QUERY_AUDIT_ENABLED is false', async () => {
+    const { client } = await auditedClient({ QUERY_AUDIT_ENABLED: 'false' });
+
+    await client.executeReportQuery(query(), PARAMETERS, { audit: AUDIT }, row => row);
+
+    await expect(fs.access(auditPath)).rejects.toThrow();
+  });
+});
+
+describe('get_query_audit', () => {
+  async function seed(entries: Partial<QueryAuditEntry>[]): Promise<void> {
+    const log = new QueryAuditLog({ enabled: true, path: auditPath });
+    for (const entry of entries) {
+      await log.record({
+        timestamp: '2025-01-01T00:00:00.000Z',
+        runId: 'run-1',
+        sql: 'SELECT 1',
+        parameters: {},
+        dryRun: false,
+        cacheHit: false,
+        durationMs: 1,
+        status: 'succeeded',
+        ...entry
+      });
+    }
+  }
+
+  async function search(args: Record<string, unknown>): Promise<{ totalEntries: number; entries: QueryAuditEntry[] }> {
+    const server = new ReportingMCPServer(loadConfig({ QUERY_AUDIT_LOG_PATH: auditPath }));
+    const response = await server.processRequest({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'tools/call',
+      params: { name: 'get_query_audit', arguments: args }
+    });
+
+    return JSON.parse(response.result.content[1].text);
+  }
+
+  beforeEach(async () => {
+    await seed([
+      { timestamp: '2025-03-01T10:00:00.000Z', orgId: 'org-1', runId: 'run-1', sql: 'march org-1' },
+      { timestamp: '2025-03-15T23:30:00.000Z', orgId: 'org-2', runId: 'run-2', sql: 'march org-2' },
+      { timestamp: '2025-04-02T08:00:00.000Z', orgId: 'org-1', runId: 'run-3', sql: 'april org-1' }
+    ]);
+  });
+
+  it('returns every entry, oldest first, without filters', async () => {
+    const result = await search({});
+
+    expect(result.totalEntries).toBe(3);
+    expect(result.entries.map(entry => entry.sql)).toEqual(['march org-1', 'march org-2', 'april org-1']);
+  });
+
+  it('filters by org and run', async () => {
+    expect((await search({ orgId: 'org-1' })).entries.map(entry => entry.sql)).toEqual(['march org-1', 'april org-1']);
+    expect((await search({ orgId: 'org-1', runId: 'run-3' })).entries.map(entry => entry.sql)).toEqual(['april org-1']);
+  });
+
+  it('filters by time range, a bare end date covering its whole day', async () => {
+    const result = await search({ from: '2025-03-02', to: '2025-03-15' });
+
+    expect(result.entries.map(entry => entry.sql)).toEqual(['march org-2']);
+  });
+
+  it('refuses a range that ends before it starts', async () => {
+    const server = new ReportingMCPServer(loadConfig({ QUERY_AUDIT_LOG_PATH: auditPath }));
+    const response = await server.processRequest({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'tools/call',
+      params: { name: 'get_query_audit', arguments: { from: '2025-04-01', to: '2025-03-01' } }
+    });
+
+    expect(response.error).toMatchObject({ code: -32602 });
+  });
+});
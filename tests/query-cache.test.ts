@@ -0,0 +1,286 @@
+/**
+ * Both query caches: entries expire after their TTL, the least recently used
+ * entry is evicted first, total rows stay under the cap, and the file cache
+ * shrugs off files that went missing or were corrupted outside the server.
+ * The client keeps results long-term only for runs the data shows complete.
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { loadConfig } from '../src/config';
+import { LotsReportGenerator } from '../src/reports/lots-report';
+import { FileQueryCache, LruQueryCache, QueryCache } from '../src/services/query-cache';
+import { ParameterizedQuery, QueryParameters } from '../src/services/query-parameters';
+import { ACTIONS_REPORT_TABLE } from '../src/services/sql-builder';
+import { CapturedJob, createCapturingClient } from './helpers/capturing-client';
+
+const ROWS = [{ asset: 'BTC', qty: 1 }];
+
+let now = 1_700_000_000_000;
+let directory: string;
+
+beforeEach(async () => {
+  jest.spyOn(Date, 'now').mockImplementation(() => now);
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), 'query-cache-'));
+});
+
+afterEach(async () => {
+  jest.restoreAllMocks();
+  await fs.rm(directory, { recursive: true, force: true });
+});
+
+async function cacheFiles(): Promise<string[]> {
+  return (await fs.readdir(directory)).filter(file => file.endsWith('.json'));
+}
+
+// Entry files are named by the SHA-256 of the key
+function hashOf(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+describe.each([
+  ['LruQueryCache', (maxSize: number, maxRows?: number): QueryCache => new LruQueryCache(maxSize, maxRows)],
+  ['FileQueryCache', (maxSize: number, maxRows?: number): QueryCache => new FileQueryCache(directory, maxSize, maxRows)]
+])('%s', (_name, createCache) => {
+  it('returns an entry until its TTL passes', async () => {
+    const cache = createCache(10);
+    await cache.set('latest', ROWS, 1000);
+
+    now += 999;
+    expect(await cache.get('latest')).toEqual(ROWS);
+
+    now += 1;
+    expect(await cache.get('latest')).toBeUndefined();
+    expect(cache.stats()).toMatchObject({ hits: 1, misses: 1, hitRate: 0.5 });
+  });
+
+  it('keeps each entry for its own TTL', async () => {
+    const cache = createCache(10);
+    await cache.set('latest', ROWS, 1000);
+    await cache.set('run-1', ROWS, 60000);
+
+    now += 5000;
+
+    expect(await cache.get('latest')).toBeUndefined();
+    expect(await cache.get('run-1')).toEqual(ROWS);
+  });
+
+  it('evicts the least recently used entry first', async () => {
+    const cache = createCache(2);
+    await cache.set('a', ROWS, 60000);
+    await cache.set('b', ROWS, 60000);
+    // Reading a makes b the least recently used
+    await cache.get('a');
+    await cache.set('c', ROWS, 60000);
+
+    expect(await cache.get('b')).toBeUndefined();
+    expect(await cache.get('a')).toEqual(ROWS);
+    expect(await cache.get('c')).toEqual(ROWS);
+    expect(cache.stats()).toMatchObject({ size: 2, evictions: 1 });
+  });
+
+  it('replaces an entry set again instead of evicting another', async () => {
+    const cache = createCache(2);
+    await cache.set('a', ROWS, 60000);
+    await cache.set('b', ROWS, 60000);
+    await cache.set('a', [], 60000);
+
+    expect(await cache.get('a')).toEqual([]);
+    expect(await cache.get('b')).toEqual(ROWS);
+    expect(cache.stats().evictions).toBe(0);
+  });
+
+  it('caches nothing when the size is 0', async () => {
+    const cache = createCache(0);
+    await cache.set('a', ROWS, 60000);
+
+    expect(await cache.get('a')).toBeUndefined();
+    expect(cache.stats().size).toBe(0);
+  });
+
+  it('evicts the least recently used entries until the rows fit', async () => {
+    const cache = createCache(10, 3);
+    await cache.set('a', [...ROWS, ...ROWS], 60000);
+    await cache.set('b', ROWS, 60000);
+    await cache.set('c', [...ROWS, ...ROWS], 60000);
+
+    expect(await cache.get('a')).toBeUndefined();
+    expect(await cache.get('b')).toEqual(ROWS);
+    expect(await cache.get('c')).toHaveLength(2);
+    expect(cache.stats()).toMatchObject({ size: 2, rows: 3, maxRows: 3, evictions: 1 });
+  });
+
+  it('does not cache a result with more rows than the cap', async () => {
+    const cache = createCache(10, 3);
+    await cache.set('a', ROWS, 60000);
+    await cache.set('huge', [...ROWS, ...ROWS, ...ROWS, ...ROWS], 60000);
+
+    expect(await cache.get('huge')).toBeUndefined();
+    expect(await cache.get('a')).toEqual(ROWS);
+    expect(cache.stats()).toMatchObject({ rows: 1, evictions: 0 });
+  });
+});
+
+describe('FileQueryCache on disk', () => {
+  it('keeps entries and their recency across restarts', async () => {
+    const before = new FileQueryCache(directory, 2);
+    await before.set('a', ROWS, 60000);
+    await before.set('b', ROWS, 60000);
+
+    // Recency is the modification time: make a the most recently used
+    const files = await cacheFiles();
+    const fileOf = (key: string) => path.join(directory, files.find(file => file.startsWith(hashOf(key)))!);
+    await fs.utimes(fileOf('b'), new Date(1000), new Date(1000));
+    await fs.utimes(fileOf('a'), new Date(2000), new Date(2000));
+
+    const after = new FileQueryCache(directory, 2);
+    await after.set('c', ROWS, 60000);
+
+    expect(await after.get('b')).toBeUndefined();
+    expect(await after.get('a')).toEqual(ROWS);
+    expect(await after.get('c')).toEqual(ROWS);
+  });
+
+  it('deletes the file of an expired entry', async () => {
+    const cache = new FileQueryCache(directory, 10);
+    await cache.set('latest', ROWS, 1000);
+    expect(await cacheFiles()).toHaveLength(1);
+
+    now += 1000;
+
+    expect(await cache.get('latest')).toBeUndefined();
+    expect(await cacheFiles()).toHaveLength(0);
+  });
+
+  it('treats a corrupt entry as a miss and removes it', async () => {
+    const cache = new FileQueryCache(directory, 10);
+    await cache.set('a', ROWS, 60000);
+    const [file] = await cacheFiles();
+    await fs.writeFile(path.join(directory, file!), '{"key": "a", "rows": [');
+
+    expect(await cache.get('a')).toBeUndefined();
+    expect(await cacheFiles()).toHaveLength(0);
+    expect(cache.stats()).toMatchObject({ size: 0, misses: 1 });
+
+    await cache.set('a', ROWS, 60000);
+    expect(await cache.get('a')).toEqual(ROWS);
+  });
+
+  it('treats an entry deleted outside the server as a miss', async () => {
+    const cache = new FileQueryCache(directory, 10);
+    await cache.set('a', ROWS, 60000);
+    const [file] = await cacheFiles();
+    await fs.rm(path.join(directory, file!));
+
+    expect(await cache.get('a')).toBeUndefined();
+    expect(cache.stats()).toMatchObject({ size: 0, misses: 1 });
+  });
+
+  it('counts the rows of entries kept across restarts', async () => {
+    const before = new FileQueryCache(directory, 10, 3);
+    await before.set('a', [...ROWS, ...ROWS], 60000);
+
+    const after = new FileQueryCache(directory, 10, 3);
+    await after.set('b', [...ROWS, ...ROWS], 60000);
+
+    expect(await after.get('a')).toBeUndefined();
+    expect(after.stats()).toMatchObject({ size: 1, rows: 2 });
+  });
+
+  it('removes entries written without a row count', async () => {
+    const legacy = path.join(directory, `${hashOf('a')}.${now + 60000}.json`);
+    await fs.writeFile(legacy, JSON.stringify({ key: 'a', rows: ROWS }));
+
+    const cache = new FileQueryCache(directory, 10);
+    expect(await cache.get('a')).toBeUndefined();
+    await expect(fs.access(legacy)).rejects.toThrow();
+  });
+
+  it('ignores files it did not write and creates a missing directory', async () => {
+    await fs.writeFile(path.join(directory, 'notes.json'), 'not a cache entry');
+    await fs.writeFile(path.join(directory, `${hashOf('a')}.soon.json`), '{}');
+
+    const cache = new FileQueryCache(path.join(directory, 'nested', 'cache'), 10);
+    await cache.set('a', ROWS, 60000);
+    expect(await cache.get('a')).toEqual(ROWS);
+
+    const existing = new FileQueryCache(directory, 10);
+    expect(await existing.get('a')).toBeUndefined();
+    expect(existing.stats().size).toBe(0);
+  });
+});
+
+describe('BigQueryClient cache expiry', () => {
+  const config = loadConfig({ QUERY_AUDIT_ENABLED: 'false', QUERY_CACHE_TTL_MS: '1000', QUERY_CACHE_RUN_TTL_MS: '60000' });
+  const parameters = { runId: 'run-1', orgId: 'org-1' };
+
+  function query(column = 'asset'): ParameterizedQuery {
+    return { sql: `SELECT ${column} FROM ${ACTIONS_REPORT_TABLE} WHERE runId = @runId AND orgId = @orgId`, params: new QueryParameters() };
+  }
+
+  // Queries that ran, not dry runs; the run completion checks are the ones counting statuses
+  const ran = (jobs: CapturedJob[]) => jobs.filter(job => !job.dryRun && !job.query.includes('COUNTIF'));
+  const checks = (jobs: CapturedJob[]) => jobs.filter(job => !job.dryRun && job.query.includes('COUNTIF'));
+
+  // A run of 10 rows, openCount of them not yet complete
+  function runWithOpenRows(openCount: number) {
+    return createCapturingClient(config, {
+      pages: job => [{ rows: job.query.includes('COUNTIF') ? [{ rowCount: 10, openCount }] : ROWS }]
+    });
+  }
+
+  it('keeps the results of a complete run for QUERY_CACHE_RUN_TTL_MS', async () => {
+    const { client, jobs } = await runWithOpenRows(0);
+
+    await client.executeReportQuery(query(), parameters, {}, row => row);
+    now += 5000;
+    await client.executeReportQuery(query(), parameters, {}, row => row);
+
+    expect(ran(jobs)).toHaveLength(1);
+    expect(checks(jobs)[0]!.params).toEqual({ runId: 'run-1', orgId: 'org-1' });
+  });
+
+  it('expires the results of a run still being written after QUERY_CACHE_TTL_MS', async () => {
+    const { client, jobs } = await runWithOpenRows(3);
+
+    await client.executeReportQuery(query(), parameters, {}, row => row);
+    now += 5000;
+    await client.executeReportQuery(query(), parameters, {}, row => row);
+
+    expect(ran(jobs)).toHaveLength(2);
+    expect(checks(jobs)).toHaveLength(2);
+  });
+
+  it('checks a run only until it is complete', async () => {
+    const { client, jobs } = await runWithOpenRows(0);
+
+    await client.executeReportQuery(query('asset'), parameters, {}, row => row);
+    await client.executeReportQuery(query('wallet'), parameters, {}, row => row);
+
+    expect(ran(jobs)).toHaveLength(2);
+    expect(checks(jobs)).toHaveLength(1);
+  });
+
+  it('does not check the run for an empty result', async () => {
+    const { client, jobs } = await createCapturingClient(config);
+
+    await client.executeReportQuery(query(), parameters, {}, row => row);
+
+    expect(checks(jobs)).toHaveLength(0);
+  });
+
+  it('reuses a maxAge lots report for the rest of the day', async () => {
+    const { client, jobs } = await createCapturingClient(loadConfig({ QUERY_AUDIT_ENABLED: 'false', QUERY_CACHE_TTL_MS: '60000' }));
+    const lots = new LotsReportGenerator(client, config.precision);
+
+    await lots.generate({ ...parameters, asOfDate: '2024-12-31' }, { maxAge: 30 });
+    now += 30000;
+    await lots.generate({ ...parameters, asOfDate: '2024-12-31' }, { maxAge: 30 });
+
+    const startOfToday = Math.floor(now / 1000 / 86400) * 86400;
+    expect(ran(jobs)).toHaveLength(1);
+    expect(ran(jobs)[0]!.params).toMatchObject({ minAcquisitionSEC: startOfToday - 30 * 86400 });
+  });
+});
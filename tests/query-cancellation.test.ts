@@ -0,0 +1,55 @@
+/**
+ * Aborting a request cancels the BigQuery job it started, and the report
+ * fails with RequestCancelledError instead of waiting for the rows.
+ */
+
+import { loadConfig } from '../src/config';
+import { RequestCancelledError } from '../src/errors';
+import { LotsReportGenerator } from '../src/reports/lots-report';
+import { createCapturingClient } from './helpers/capturing-client';
+
+const PARAMETERS = { runId: 'run-1', orgId: 'org-1', asOfDate: '2025-03-31' };
+
+function config() {
+  return loadConfig({ QUERY_AUDIT_ENABLED: 'false' });
+}
+
+describe('request cancellation', () => {
+  it('cancels the running job when the request is aborted', async () => {
+    const controller = new AbortController();
+    const { client, jobs, cancelledJobs } = await createCapturingClient(config(), {
+      pages: [{ jobComplete: false }],
+      onPage: () => controller.abort()
+    });
+    const generator = new LotsReportGenerator(client, config().precision);
+
+    const report = generator.generate(PARAMETERS, {}, { signal: controller.signal });
+
+    await expect(report).rejects.toBeInstanceOf(RequestCancelledError);
+    await expect(report).rejects.toMatchObject({ data: { jobId: 'job-2' } });
+    // The dry run, then the report's job, which is the one cancelled
+    expect(jobs.map(job => Boolean(job.dryRun))).toEqual([true, false]);
+    expect(cancelledJobs).toEqual(['job-2']);
+  });
+
+  it('starts no job for a request aborted before it ran', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const { client, jobs } = await createCapturingClient(config());
+    const generator = new LotsReportGenerator(client, config().precision);
+
+    await expect(generator.generate(PARAMETERS, {}, { signal: controller.signal })).rejects.toBeInstanceOf(RequestCancelledError);
+    expect(jobs).toEqual([]);
+  });
+
+  it('leaves a finished job alone', async () => {
+    const controller = new AbortController();
+    const { client, cancelledJobs } = await createCapturingClient(config());
+    const generator = new LotsReportGenerator(client, config().precision);
+
+    await generator.generate(PARAMETERS, {}, { signal: controller.signal });
+    controller.abort();
+
+    expect(cancelledJobs).toEqual([]);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Every query is dry-run first. One that would process more than its
+ * bytes-billed limit is refused before a job starts, and the limit a job runs
+ * under can be lowered per call but never raised.
+ */
+
+import { loadConfig } from '../src/config';
+import { QueryCostLimitError } from '../src/errors';
+import { ACTIONS_REPORT_TABLE } from '../src/services/sql-builder';
+import { ParameterizedQuery, QueryParameters } from '../src/services/query-parameters';
+import { ReportExecutionOptions } from '../src/types/actions-report';
+import { createCapturingClient } from './helpers/capturing-client';
+
+const PARAMETERS = { runId: 'run-1', orgId: 'org-1' };
+
+function query(): ParameterizedQuery {
+  return { sql: `SELECT asset FROM ${ACTIONS_REPORT_TABLE} WHERE runId = @runId AND orgId = @orgId`, params: new QueryParameters() };
+}
+
+async function runQuery(env: NodeJS.ProcessEnv, bytesProcessed: number, options: ReportExecutionOptions = {}) {
+  const config = loadConfig({ QUERY_AUDIT_ENABLED: 'false', QUERY_CACHE_MAX_SIZE: '0', ...env });
+  const capturing = await createCapturingClient(config, { bytesProcessed });
+  const result = capturing.client.executeReportQuery(query(), PARAMETERS, options, row => row);
+
+  return { ...capturing, result };
+}
+
+describe('bytes-billed limit', () => {
+  it('refuses a query whose dry run is over MAX_BYTES_BILLED, before any job runs', async () => {
+    const { result, jobs } = await runQuery({ MAX_BYTES_BILLED: '1000' }, 2000);
+
+    await expect(result).rejects.toBeInstanceOf(QueryCostLimitError);
+    await expect(result).rejects.toMatchObject({ data: { totalBytesProcessed: 2000, maximumBytesBilled: 1000, withinLimit: false } });
+    expect(jobs).toEqual([expect.objectContaining({ dryRun: true })]);
+  });
+
+  it('runs a query within the limit with BigQuery enforcing the same cap', async () => {
+    const { result, jobs } = await runQuery({ MAX_BYTES_BILLED: '1000' }, 1000);
+
+    await expect(result).resolves.toEqual({ rows: [], truncated: false });
+    expect(jobs.filter(job => !job.dryRun)).toEqual([expect.objectContaining({ maximumBytesBilled: '1000' })]);
+  });
+
+  it('lowers the limit to a smaller per-call cap', async () => {
+    const refused = await runQuery({ MAX_BYTES_BILLED: '10000' }, 6000, { maximumBytesBilled: 5000 });
+    await expect(refused.result).rejects.toBeInstanceOf(QueryCostLimitError);
+
+    const { result, jobs } = await runQuery({ MAX_BYTES_BILLED: '10000' }, 4000, { maximumBytesBilled: 5000 });
+    await result;
+    expect(jobs.filter(job => !job.dryRun)).toEqual([expect.objectContaining({ maximumBytesBilled: '5000' })]);
+  });
+
+  it('never raises the limit to a larger per-call cap', async () => {
+    const { result, jobs } = await runQuery({ MAX_BYTES_BILLED: '1000' }, 2000, { maximumBytesBilled: 5000 });
+
+    await expect(result).rejects.toMatchObject({ data: { maximumBytesBilled: 1000 } });
+    expect(jobs.filter(job => !job.dryRun)).toEqual([]);
+  });
+
+  it('uses the org limit in place of MAX_BYTES_BILLED', async () => {
+    const { result, jobs } = await runQuery({ MAX_BYTES_BILLED: '1000', MAX_BYTES_BILLED_BY_ORG: '{"org-1": 50000}' }, 2000);
+
+    await result;
+    expect(jobs.filter(job => !job.dryRun)).toEqual([expect.objectContaining({ maximumBytesBilled: '50000' })]);
+  });
+
+  it('runs without a cap when no limit is configured', async () => {
+    const { result, jobs } = await runQuery({}, 10 ** 12);
+
+    await result;
+    expect(jobs.filter(job => !job.dryRun)).toEqual([expect.not.objectContaining({ maximumBytesBilled: expect.anything() })]);
+  });
+});
+
+describe('estimateReportQuery', () => {
+  it('reports the bytes, cost and whether the query fits without running it', async () => {
+    const config = loadConfig({ QUERY_AUDIT_ENABLED: 'false', MAX_BYTES_BILLED: '1000', BIGQUERY_PRICE_PER_TIB_USD: '6.25' });
+    const { client, jobs } = await createCapturingClient(config, { bytesProcessed: 2 ** 40 });
+
+    const estimate = await client.estimateReportQuery(query(), PARAMETERS, { maximumBytesBilled: 500 });
+
+    expect(estimate).toEqual({ totalBytesProcessed: 2 ** 40, estimatedCostUSD: 6.25, maximumBytesBilled: 500, withinLimit: false });
+    expect(jobs).toEqual([expect.objectContaining({ dryRun: true })]);
+  });
+});
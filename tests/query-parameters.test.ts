@@ -0,0 +1,103 @@
+/**
+ * Hostile filter values must reach BigQuery as bound parameters only:
+ * the SQL text of every query is identical to the one built from benign values.
+ */
+
+import { loadConfig } from '../src/config';
+import { LotsReportGenerator } from '../src/reports/lots-report';
+import { InventoryBalanceGenerator } from '../src/reports/inventory-balance';
+import { ValuationRollforwardGenerator } from '../src/reports/valuation-rollforward';
+import { QueryParseResult } from '../src/types/actions-report';
+import { CapturedJob, createCapturingClient } from './helpers/capturing-client';
+
+// Defaults only, whatever the environment running the tests holds; no audit log files
+const config = loadConfig({ QUERY_AUDIT_ENABLED: 'false' });
+
+const HOSTILE = "BTC') OR 1=1 --";
+const HOSTILE_WALLET = "O'Brien'; DROP TABLE actions; --";
+
+async function captureReportQueries(runId: string, value: string, wallet: string): Promise<CapturedJob[]> {
+  const { client, jobs } = await createCapturingClient(config);
+  const parameters = { runId, orgId: value, asOfDate: '2024-12-31', startDate: '2024-01-01', endDate: '2024-12-31' };
+
+  await new LotsReportGenerator(client, config.precision).generate(parameters, { assets: [value, 'ETH'], minQty: 1 });
+  await new InventoryBalanceGenerator(client, config.precision).generate(parameters, ['asset', 'inventory'], {
+    assets: [value],
+    inventories: [wallet],
+    subsidiaries: [value],
+    minValue: 10
+  });
+  await new ValuationRollforwardGenerator(client, config.precision).generate(parameters, ['asset', 'wallet'], {
+    assets: [value],
+    subsidiaries: [wallet]
+  });
+
+  const parseResult: QueryParseResult = {
+    intent: 'filter',
+    columns: [],
+    filters: {
+      assets: [value],
+      includeWallets: [wallet],
+      excludeWallets: [value],
+      actions: [value],
+      status: [wallet],
+      startDate: '2024-01-01',
+      endDate: '2024-12-31'
+    }
+  };
+  await client.executeAnalyticalQuery(parseResult, parameters);
+
+  return jobs;
+}
+
+describe('query parameters', () => {
+  it('keeps hostile filter values out of the SQL text', async () => {
+    const benign = await captureReportQueries('run-1', 'BTC', 'main');
+    const hostile = await captureReportQueries(HOSTILE, HOSTILE, HOSTILE_WALLET);
+
+    expect(hostile).toHaveLength(benign.length);
+    hostile.forEach((job, index) => {
+      expect(job.query).toBe(benign[index]!.query);
+      expect(job.query).not.toContain(HOSTILE);
+      expect(job.query).not.toContain("O'Brien");
+    });
+  });
+
+  it('binds every filter value with an explicit type', async () => {
+    const [lots] = await captureReportQueries(HOSTILE, HOSTILE, HOSTILE_WALLET);
+
+    expect(lots!.params).toMatchObject({ runId: HOSTILE, orgId: HOSTILE, assets: [HOSTILE, 'ETH'], minQty: 1 });
+    expect(lots!.types).toMatchObject({ runId: 'STRING', orgId: 'STRING', assets: ['STRING'], minQty: 'FLOAT64' });
+    Object.keys(lots!.params ?? {}).forEach(name => {
+      expect(lots!.query).toContain(`@${name}`);
+      expect(lots!.types).toHaveProperty(name);
+    });
+  });
+
+  it('scopes every report query to the org', async () => {
+    const jobs = await captureReportQueries('run-1', 'org-1', 'main');
+    // Dry run and run for each report, then the analytical query
+    const [lots, , inventory, , rollforward] = jobs;
+
+    jobs.forEach(job => expect(job.params).toMatchObject({ runId: 'run-1', orgId: 'org-1' }));
+    expect(lots!.query).toContain('orgId = @orgId');
+    expect(inventory!.query).toContain('t.orgId = @orgId');
+    // Both the average-cost check and the prepared gain/loss rows
+    expect(rollforward!.query.match(/orgId = @orgId/g)).toHaveLength(2);
+  });
+
+  it('binds analytical query filters as arrays', async () => {
+    const jobs = await captureReportQueries('run-1', HOSTILE, HOSTILE_WALLET);
+    const analytical = jobs[jobs.length - 1]!;
+
+    expect(analytical.params).toMatchObject({
+      runId: 'run-1',
+      assets: [HOSTILE],
+      includeWallets: [HOSTILE_WALLET],
+      excludeWallets: [HOSTILE],
+      actions: [HOSTILE],
+      statuses: [HOSTILE_WALLET]
+    });
+    expect(analytical.query).toContain('asset IN UNNEST(@assets)');
+  });
+});
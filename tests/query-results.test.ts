@@ -0,0 +1,115 @@
+/**
+ * Report rows are read from BigQuery a page at a time, after the job has
+ * finished, and capped at MAX_QUERY_ROWS.
+ */
+
+import { loadConfig } from '../src/config';
+import { BigQueryTimeoutError } from '../src/errors';
+import { ACTIONS_REPORT_TABLE } from '../src/services/sql-builder';
+import { ParameterizedQuery, QueryParameters } from '../src/services/query-parameters';
+import { CapturingClientOptions, createCapturingClient } from './helpers/capturing-client';
+
+const PARAMETERS = { runId: 'run-1', orgId: 'org-1' };
+
+function query(): ParameterizedQuery {
+  return { sql: `SELECT asset FROM ${ACTIONS_REPORT_TABLE} WHERE runId = @runId AND orgId = @orgId`, params: new QueryParameters() };
+}
+
+function rows(...assets: string[]): Record<string, unknown>[] {
+  return assets.map(asset => ({ asset }));
+}
+
+// No query cache, so the only job is the report's own
+async function runReport(env: NodeJS.ProcessEnv, options: CapturingClientOptions, maxRows?: number) {
+  const config = loadConfig({ QUERY_AUDIT_ENABLED: 'false', QUERY_CACHE_MAX_SIZE: '0', ...env });
+  const capturing = await createCapturingClient(config, options);
+  const result = await capturing.client.executeReportQuery(query(), PARAMETERS, maxRows ? { maxRows } : {}, row => row.asset as string);
+
+  return { ...capturing, result };
+}
+
+describe('report query results', () => {
+  it('reads every page, BIGQUERY_MAX_RESULTS rows at a time', async () => {
+    const { result, pageRequests } = await runReport({ BIGQUERY_MAX_RESULTS: '2' }, {
+      pages: [{ rows: rows('BTC', 'ETH'), pageToken: 'page-2' }, { rows: rows('SOL') }]
+    });
+
+    expect(result).toEqual({ rows: ['BTC', 'ETH', 'SOL'], truncated: false });
+    expect(pageRequests).toEqual([
+      expect.objectContaining({ maxResults: 2 }),
+      expect.objectContaining({ maxResults: 2, pageToken: 'page-2' })
+    ]);
+  });
+
+  it('keeps polling until the job is complete', async () => {
+    const { result, pageRequests } = await runReport({}, {
+      pages: [{ jobComplete: false }, { jobComplete: false }, { rows: rows('BTC'), jobComplete: true }]
+    });
+
+    expect(result).toEqual({ rows: ['BTC'], truncated: false });
+    expect(pageRequests).toHaveLength(3);
+    pageRequests.forEach(request => expect(request.pageToken).toBeUndefined());
+  });
+
+  it('caches the finished result, not the empty answer of a running job', async () => {
+    const config = loadConfig({ QUERY_AUDIT_ENABLED: 'false' });
+    const { client, jobs } = await createCapturingClient(config, {
+      pages: [{ jobComplete: false }, { rows: rows('BTC') }]
+    });
+
+    await client.executeReportQuery(query(), PARAMETERS, {}, row => row.asset as string);
+    const again = await client.executeReportQuery(query(), PARAMETERS, {}, row => row.asset as string);
+
+    expect(again).toEqual({ rows: ['BTC'], truncated: false });
+    expect(client.getCacheStats()).toMatchObject({ hits: 1 });
+    // The report, then the cache's check of whether the run is complete
+    expect(jobs.filter(job => !job.dryRun).map(job => job.query)).toEqual([
+      expect.stringContaining('SELECT asset'),
+      expect.stringContaining('COUNTIF')
+    ]);
+  });
+
+  it('stops at MAX_QUERY_ROWS and reports the result as truncated', async () => {
+    const { result, pageRequests } = await runReport({ MAX_QUERY_ROWS: '3', BIGQUERY_MAX_RESULTS: '2' }, {
+      pages: [
+        { rows: rows('BTC', 'ETH'), pageToken: 'page-2' },
+        { rows: rows('SOL', 'ADA'), pageToken: 'page-3' },
+        { rows: rows('DOT') }
+      ]
+    });
+
+    expect(result).toEqual({ rows: ['BTC', 'ETH', 'SOL'], truncated: true });
+    // The last page asks for one row past the cap and no more
+    expect(pageRequests.map(request => request.maxResults)).toEqual([2, 2]);
+  });
+
+  it('stops at the report\'s own cap when it is below MAX_QUERY_ROWS', async () => {
+    const { result } = await runReport({ MAX_QUERY_ROWS: '3' }, { pages: [{ rows: rows('BTC', 'ETH', 'SOL') }] }, 2);
+
+    expect(result).toEqual({ rows: ['BTC', 'ETH'], truncated: true });
+  });
+
+  it('cancels a query still running after QUERY_TIMEOUT_MS', async () => {
+    const config = loadConfig({ QUERY_AUDIT_ENABLED: 'false', QUERY_TIMEOUT_MS: '50' });
+    const { client, cancelledJobs } = await createCapturingClient(config, { pages: [{ jobComplete: false }] });
+
+    await expect(client.executeReportQuery(query(), PARAMETERS, {}, row => row)).rejects.toBeInstanceOf(BigQueryTimeoutError);
+    expect(cancelledJobs).toEqual(['job-2']);
+  });
+
+  it('reports an exact fit as complete', async () => {
+    const { result } = await runReport({ MAX_QUERY_ROWS: '2' }, { pages: [{ rows: rows('BTC', 'ETH') }] });
+
+    expect(result).toEqual({ rows: ['BTC', 'ETH'], truncated: false });
+  });
+
+  it('does not cache a truncated result', async () => {
+    const config = loadConfig({ QUERY_AUDIT_ENABLED: 'false', MAX_QUERY_ROWS: '1' });
+    const { client, jobs } = await createCapturingClient(config, { pages: [{ rows: rows('BTC', 'ETH') }] });
+
+    await client.executeReportQuery(query(), PARAMETERS, {}, row => row.asset as string);
+    await client.executeReportQuery(query(), PARAMETERS, {}, row => row.asset as string);
+
+    expect(jobs.filter(job => !job.dryRun)).toHaveLength(2);
+  });
+});
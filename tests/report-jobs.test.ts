@@ -0,0 +1,135 @@
+/**
+ * The background report job store: job lifecycle, and the caps on how many
+ * jobs and how many result records it holds.
+ */
+
+import { ErrorCodes, ReportGenerationError, RequestCancelledError } from '../src/errors';
+import { ReportJobStore, ReportJobStoreOptions } from '../src/jobs/report-jobs';
+import { ReportOutput } from '../src/types/actions-report';
+
+const OPTIONS: ReportJobStoreOptions = { maxJobs: 10, ttlMs: 60000, maxRecords: 1000 };
+
+function output(records: number): ReportOutput {
+  return {
+    text: 'report',
+    overview: {},
+    records: Array.from({ length: records }, (_, index) => ({ index })),
+    truncated: false
+  };
+}
+
+/**
+ * A runner the test finishes by hand
+ */
+function deferred(): { run: () => Promise<ReportOutput>; finish: (records: number) => Promise<void>; fail: (error: Error) => Promise<void> } {
+  let resolve!: (value: ReportOutput) => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<ReportOutput>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  // Let the store's completion handlers run
+  const settled = () => promise.then(() => undefined, () => undefined);
+
+  return {
+    run: () => promise,
+    finish: records => {
+      resolve(output(records));
+      return settled();
+    },
+    fail: error => {
+      reject(error);
+      return settled();
+    }
+  };
+}
+
+async function finishedJob(store: ReportJobStore, records: number): Promise<string> {
+  const { jobId } = store.start('generate_lots_report', async () => output(records));
+  await Promise.resolve();
+  return jobId;
+}
+
+describe('ReportJobStore', () => {
+  it('reports progress while running and the output once finished', async () => {
+    const store = new ReportJobStore(OPTIONS);
+    const job = deferred();
+    const { jobId, status } = store.start('generate_lots_report', context => {
+      context.sendProgress?.(1, 4, 'BigQuery job created');
+      return job.run();
+    });
+
+    expect(status).toBe('running');
+    expect(store.get(jobId).progress).toEqual({ progress: 1, total: 4, message: 'BigQuery job created' });
+    expect(() => store.result(jobId)).toThrow('still running');
+
+    await job.finish(3);
+
+    expect(store.get(jobId)).toMatchObject({ status: 'succeeded', recordCount: 3 });
+    expect(store.result(jobId).records).toHaveLength(3);
+  });
+
+  it('keeps the failure that ended a job', async () => {
+    const store = new ReportJobStore(OPTIONS);
+    const job = deferred();
+    const { jobId } = store.start('generate_lots_report', job.run);
+
+    await job.fail(new ReportGenerationError('no lots'));
+
+    expect(store.get(jobId)).toMatchObject({ status: 'failed', error: { code: ErrorCodes.REPORT_GENERATION, message: 'no lots' } });
+    expect(() => store.result(jobId)).toThrow('no lots');
+  });
+
+  it('cancels running jobs', async () => {
+    const store = new ReportJobStore(OPTIONS);
+    const { jobId } = store.start('generate_lots_report', context => new Promise((_, reject) => {
+      context.signal?.addEventListener('abort', () => reject(new RequestCancelledError()));
+    }));
+
+    expect(store.cancelAll()).toBe(1);
+    await Promise.resolve();
+
+    expect(store.get(jobId).status).toBe('cancelled');
+  });
+
+  it('refuses unknown and expired jobs', async () => {
+    const store = new ReportJobStore({ ...OPTIONS, ttlMs: 0 });
+    const jobId = await finishedJob(store, 1);
+
+    expect(() => store.get('missing')).toThrow('Unknown or expired report job');
+    expect(() => store.get(jobId)).toThrow('Unknown or expired report job');
+  });
+
+  it('evicts the oldest finished job when full, and refuses when every job is running', async () => {
+    const store = new ReportJobStore({ ...OPTIONS, maxJobs: 2 });
+    const oldest = await finishedJob(store, 1);
+    const running = deferred();
+    const { jobId: runningId } = store.start('generate_lots_report', running.run);
+    const newest = await finishedJob(store, 1);
+
+    expect(() => store.get(oldest)).toThrow('Unknown or expired report job');
+    expect(store.get(runningId).status).toBe('running');
+    expect(store.get(newest).status).toBe('succeeded');
+
+    const blocked = new ReportJobStore({ ...OPTIONS, maxJobs: 1 });
+    blocked.start('generate_lots_report', deferred().run);
+    expect(() => blocked.start('generate_lots_report', deferred().run)).toThrow(/Too many report jobs running/);
+  });
+
+  it('evicts the oldest results once the records held pass the cap', async () => {
+    const store = new ReportJobStore({ ...OPTIONS, maxRecords: 100 });
+    const first = await finishedJob(store, 40);
+    const second = await finishedJob(store, 40);
+    const third = await finishedJob(store, 40);
+
+    expect(() => store.get(first)).toThrow('Unknown or expired report job');
+    expect(store.get(second).recordCount).toBe(40);
+    expect(store.get(third).recordCount).toBe(40);
+
+    // A result over the cap on its own is kept, alone
+    const huge = await finishedJob(store, 150);
+    expect(store.get(huge).recordCount).toBe(150);
+    expect(() => store.get(second)).toThrow('Unknown or expired report job');
+    expect(() => store.get(third)).toThrow('Unknown or expired report job');
+  });
+});
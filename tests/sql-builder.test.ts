@@ -0,0 +1,146 @@
+/**
+ * The SQL builder's rendering, and the SQL every report generator and the
+ * analytical query path build with it, pinned as snapshots. A change to any
+ * report's SQL shows up here as a reviewable diff.
+ */
+
+import { loadConfig } from '../src/config';
+import { BigQueryClient } from '../src/services/bigquery-client';
+import { ACTIONS_REPORT_TABLE, SelectQuery, and, coalesce, numeric, or, selectItem, sum } from '../src/services/sql-builder';
+import { LotsReportGenerator } from '../src/reports/lots-report';
+import { InventoryBalanceGenerator } from '../src/reports/inventory-balance';
+import { ValuationRollforwardGenerator } from '../src/reports/valuation-rollforward';
+import { QueryParseResult, ReportParameters } from '../src/types/actions-report';
+import { createCapturingClient } from './helpers/capturing-client';
+
+// Defaults only, whatever the environment running the tests holds; no audit log files
+const config = loadConfig({ QUERY_AUDIT_ENABLED: 'false' });
+
+const PARAMETERS: ReportParameters = {
+  runId: 'run-1',
+  orgId: 'org-1',
+  asOfDate: '2024-12-31',
+  startDate: '2024-01-01',
+  endDate: '2024-12-31'
+};
+
+async function captureSQL(run: (client: BigQueryClient) => Promise<unknown>): Promise<string> {
+  const { client, jobs } = await createCapturingClient(config);
+  await run(client);
+
+  const queries = jobs.filter(job => !job.dryRun).map(job => job.query);
+
+  expect(queries).toHaveLength(1);
+  return queries[0]!;
+}
+
+describe('SelectQuery', () => {
+  it('renders CTEs, joins, filters, groupings and ordering', () => {
+    const totals = new SelectQuery()
+      .select('asset', selectItem(sum(numeric('assetUnitAdj')), 'qty'))
+      .from(ACTIONS_REPORT_TABLE, 't')
+      .where('t.runId = @runId', undefined, or('t.wallet IS NULL', 't.wallet != @wallet'))
+      .groupBy('asset');
+
+    const sql = new SelectQuery()
+      .with('totals', totals)
+      .select(selectItem(coalesce('a.asset', 'b.asset'), 'asset'), 'a.qty')
+      .from('totals', 'a')
+      .join({ type: 'FULL OUTER', source: 'totals', alias: 'b', on: and('a.asset = b.asset', 'a.qty = b.qty') })
+      .having('SUM(a.qty) > 0')
+      .orderBy('asset', 'ASC')
+      .orderBy('a.qty')
+      .toSQL();
+
+    expect(sql).toMatchSnapshot();
+  });
+
+  it('renders SELECT AS VALUE and CROSS JOIN', () => {
+    const sql = new SelectQuery()
+      .selectAsValue('ANY_VALUE(t)')
+      .from(ACTIONS_REPORT_TABLE, 't')
+      .join({ type: 'CROSS', source: 'flags', alias: 'f' })
+      .groupBy('t.eventId')
+      .toSQL();
+
+    expect(sql).toMatchSnapshot();
+  });
+
+  it('rejects malformed queries', () => {
+    expect(() => new SelectQuery().from('actions').toSQL()).toThrow('no select expressions');
+    expect(() => new SelectQuery().select(selectItem('1', 'bad alias'))).toThrow('Invalid SQL alias');
+    expect(() => new SelectQuery().with('x; DROP', new SelectQuery())).toThrow('Invalid SQL CTE name');
+    expect(() => new SelectQuery().join({ type: 'LEFT', source: 'lots' })).toThrow('needs an ON condition');
+    expect(() => new SelectQuery().join({ type: 'CROSS', source: 'lots', on: 'TRUE' })).toThrow('takes no ON condition');
+  });
+});
+
+describe('report SQL', () => {
+  it('lots report', async () => {
+    const sql = await captureSQL(client =>
+      new LotsReportGenerator(client, config.precision).generate(PARAMETERS, {
+        assets: ['BTC'],
+        minQty: 1,
+        maxAge: 30,
+        onlyImpaired: true
+      })
+    );
+
+    expect(sql).toMatchSnapshot();
+  });
+
+  it('inventory balance grouped by subsidiary', async () => {
+    const sql = await captureSQL(client =>
+      new InventoryBalanceGenerator(client, config.precision).generate(PARAMETERS, ['asset', 'subsidiary'], {
+        assets: ['BTC'],
+        inventories: ['main'],
+        subsidiaries: ['sub-1'],
+        minValue: 10
+      })
+    );
+
+    expect(sql).toMatchSnapshot();
+  });
+
+  it('valuation rollforward by asset', async () => {
+    const sql = await captureSQL(client =>
+      new ValuationRollforwardGenerator(client, config.precision).generate(PARAMETERS, ['asset'])
+    );
+
+    expect(sql).toMatchSnapshot();
+  });
+
+  it('valuation rollforward joins on every grouping dimension', async () => {
+    const sql = await captureSQL(client =>
+      new ValuationRollforwardGenerator(client, config.precision).generate(PARAMETERS, ['asset', 'subsidiary', 'wallet'], {
+        assets: ['BTC'],
+        subsidiaries: ['sub-1']
+      })
+    );
+
+    expect(sql).toContain(
+      'FULL OUTER JOIN decreases AS dec ON (COALESCE(sb.asset, inc.asset) = dec.asset' +
+        ' AND COALESCE(sb.original_subsidiary, inc.original_subsidiary) = dec.original_subsidiary' +
+        ' AND COALESCE(sb.original_wallet, inc.original_wallet) = dec.original_wallet)'
+    );
+    expect(sql).toMatchSnapshot();
+  });
+
+  it('analytical aggregation', async () => {
+    const parseResult: QueryParseResult = {
+      intent: 'aggregation',
+      aggregationType: 'sum',
+      columns: [{ userTerm: 'cost basis', mappedColumns: ['costBasisAcquired'], description: 'Cost basis acquired', confirmed: true }],
+      filters: {
+        assets: ['BTC'],
+        excludeWallets: ['cold'],
+        startDate: '2024-01-01',
+        endDate: '2024-12-31'
+      }
+    };
+
+    const sql = await captureSQL(client => client.executeAnalyticalQuery(parseResult, PARAMETERS));
+
+    expect(sql).toMatchSnapshot();
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Passthrough SQL is accepted only as a single SELECT that reads nothing but
+ * the Actions Report table, and every read of the table is scoped to the run.
+ */
+
+import { ErrorCodes } from '../src/errors';
+import { PASSTHROUGH_TABLE, scopePassthroughSQL } from '../src/services/sql-passthrough';
+
+const T = PASSTHROUGH_TABLE;
+const SOURCE = '`project.dataset.actions`';
+const SCOPED = `(SELECT * FROM ${SOURCE} WHERE runId = @runId AND orgId = @orgId)`;
+const scope = (sql: string) => scopePassthroughSQL(sql, SOURCE);
+
+describe('scopePassthroughSQL', () => {
+  it('scopes every read of the table to the run', () => {
+    expect(scope(`SELECT asset, SUM(assetUnitAdj) AS qty FROM ${T} GROUP BY asset;`))
+      .toBe(`SELECT asset, SUM(assetUnitAdj) AS qty FROM ${SCOPED} GROUP BY asset`);
+
+    const scoped = scope(
+      `WITH lots AS (SELECT * FROM \`${T}\`) SELECT * FROM lots JOIN ${T} AS t USING (lotId) WHERE t.asset IN (SELECT asset FROM ${T})`
+    );
+    expect(scoped.split(SCOPED)).toHaveLength(4);
+    expect(scoped.split(SCOPED).join('')).not.toContain('ACTIONS_REPORT_TABLE');
+  });
+
+  it('leaves the placeholder alone outside the FROM items it checked', () => {
+    expect(scope(`SELECT '${T}' AS s /* ${T} */ FROM ${T}`)).toBe(`SELECT '${T}' AS s /* ${T} */ FROM ${SCOPED}`);
+  });
+
+  it.each([
+    ['EXTRACT and IS DISTINCT FROM', `SELECT EXTRACT(YEAR FROM TIMESTAMP_SECONDS(timestampSEC)) FROM ${T} WHERE wallet IS NOT DISTINCT FROM 'a'`],
+    ['UNNEST and CTE reads', `WITH a AS (SELECT * FROM ${T}) SELECT * FROM a, UNNEST([1, 2]) AS n`],
+    ['parenthesized joins', `SELECT * FROM (${T} AS x JOIN ${T} AS y ON x.lotId = y.lotId)`],
+    ['keywords inside strings and comments', `SELECT 'DROP TABLE x; FROM secret' AS s, r'\\' FROM' FROM ${T} -- DELETE`],
+    ['the scope parameters', `SELECT * FROM ${T} WHERE runId = @runId`]
+  ])('accepts %s', (_, sql) => {
+    expect(() => scope(sql)).not.toThrow();
+  });
+
+  it.each([
+    ['DML', `DELETE FROM ${T} WHERE TRUE`],
+    ['scripts', `SELECT 1 FROM ${T}; DROP TABLE x`],
+    ['other tables', `SELECT * FROM dataset.secret`],
+    ['quoted table paths', 'SELECT * FROM `project.dataset.secret`'],
+    ['comma joins on other tables', `SELECT * FROM ${T} a JOIN ${T} b ON a.x = b.x, secret`],
+    ['tables inside parenthesized joins', `SELECT * FROM (secret JOIN ${T} ON TRUE)`],
+    ['INFORMATION_SCHEMA', `SELECT * FROM ${T}, region.INFORMATION_SCHEMA.JOBS`],
+    ['CTE names that are table paths', 'WITH `p.d.t` AS (SELECT 1) SELECT * FROM `p.d.t`'],
+    ['table functions', `SELECT * FROM ML.PREDICT(MODEL m, TABLE ${T})`],
+    ['EXTERNAL_QUERY', `SELECT * FROM EXTERNAL_QUERY('connection', 'SELECT 1')`],
+    ['queries that read nothing', 'SELECT 1'],
+    ['the table outside FROM', `SELECT ${T}`],
+    ['other parameters', `SELECT * FROM ${T} WHERE orgId = @otherOrg`],
+    ['system variables', `SELECT @@project_id FROM ${T}`],
+    ['unterminated strings', `SELECT * FROM ${T} WHERE asset = 'BTC`],
+    ['unbalanced parentheses', `SELECT * FROM ${T} WHERE (asset = 'BTC'`],
+    ['escaped backticks hiding an unscoped read', `SELECT 1 AS \`a\\\` -- \`, (SELECT STRING_AGG(DISTINCT orgId) FROM \`${T}\`) AS leaked\nFROM ${T}`],
+    ['escaped backticks hiding another table', `SELECT 1 AS \`a\\\` -- \`, (SELECT * FROM \`other-proj.secret.payroll\`) AS leaked\nFROM ${T}`]
+  ])('rejects %s', (_, sql) => {
+    expect(() => scope(sql)).toThrow(expect.objectContaining({ code: ErrorCodes.QUERY_PARSING }));
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * The Streamable HTTP transport answers each POST once every request on it
+ * has a response or was cancelled.
+ */
+
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { StreamableHTTPServerTransport } from '../src/transports/streamable-http';
+
+let server: Server;
+let transport: StreamableHTTPServerTransport;
+let received: JSONRPCMessage[];
+let url: string;
+
+beforeEach(async () => {
+  transport = new StreamableHTTPServerTransport('session-1');
+  received = [];
+  transport.onmessage = message => received.push(message);
+
+  server = createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    await transport.handlePost(req, res, JSON.parse(Buffer.concat(chunks).toString()));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp`;
+});
+
+afterEach(async () => {
+  await transport.close();
+  await new Promise(resolve => server.close(resolve));
+});
+
+function post(body: unknown, accept = 'application/json'): Promise<Response> {
+  return fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json', Accept: accept }, body: JSON.stringify(body) });
+}
+
+function request(id: number): JSONRPCMessage {
+  return { jsonrpc: '2.0', id, method: 'tools/call', params: { name: 'generate_lots_report', arguments: {} } };
+}
+
+function cancel(requestId: number): JSONRPCMessage {
+  return { jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId, reason: 'User aborted' } };
+}
+
+async function until(condition: () => boolean): Promise<void> {
+  while (!condition()) {
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+describe('StreamableHTTPServerTransport', () => {
+  it('answers a batch with the responses of the requests that were not cancelled', async () => {
+    const batch = post([request(1), request(2)]);
+    await until(() => received.length === 2);
+
+    const cancelled = await post(cancel(2));
+    expect(cancelled.status).toBe(202);
+    expect(received[2]).toMatchObject({ method: 'notifications/cancelled', params: { requestId: 2 } });
+
+    await transport.send({ jsonrpc: '2.0', id: 1, result: { content: [] } });
+
+    const response = await batch;
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual([{ jsonrpc: '2.0', id: 1, result: { content: [] } }]);
+  });
+
+  it('ends the stream of a POST whose every request was cancelled', async () => {
+    const stream = post(request(1), 'application/json, text/event-stream');
+    await until(() => received.length === 1);
+
+    await post(cancel(1));
+
+    const response = await stream;
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+    expect(await response.text()).toBe('');
+  });
+
+  it('answers a JSON POST whose only request was cancelled with no body', async () => {
+    const single = post(request(1));
+    await until(() => received.length === 1);
+
+    await post(cancel(1));
+
+    const response = await single;
+    expect(response.status).toBe(202);
+    expect(await response.text()).toBe('');
+  });
+
+  it('drops the response of a request cancelled before it finished', async () => {
+    const batch = post([request(1), request(2)]);
+    await until(() => received.length === 2);
+    await post(cancel(1));
+    await transport.send({ jsonrpc: '2.0', id: 2, result: { content: [] } });
+    await transport.send({ jsonrpc: '2.0', id: 1, result: { content: [] } });
+
+    expect(await (await batch).json()).toEqual([{ jsonrpc: '2.0', id: 2, result: { content: [] } }]);
+  });
+});